@@ -1,11 +1,15 @@
-module.exports = {
+/** @type {import('jest').Config} */
+export default {
   preset: 'ts-jest',
   testEnvironment: 'node',
   roots: ['<rootDir>/src', '<rootDir>/tests'],
   testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
   transform: {
-    '^.+\\.ts$': 'ts-jest',
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }],
+    // chalk is ESM-only, so it is compiled to CommonJS like the sources
+    '/node_modules/chalk/.+\\.js$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }],
   },
+  transformIgnorePatterns: ['/node_modules/(?!chalk/)'],
   collectCoverageFrom: ['src/**/*.ts', '!src/**/*.d.ts', '!src/**/*.test.ts', '!src/**/*.spec.ts'],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
@@ -17,13 +21,18 @@ module.exports = {
       statements: 80,
     },
   },
-  moduleNameMapping: {
-    '^@/(.*)$': '<rootDir>/src/$1',
+  moduleNameMapper: {
+    // Sources import their siblings with the .js extension Node's ESM loader needs
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+    // and dynamic imports take file URLs, which require() does not
+    '^file://(/.*)$': '$1',
     '^@/types/(.*)$': '<rootDir>/src/types/$1',
     '^@/core/(.*)$': '<rootDir>/src/core/$1',
     '^@/commands/(.*)$': '<rootDir>/src/commands/$1',
     '^@/utils/(.*)$': '<rootDir>/src/utils/$1',
+    '^@/(.*)$': '<rootDir>/src/$1',
   },
+  globalSetup: '<rootDir>/tests/global-setup.ts',
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
   testTimeout: 10000,
   verbose: true,
@@ -87,6 +87,9 @@ export const analyticsCommand = new Command('analytics')
   .option('--no-header', 'Skip the fancy header display')
   .option('--today', 'Shortcut for --since today (get commits from today only)')
   .option('-p, --provider <name>', 'Use specific AI provider by name')
+  .option('--max-commits <count>', 'Analyze at most this many of the newest matching commits')
+  .option('--path <pathspec...>', 'Only count commits and files under these paths')
+  .option('--exclude <pathspec...>', 'Ignore files matching these pathspecs (e.g. "**/*.lock")')
   .option(
     '--interactive',
     'Generate interactive dashboard with hover effects and animations [default: true]',
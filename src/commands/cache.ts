@@ -0,0 +1,51 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { CacheManager } from '../core/cache.js';
+import { configManager } from '../core/config.js';
+import { DisplayService } from '../core/display-service.js';
+
+/**
+ * Cache command class
+ * Inspects and clears the local cache of AI responses
+ */
+export class CacheCommand {
+  /**
+   * Show how many responses are cached and how much space they take
+   */
+  public async stats(): Promise<void> {
+    const cache = await this.getCache();
+    DisplayService.displayCacheStats(await cache.getStats());
+  }
+
+  /**
+   * Remove every cached response
+   */
+  public async clear(): Promise<void> {
+    const cache = await this.getCache();
+    const removed = await cache.clear();
+    console.log(chalk.green(`✅ Removed ${removed} cached response${removed === 1 ? '' : 's'}`));
+  }
+
+  private async getCache(): Promise<CacheManager> {
+    const config = await configManager.loadConfig();
+    return new CacheManager(config?.cache);
+  }
+}
+
+// Create command instance
+const cacheCommandInstance = new CacheCommand();
+
+export const cacheCommand = new Command('cache')
+  .description('Inspect or clear the local cache of AI responses')
+  .addCommand(
+    new Command('stats')
+      .description('Show how many responses are cached and how much space they take')
+      .action(async () => {
+        await cacheCommandInstance.stats();
+      })
+  )
+  .addCommand(
+    new Command('clear').description('Remove every cached response').action(async () => {
+      await cacheCommandInstance.clear();
+    })
+  );
@@ -0,0 +1,45 @@
+import { Command } from 'commander';
+import { ChangelogProcessor } from '../core/changelog-processor.js';
+import { ChangelogOptions } from '../types/index.js';
+
+/**
+ * Changelog command class
+ * Generates release notes from conventional commits between two tags
+ */
+export class ChangelogCommand {
+  private readonly processor: ChangelogProcessor;
+
+  constructor() {
+    this.processor = new ChangelogProcessor();
+  }
+
+  /**
+   * Execute the changelog command
+   */
+  public async execute(options: ChangelogOptions): Promise<void> {
+    await this.processor.processChangelog(options);
+  }
+}
+
+// Create command instance
+const changelogCommandInstance = new ChangelogCommand();
+
+export const changelogCommand = new Command('changelog')
+  .description('Generate release notes and update CHANGELOG.md from conventional commits')
+  .option('--from <tag>', 'Start of the release (defaults to the previous tag)')
+  .option('--to <ref>', 'End of the release (defaults to HEAD)')
+  .option(
+    '--release <version>',
+    'Version for the new section (defaults to the --to tag or "Unreleased")'
+  )
+  .option('-o, --output <path>', 'Changelog file to update', 'CHANGELOG.md')
+  .option(
+    '--style <style>',
+    'Changelog layout (keep-a-changelog|standard-version), detected by default'
+  )
+  .option('--no-ai', 'Use commit subjects as-is instead of AI-polished entries')
+  .option('-p, --provider <name>', 'Use specific AI provider by name')
+  .option('--dry-run', 'Print the new section without writing the file')
+  .action(async (options: ChangelogOptions) => {
+    await changelogCommandInstance.execute(options);
+  });
@@ -98,6 +98,7 @@ export const commitCommand = new Command('commit')
   .option('-p, --provider <name>', 'Use specific AI provider by name')
   .option('--dry-run', 'Show what would be committed without actually committing')
   .option('--no-header', 'Skip the fancy header display')
+  .option('--no-cache', 'Ask the AI again instead of reusing a cached response')
   .option('-b, --branch <name>', 'Create and switch to a new branch before committing')
   .option('--new-branch <name>', 'Create a new branch (alias for --branch)')
   .option('-s, --switch-branch <name>', 'Switch to an existing branch before committing')
@@ -106,6 +107,13 @@ export const commitCommand = new Command('commit')
   .option('--auto-add', 'Automatically add all changes (git add .)')
   .option('--auto-push', 'Automatically push after committing')
   .option('--report', "Generate a report for today's commits after committing")
+  .option(
+    '--candidates <count>',
+    'Generate several messages to pick from, edit in $EDITOR or regenerate (1-5)'
+  )
+  .option('--split', 'Split the staged changes into several commits following an AI plan')
+  .option('--no-style', "Don't match the style of the repository's recent commit messages")
+  .option('--ticket <key>', 'Ticket key for branch names and commit messages (e.g. PROJ-1234)')
   .action(
     async (
       options: CommitOptions & {
@@ -0,0 +1,95 @@
+import { Command } from 'commander';
+import { HookProcessor } from '../core/hook-processor.js';
+import { HookRunOptions } from '../types/index.js';
+
+/**
+ * Hook command class
+ * Manages the prepare-commit-msg hook that prefills AI commit messages
+ */
+export class HookCommand {
+  private readonly processor: HookProcessor;
+
+  constructor() {
+    this.processor = new HookProcessor();
+  }
+
+  /**
+   * Install the hook in the current repository
+   */
+  public async install(): Promise<void> {
+    await this.processor.install();
+  }
+
+  /**
+   * Remove the hook from the current repository
+   */
+  public async uninstall(): Promise<void> {
+    await this.processor.uninstall();
+  }
+
+  /**
+   * Enable or disable the hook for the current repository
+   */
+  public async setEnabled(enabled: boolean): Promise<void> {
+    await this.processor.setEnabled(enabled);
+  }
+
+  /**
+   * Run the hook; always exits successfully so the commit is never blocked
+   */
+  public async run(
+    messageFile: string,
+    source: string | undefined,
+    options: HookRunOptions
+  ): Promise<void> {
+    await this.processor.run(messageFile, source, options);
+    // Pending provider requests after a timeout must not keep git waiting
+    process.exit(0);
+  }
+}
+
+// Create command instance
+const hookCommandInstance = new HookCommand();
+
+export const hookCommand = new Command('hook')
+  .description('Prefill "git commit" messages with AI through a prepare-commit-msg hook')
+  .addCommand(
+    new Command('install')
+      .description('Install the prepare-commit-msg hook in this repository')
+      .action(async () => {
+        await hookCommandInstance.install();
+      })
+  )
+  .addCommand(
+    new Command('uninstall')
+      .description('Remove the hook and restore any hook it was chained to')
+      .action(async () => {
+        await hookCommandInstance.uninstall();
+      })
+  )
+  .addCommand(
+    new Command('enable')
+      .description('Turn the installed hook on for this repository')
+      .action(async () => {
+        await hookCommandInstance.setEnabled(true);
+      })
+  )
+  .addCommand(
+    new Command('disable')
+      .description('Turn the installed hook off for this repository without removing it')
+      .action(async () => {
+        await hookCommandInstance.setEnabled(false);
+      })
+  )
+  .addCommand(
+    new Command('run')
+      .description('Prefill a commit message file (called by the hook)')
+      .argument('<message-file>', 'Commit message file passed by git')
+      .argument('[source]', 'Source of the message passed by git')
+      .argument('[sha]', 'Commit passed by git when amending')
+      .option('--timeout <seconds>', 'Give up on the AI after this many seconds')
+      .action(async (messageFile: string, source: string | undefined, _sha, options) => {
+        await hookCommandInstance.run(messageFile, source, options);
+      }),
+    { hidden: true }
+  );
@@ -0,0 +1,36 @@
+import { Command } from 'commander';
+import { PullRequestProcessor } from '../core/pull-request-processor.js';
+import { PullRequestOptions } from '../types/index.js';
+
+/**
+ * Pull request command class
+ * Writes a pull request description for the current branch
+ */
+export class PullRequestCommand {
+  private readonly processor: PullRequestProcessor;
+
+  constructor() {
+    this.processor = new PullRequestProcessor();
+  }
+
+  /**
+   * Execute the pull request command
+   */
+  public async execute(options: PullRequestOptions): Promise<void> {
+    await this.processor.processPullRequest(options);
+  }
+}
+
+// Create command instance
+const pullRequestCommandInstance = new PullRequestCommand();
+
+export const prCommand = new Command('pr')
+  .description('Generate a pull request description for the current branch')
+  .option('--base <branch>', 'Branch to compare with (defaults to the default branch)')
+  .option('-o, --output <path>', 'Write the description to a file instead of stdout')
+  .option('--ticket <key>', 'Ticket key for the title (e.g. PROJ-1234)')
+  .option('-p, --provider <name>', 'Use specific AI provider by name')
+  .option('--no-cache', 'Ask the AI again instead of reusing a cached response')
+  .action(async (options: PullRequestOptions) => {
+    await pullRequestCommandInstance.execute(options);
+  });
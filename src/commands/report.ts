@@ -52,6 +52,7 @@ export class ReportCommand {
       length: options.length,
       since: options.since,
       until: options.until,
+      maxCommits: options.maxCommits,
     };
 
     await usageTracker.trackUsage({
@@ -81,10 +82,25 @@ export const reportCommand = new Command('report')
   .option('--short', 'Shortcut for --length short (quick daily update)')
   .option('--detailed', 'Shortcut for --length detailed (comprehensive analysis)')
   .option('--no-header', 'Skip the fancy header display')
+  .option('--no-stream', 'Wait for the whole report instead of showing it as it is written')
+  .option('--no-cache', 'Ask the AI again instead of reusing a cached response')
+  .option('--no-ai', 'Build the report from commit metadata only, without an AI provider')
   .option('--today', 'Shortcut for --since today (get commits from today only)')
   .option('-p, --provider <name>', 'Use specific AI provider by name')
   .option('--list-providers', 'List available AI providers and exit')
   .option('--list-models', 'List available models for configured providers and exit')
+  .option('--max-commits <count>', 'Analyze at most this many of the newest matching commits')
+  .option('--path <pathspec...>', 'Only count commits and files under these paths')
+  .option('--exclude <pathspec...>', 'Ignore files matching these pathspecs (e.g. "**/*.lock")')
+  .option('--range <range>', 'Only include commits in this revision range (e.g. v1.6.0..v1.7.0)')
+  .option('--from-tag <tag>', 'Only include commits after this tag')
+  .option('--to <ref>', 'End of the --from-tag range (defaults to HEAD)')
+  .option('--branch <name>', 'Only include commits on this branch since it left the default branch')
+  .option(
+    '--chunk-by <strategy>',
+    'How to split commit sets too large for one prompt (week|author|directory)',
+    'week'
+  )
   .action(
     async (
       options: ReportOptions & {
@@ -0,0 +1,35 @@
+import { Command } from 'commander';
+import { UsageProcessor } from '../core/usage-processor.js';
+import { UsageOptions } from '../types/index.js';
+
+/**
+ * Usage command class
+ * Shows the AI tokens and cost recorded in the usage ledger
+ */
+export class UsageCommand {
+  private readonly processor: UsageProcessor;
+
+  constructor() {
+    this.processor = new UsageProcessor();
+  }
+
+  /**
+   * Execute the usage command
+   */
+  public async execute(options: UsageOptions): Promise<void> {
+    await this.processor.processUsage(options);
+  }
+}
+
+// Create command instance
+const usageCommandInstance = new UsageCommand();
+
+export const usageCommand = new Command('usage')
+  .description('Show AI token usage and cost by command, provider and model')
+  .option(
+    '-s, --since <date>',
+    'Include usage since this date (YYYY-MM-DD, "today", or relative like "7d"; default 30d)'
+  )
+  .action(async (options: UsageOptions) => {
+    await usageCommandInstance.execute(options);
+  });
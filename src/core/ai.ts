@@ -1,86 +1,160 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
 import {
   GitCommit,
   AIResponse,
   ReportLength,
   AIProvider,
   AIProviderType,
+  AIProviderClient,
+  CacheSettings,
   StagedChanges,
   CommitMessageOptions,
   CloudAIProvider,
+  ChangelogGroup,
+  ChangelogGroupType,
+  ReportChunkStrategy,
+  ReportGenerationOptions,
+  ProviderAuthScheme,
+  CommitPlanGroup,
+  CompletionOptions,
+  JSONCompletionOptions,
+  RetrySettings,
+  PullRequestContext,
+  PullRequestDescription,
+  TokenUsage,
 } from '../types/index.js';
+import { CacheManager } from './cache.js';
 import { CloudAIService } from './cloud-ai-service.js';
+import { DisplayService } from './display-service.js';
+import { providerRegistry } from './provider-registry.js';
+import { tokenUsage } from './token-usage.js';
+import { ChunkedReportService } from './chunked-report-service.js';
+import { chunkCommits, estimateTokens, getChunkTokenBudget } from '../utils/commit-chunks.js';
+import { REPORT_JSON_SCHEMA, parsePartialReport, parseReportText } from '../utils/report-schema.js';
+import { buildReportPrompt, formatCommitSummaries } from '../utils/report-prompts.js';
+import { budgetDiff, getDiffTokenBudget } from '../utils/diff-budget.js';
+import { parseCommitPlanJson } from '../utils/commit-plan.js';
+import { parsePullRequestJson } from '../utils/pull-request.js';
+import { buildCommitRulesInstructions, describeCommitRules } from '../utils/commitlint.js';
+import { describeCommitStyle } from '../utils/commit-style.js';
+import { addTicketToBranchName, addTicketToMessage } from '../utils/ticket.js';
+import { parseCommitHeader } from '../utils/conventional-commit.js';
+import { DEFAULT_RETRY, withRetry } from '../utils/retry.js';
+
+/**
+ * How each changelog group is described to the model
+ */
+const CHANGELOG_GROUP_DESCRIPTIONS: Record<ChangelogGroupType, string> = {
+  breaking: 'breaking changes',
+  feat: 'new features',
+  fix: 'bug fixes',
+  perf: 'performance improvements',
+};
+
+/**
+ * Connection settings for OpenAI-compatible endpoints
+ */
+interface OpenAICompatibleConnection {
+  baseUrl?: string | undefined;
+  headers?: Record<string, string> | undefined;
+  authScheme?: ProviderAuthScheme | undefined;
+}
+
+/**
+ * Report schema, enforced by providers that support structured output
+ */
+const REPORT_COMPLETION_SCHEMA: JSONCompletionOptions['schema'] = {
+  name: 'submit_report',
+  description: 'Submit the accomplishment report',
+  definition: REPORT_JSON_SCHEMA,
+};
+
+/**
+ * Completion settings for each kind of request
+ */
+const COMPLETION_OPTIONS = {
+  report: { maxTokens: 4000, temperature: 0.7 },
+  commit: { maxTokens: 200, temperature: 0.7 },
+  branchName: { maxTokens: 50, temperature: 0.7 },
+  pullRequestTitle: { maxTokens: 50, temperature: 0.7 },
+  changelog: { maxTokens: 1000, temperature: 0.3 },
+  commitPlan: { maxTokens: 2000, temperature: 0.3 },
+  pullRequestDescription: { maxTokens: 2000, temperature: 0.3 },
+} satisfies Record<string, CompletionOptions>;
 
 /**
  * AI Service class for generating reports and commit messages
  * Follows single responsibility principle and proper TypeScript practices
  */
 export class AIService {
-  private geminiClient?: GoogleGenerativeAI;
-  private claudeClient?: Anthropic;
-  private openaiClient?: OpenAI;
+  private readonly client: AIProviderClient;
   private readonly provider: AIProviderType;
-  private readonly apiKey: string;
   private readonly model: string;
-  private readonly baseUrl?: string;
+  private readonly retry: RetrySettings;
+  private readonly cache: CacheManager;
 
-  private constructor(provider: AIProviderType, apiKey: string, model: string, baseUrl?: string) {
+  private constructor(
+    provider: AIProviderType,
+    model: string,
+    client: AIProviderClient,
+    retry: RetrySettings = {},
+    cache: CacheSettings = {}
+  ) {
     this.provider = provider;
-    this.apiKey = apiKey;
     this.model = model;
-    this.baseUrl = baseUrl;
-
-    this.initializeClients();
+    this.client = client;
+    this.retry = retry;
+    this.cache = new CacheManager(cache);
   }
 
   /**
    * Create AIService instance from provider configuration
+   * @param retry How failed requests are retried; the defaults apply to anything left out
+   * @param cache Whether and how long responses are cached; the defaults apply likewise
    */
-  public static fromProvider(provider: AIProvider): AIService | CloudAIService {
+  public static fromProvider(
+    provider: AIProvider,
+    retry: RetrySettings = {},
+    cache: CacheSettings = {}
+  ): AIService | CloudAIService {
     // If it's a cloud provider, return CloudAIService instance
     if (provider.provider === 'devsum-cloud') {
-      return new CloudAIService(provider as CloudAIProvider);
+      return new CloudAIService(provider as CloudAIProvider, retry, cache);
     }
 
-    const model = provider.model ?? AIService.getDefaultModel(provider.provider);
-    return new AIService(provider.provider, provider.apiKey, model, provider.baseUrl);
-  }
-
-  /**
-   * Initialize AI clients based on provider type
-   */
-  private initializeClients(): void {
-    switch (this.provider) {
-      case 'gemini':
-        this.geminiClient = new GoogleGenerativeAI(this.apiKey);
-        break;
-      case 'claude':
-        this.claudeClient = new Anthropic({ apiKey: this.apiKey });
-        break;
-      case 'openai':
-        this.openaiClient = new OpenAI({ apiKey: this.apiKey });
-        break;
-      case 'ollama':
-        // Ollama uses direct HTTP requests, no SDK client needed
-        break;
-      default:
-        throw new Error(`Unsupported AI provider: ${this.provider}`);
-    }
+    const plugin = providerRegistry.resolve(provider.provider);
+    const model = provider.model ?? plugin.defaultModel;
+    const client = plugin.create({ ...provider, model });
+    return new AIService(provider.provider, model, client, retry, cache);
   }
 
   /**
    * Generate accomplishment report from git commits
+   * @param options stream shows the final report while it is written; signal cancels it
    */
   public async generateReport(
     commits: readonly GitCommit[],
-    length: ReportLength = 'detailed'
+    length: ReportLength = 'detailed',
+    chunkBy: ReportChunkStrategy = 'week',
+    options: ReportGenerationOptions = {}
   ): Promise<AIResponse> {
-    const prompt = this.buildReportPrompt(commits, length);
+    const budget = getChunkTokenBudget(this.provider, this.model);
+    const chunks = chunkCommits(commits, chunkBy, budget, commit =>
+      formatCommitSummaries([commit])
+    );
 
     try {
-      return await this.executeGeneration(prompt);
+      if (chunks.length === 1) {
+        return await this.withRetry(() =>
+          this.executeGeneration(buildReportPrompt(commits, length), options)
+        );
+      }
+      // Only the final report is streamed; partial reports are not shown
+      const chunked = new ChunkedReportService((prompt, _length, final) =>
+        this.withRetry(() =>
+          this.executeGeneration(prompt, final ? options : { signal: options.signal })
+        )
+      );
+      return await chunked.generate(chunks, length, chunkBy, budget);
     } catch (error) {
       throw this.handleGenerationError(error);
     }
@@ -96,7 +170,17 @@ export class AIService {
     const prompt = this.buildCommitPrompt(changes, options);
 
     try {
-      return await this.executeCommitGeneration(prompt);
+      return await this.cached(
+        'commit',
+        prompt,
+        { ...COMPLETION_OPTIONS.commit, candidate: options.candidate },
+        async () => {
+          const text = await this.withRetry(() =>
+            this.completeText(prompt, COMPLETION_OPTIONS.commit)
+          );
+          return this.parseCommitResponse(text);
+        }
+      );
     } catch (error) {
       throw this.handleGenerationError(error);
     }
@@ -104,12 +188,24 @@ export class AIService {
 
   /**
    * Generate branch name from staged changes
+   * @param ticket Ticket key to put at the start of the description, e.g. feature/PROJ-1234-...
    */
-  public async generateBranchName(changes: StagedChanges): Promise<string> {
+  public async generateBranchName(changes: StagedChanges, ticket?: string): Promise<string> {
     const prompt = this.buildBranchNamePrompt(changes);
 
     try {
-      return await this.executeBranchNameGeneration(prompt);
+      const branchName = await this.cached(
+        'branchName',
+        prompt,
+        COMPLETION_OPTIONS.branchName,
+        async () => {
+          const text = await this.withRetry(() =>
+            this.completeText(prompt, COMPLETION_OPTIONS.branchName)
+          );
+          return this.parseBranchNameResponse(text);
+        }
+      );
+      return ticket ? addTicketToBranchName(branchName, ticket) : branchName;
     } catch (error) {
       throw this.handleGenerationError(error);
     }
@@ -121,12 +217,24 @@ export class AIService {
   public async generateAlternativeBranchName(
     changes: StagedChanges,
     existingBranches: string[],
-    originalName: string
+    originalName: string,
+    ticket?: string
   ): Promise<string> {
     const prompt = this.buildAlternativeBranchNamePrompt(changes, existingBranches, originalName);
 
     try {
-      return await this.executeBranchNameGeneration(prompt);
+      const branchName = await this.cached(
+        'branchName',
+        prompt,
+        COMPLETION_OPTIONS.branchName,
+        async () => {
+          const text = await this.withRetry(() =>
+            this.completeText(prompt, COMPLETION_OPTIONS.branchName)
+          );
+          return this.parseBranchNameResponse(text);
+        }
+      );
+      return ticket ? addTicketToBranchName(branchName, ticket) : branchName;
     } catch (error) {
       throw this.handleGenerationError(error);
     }
@@ -143,7 +251,17 @@ export class AIService {
     const prompt = this.buildDetailedCommitPrompt(changes, diffContent, options);
 
     try {
-      return await this.executeCommitGeneration(prompt);
+      return await this.cached(
+        'commit',
+        prompt,
+        { ...COMPLETION_OPTIONS.commit, candidate: options.candidate },
+        async () => {
+          const text = await this.withRetry(() =>
+            this.completeText(prompt, COMPLETION_OPTIONS.commit)
+          );
+          return this.parseCommitResponse(text);
+        }
+      );
     } catch (error) {
       throw this.handleGenerationError(error);
     }
@@ -151,389 +269,220 @@ export class AIService {
 
   /**
    * Generate pull request title from staged changes
+   * @param ticket Ticket key to prefix the title with
    */
-  public async generatePullRequestTitle(changes: StagedChanges): Promise<string> {
+  public async generatePullRequestTitle(changes: StagedChanges, ticket?: string): Promise<string> {
     const prompt = this.buildPullRequestTitlePrompt(changes);
 
     try {
-      return await this.executePullRequestTitleGeneration(prompt);
+      const title = await this.cached(
+        'pullRequestTitle',
+        prompt,
+        COMPLETION_OPTIONS.pullRequestTitle,
+        async () => {
+          const text = await this.withRetry(() =>
+            this.completeText(prompt, COMPLETION_OPTIONS.pullRequestTitle)
+          );
+          return this.parsePullRequestTitleResponse(text);
+        }
+      );
+      return ticket ? addTicketToMessage(title, ticket, 'prefix') : title;
     } catch (error) {
       throw this.handleGenerationError(error);
     }
   }
 
   /**
-   * Execute report generation based on provider
-   */
-  private async executeGeneration(prompt: string): Promise<AIResponse> {
-    switch (this.provider) {
-      case 'gemini':
-        return await this.generateWithGemini(prompt);
-      case 'claude':
-        return await this.generateWithClaude(prompt);
-      case 'openai':
-        return await this.generateWithOpenAI(prompt);
-      case 'ollama':
-        return await this.generateWithOllama(prompt);
-      default:
-        throw new Error(`Unsupported provider: ${this.provider}`);
-    }
-  }
-
-  /**
-   * Execute commit message generation based on provider
-   */
-  private async executeCommitGeneration(prompt: string): Promise<string> {
-    switch (this.provider) {
-      case 'gemini':
-        return await this.generateCommitWithGemini(prompt);
-      case 'claude':
-        return await this.generateCommitWithClaude(prompt);
-      case 'openai':
-        return await this.generateCommitWithOpenAI(prompt);
-      case 'ollama':
-        return await this.generateCommitWithOllama(prompt);
-      default:
-        throw new Error(`Unsupported provider: ${this.provider}`);
-    }
-  }
-
-  /**
-   * Execute branch name generation based on provider
+   * Rewrite the entries of a changelog group as user-facing release notes
+   * Returns one line per entry, in the same order as the group
    */
-  private async executeBranchNameGeneration(prompt: string): Promise<string> {
-    switch (this.provider) {
-      case 'gemini':
-        return await this.generateBranchNameWithGemini(prompt);
-      case 'claude':
-        return await this.generateBranchNameWithClaude(prompt);
-      case 'openai':
-        return await this.generateBranchNameWithOpenAI(prompt);
-      case 'ollama':
-        return await this.generateBranchNameWithOllama(prompt);
-      default:
-        throw new Error(`Unsupported provider: ${this.provider}`);
-    }
-  }
+  public async generateChangelogEntries(group: ChangelogGroup): Promise<string[]> {
+    const prompt = this.buildChangelogPrompt(group);
 
-  /**
-   * Execute pull request title generation based on provider
-   */
-  private async executePullRequestTitleGeneration(prompt: string): Promise<string> {
-    switch (this.provider) {
-      case 'gemini':
-        return await this.generatePullRequestTitleWithGemini(prompt);
-      case 'claude':
-        return await this.generatePullRequestTitleWithClaude(prompt);
-      case 'openai':
-        return await this.generatePullRequestTitleWithOpenAI(prompt);
-      case 'ollama':
-        return await this.generatePullRequestTitleWithOllama(prompt);
-      default:
-        throw new Error(`Unsupported provider: ${this.provider}`);
+    try {
+      const text = await this.withRetry(() =>
+        this.completeText(prompt, COMPLETION_OPTIONS.changelog)
+      );
+      return this.parseChangelogResponse(text, group);
+    } catch (error) {
+      throw this.handleGenerationError(error);
     }
   }
 
   /**
-   * Handle generation errors consistently
+   * Propose how to split staged changes into several commits
+   * @param changeList Staged changes described by id, as built by CommitSplitter
    */
-  private handleGenerationError(error: unknown): Error {
-    if (error instanceof Error) {
-      return new Error(`AI service error: ${error.message}`);
-    }
-    return new Error('Unknown AI service error');
-  }
-
-  private async generateWithGemini(prompt: string): Promise<AIResponse> {
-    if (!this.geminiClient) {
-      throw new Error('Gemini client not initialized');
-    }
-
-    const model = this.geminiClient.getGenerativeModel({
-      model: this.model || 'gemini-2.0-flash',
-    });
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    return this.parseResponse(text);
-  }
-
-  private async generateWithClaude(prompt: string): Promise<AIResponse> {
-    if (!this.claudeClient) {
-      throw new Error('Claude client not initialized');
-    }
-
-    const response = await this.claudeClient.messages.create({
-      model: this.model || 'claude-3-5-sonnet-20241022',
-      max_tokens: 4000,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    // Extract text from Claude's response
-    const text = response.content
-      .filter(block => block.type === 'text')
-      .map(block => (block as any).text)
-      .join('\n');
-
-    return this.parseResponse(text);
-  }
-
-  private async generateWithOpenAI(prompt: string): Promise<AIResponse> {
-    if (!this.openaiClient) {
-      throw new Error('OpenAI client not initialized');
-    }
-
-    const response = await this.openaiClient.chat.completions.create({
-      model: this.model || 'gpt-4',
-      max_tokens: 4000,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const text = response.choices[0]?.message?.content || '';
-    return this.parseResponse(text);
-  }
-
-  private async generateWithOllama(prompt: string): Promise<AIResponse> {
-    const baseUrl = this.baseUrl || 'http://localhost:11434';
-    const model = this.model || 'phi3:mini';
+  public async generateCommitPlan(
+    changeList: string,
+    options: CommitMessageOptions
+  ): Promise<CommitPlanGroup[]> {
+    const prompt = this.buildCommitPlanPrompt(changeList, options);
 
     try {
-      const response = await fetch(`${baseUrl}/api/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
-          prompt,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.statusText}`);
+      const text = await this.withRetry(() =>
+        this.completeJSON(prompt, COMPLETION_OPTIONS.commitPlan)
+      );
+      const plan = parseCommitPlanJson(text);
+      if (!plan) {
+        throw new Error('The response did not contain a valid commit plan');
       }
-
-      const data = await response.json();
-      const text = data.response || '';
-
-      return this.parseResponse(text);
+      return plan;
     } catch (error) {
-      if (error instanceof Error && error.message.includes('fetch')) {
-        throw new Error(
-          `Failed to connect to Ollama at ${baseUrl}. Make sure Ollama is running.`
-        );
-      }
-      throw error;
+      throw this.handleGenerationError(error);
     }
   }
 
   /**
-   * Build report generation prompt
+   * Generate a pull request title and description from the commits and diff of a branch
    */
-  private buildReportPrompt(
-    commits: readonly GitCommit[],
-    length: ReportLength = 'detailed'
-  ): string {
-    const commitSummaries = this.formatCommitSummaries(commits);
-    const lengthInstructions = this.getLengthInstructions(length);
-
-    return `Please analyze the following git commits and generate an accomplishment report.
+  public async generatePullRequestDescription(
+    context: PullRequestContext
+  ): Promise<PullRequestDescription> {
+    const prompt = this.buildPullRequestDescriptionPrompt(context);
 
-Git Commits:
-${commitSummaries}
-
-${lengthInstructions}
-
-Please provide a response in the following format:
-
-**Summary:**
-[A brief overview of the work done]
-
-**Key Accomplishments:**
-- [Accomplishment 1]
-- [Accomplishment 2]
-- [Accomplishment 3]
-
-**Technical Highlights:**
-- [Technical detail 1]
-- [Technical detail 2]
-
-Focus on the impact and value of the changes rather than just listing commits. Group related changes together and highlight the most significant contributions.`;
-  }
-
-  /**
-   * Format commit summaries for prompt
-   */
-  private formatCommitSummaries(commits: readonly GitCommit[]): string {
-    return commits
-      .map(commit => {
-        const date = commit.date.split('T')[0];
-        const files = commit.files.slice(0, 3).join(', ');
-        const moreFiles = commit.files.length > 3 ? '...' : '';
-        return `- ${date} | ${commit.message} | Files: ${files}${moreFiles}`;
-      })
-      .join('\n');
-  }
-
-  /**
-   * Get length-specific instructions for report generation
-   */
-  private getLengthInstructions(length: ReportLength): string {
-    const instructions = {
-      light: `Generate a LIGHT report with:
-- Very brief summary (1-2 sentences)
-- Top 3-5 key accomplishments only
-- Minimal technical details
-- Focus on high-level impact and business value
-- Keep it concise and executive-friendly`,
-
-      short: `Generate a SHORT report with:
-- Concise summary (2-3 sentences)
-- 5-8 key accomplishments
-- Some technical highlights
-- Balanced detail level for quick review
-- Good for daily/weekly updates`,
-
-      detailed: `Generate a DETAILED report with:
-- Comprehensive summary (3-5 sentences)
-- 8-15 key accomplishments
-- Extensive technical highlights and improvements
-- Detailed analysis of patterns and trends
-- Recommendations for future work
-- Perfect for comprehensive reviews and documentation`,
-    };
-
-    return instructions[length];
-  }
-
-  /**
-   * Parse AI response into structured format
-   */
-  private parseResponse(response: string): AIResponse {
-    const lines = response.split('\n');
-    const accomplishments: string[] = [];
-    let inAccomplishments = false;
-    let summary = '';
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      if (this.isSummarySection(trimmedLine)) {
-        inAccomplishments = false;
-        continue;
-      }
-
-      if (this.isAccomplishmentsSection(trimmedLine)) {
-        inAccomplishments = true;
-        continue;
-      }
+    try {
+      const description = await this.cached(
+        'pullRequestDescription',
+        prompt,
+        COMPLETION_OPTIONS.pullRequestDescription,
+        async () => {
+          const text = await this.withRetry(() =>
+            this.completeJSON(prompt, COMPLETION_OPTIONS.pullRequestDescription)
+          );
+          const parsed = parsePullRequestJson(text);
+          if (!parsed) {
+            throw new Error('The response did not contain a valid pull request description');
+          }
+          return parsed;
+        }
+      );
 
-      if (inAccomplishments && this.isAccomplishmentItem(trimmedLine)) {
-        accomplishments.push(this.extractAccomplishmentText(trimmedLine));
-      } else if (!inAccomplishments && this.isSummaryText(trimmedLine)) {
-        summary += trimmedLine + ' ';
-      }
+      // Start the title with the first ticket key the pull request refers to
+      const [ticket] = context.tickets;
+      return ticket
+        ? { ...description, title: addTicketToMessage(description.title, ticket, 'prefix') }
+        : description;
+    } catch (error) {
+      throw this.handleGenerationError(error);
     }
-
-    return {
-      summary: this.getDefaultSummary(summary),
-      accomplishments: this.getDefaultAccomplishments(accomplishments),
-    };
   }
 
   /**
-   * Check if line indicates summary section
+   * Request a report, as structured output where the provider supports it
+   * A streamed report is shown as it arrives; a cached one is returned at once
    */
-  private isSummarySection(line: string): boolean {
-    return line.toLowerCase().includes('summary:');
+  private executeGeneration(prompt: string, options: ReportGenerationOptions): Promise<AIResponse> {
+    return this.cached(
+      'report',
+      prompt,
+      { ...COMPLETION_OPTIONS.report, schema: REPORT_COMPLETION_SCHEMA?.name },
+      async () => {
+        try {
+          const text = await this.completeJSON(prompt, {
+            ...COMPLETION_OPTIONS.report,
+            schema: REPORT_COMPLETION_SCHEMA,
+            signal: options.signal,
+            onText: options.stream
+              ? text => DisplayService.displayReportPreview(parsePartialReport(text))
+              : undefined,
+          });
+          return parseReportText(text);
+        } finally {
+          DisplayService.endReportPreview();
+        }
+      }
+    );
   }
 
   /**
-   * Check if line indicates accomplishments section
+   * Complete a prompt with free text, counting the tokens it used
    */
-  private isAccomplishmentsSection(line: string): boolean {
-    return (
-      line.toLowerCase().includes('accomplishments:') || line.toLowerCase().includes('highlights:')
+  private completeText(prompt: string, options: CompletionOptions): Promise<string> {
+    return this.countTokens(prompt, onUsage =>
+      this.client.completeText(prompt, { ...options, onUsage })
     );
   }
 
   /**
-   * Check if line is an accomplishment item
+   * Complete a prompt with a JSON object, counting the tokens it used
    */
-  private isAccomplishmentItem(line: string): boolean {
-    return line.startsWith('-');
+  private completeJSON(prompt: string, options: JSONCompletionOptions): Promise<string> {
+    return this.countTokens(prompt, onUsage =>
+      this.client.completeJSON(prompt, { ...options, onUsage })
+    );
   }
 
   /**
-   * Extract accomplishment text from line
+   * Send a request and record its tokens, estimating them when the provider does not
+   * report usage
    */
-  private extractAccomplishmentText(line: string): string {
-    return line.substring(1).trim();
+  private async countTokens(
+    prompt: string,
+    request: (onUsage: (usage: TokenUsage) => void) => Promise<string>
+  ): Promise<string> {
+    let reported: TokenUsage | undefined;
+    const text = await request(usage => {
+      reported = usage;
+    });
+    tokenUsage.record(
+      this.provider,
+      this.model,
+      reported ?? { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) },
+      !reported
+    );
+    return text;
   }
 
   /**
-   * Check if line contains summary text
+   * Return the cached response to a request, or generate and cache it
+   * @param options Settings that change the answer; with the prompt they make up the cache key
    */
-  private isSummaryText(line: string): boolean {
-    return Boolean(line) && !line.startsWith('**');
+  private cached<T>(
+    operation: string,
+    prompt: string,
+    options: Record<string, unknown>,
+    generate: () => Promise<T>
+  ): Promise<T> {
+    return this.cache.getOrCreate(
+      { provider: this.provider, model: this.model, operation, prompt, options },
+      generate
+    );
   }
 
   /**
-   * Get default summary if none provided
+   * Repeat a provider request while it fails with a rate limit, server error or timeout
    */
-  private getDefaultSummary(summary: string): string {
-    return summary.trim() || 'Work completed during the specified period.';
+  private withRetry<T>(request: () => Promise<T>): Promise<T> {
+    return withRetry(request, this.retry, (error, attempt, delayMs) =>
+      DisplayService.displayRetry(
+        this.provider,
+        error,
+        attempt,
+        this.retry.retries ?? DEFAULT_RETRY.retries,
+        delayMs
+      )
+    );
   }
 
   /**
-   * Get default accomplishments if none provided
+   * Handle generation errors consistently
    */
-  private getDefaultAccomplishments(accomplishments: string[]): readonly string[] {
-    return accomplishments.length > 0 ? accomplishments : ['Various development tasks completed'];
+  private handleGenerationError(error: unknown): Error {
+    if (error instanceof Error) {
+      return new Error(`AI service error: ${error.message}`, { cause: error });
+    }
+    return new Error('Unknown AI service error');
   }
 
   /**
    * Get available models for a provider
    */
   public static getAvailableModels(provider: AIProviderType): readonly string[] {
-    const models = {
-      gemini: ['gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro'] as const,
-      claude: [
-        'claude-3-5-sonnet-20241022',
-        'claude-3-5-haiku-20241022',
-        'claude-3-opus-20240229',
-      ] as const,
-      openai: ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'] as const,
-      ollama: [
-        'phi3:mini',
-        'llama3.2:1b',
-        'llama3.2:3b',
-        'gemma2:2b',
-        'tinyllama',
-        'llama3.2',
-        'llama3',
-        'mistral',
-        'codellama',
-      ] as const,
-      'devsum-cloud': ['gemini-2.0-flash', 'claude-3-5-sonnet-20241022', 'gpt-4'] as const,
-    };
-
-    return models[provider] ?? [];
+    if (provider === 'devsum-cloud') {
+      return ['gemini-2.0-flash', 'claude-3-5-sonnet-20241022', 'gpt-4'];
+    }
+    return providerRegistry.get(provider)?.models ?? [];
   }
 
   /**
@@ -542,21 +491,18 @@ Focus on the impact and value of the changes rather than just listing commits. G
   public static async fetchAvailableModels(
     provider: AIProviderType,
     apiKey: string,
-    baseUrl?: string
+    baseUrl?: string,
+    connection: OpenAICompatibleConnection = {}
   ): Promise<readonly string[]> {
+    const plugin = providerRegistry.get(provider);
+    if (!plugin) {
+      return [];
+    }
+
     try {
-      switch (provider) {
-        case 'gemini':
-          return await AIService.fetchGeminiModels(apiKey);
-        case 'claude':
-          return await AIService.fetchClaudeModels(apiKey);
-        case 'openai':
-          return await AIService.fetchOpenAIModels(apiKey);
-        case 'ollama':
-          return await AIService.fetchOllamaModels(baseUrl || 'http://localhost:11434');
-        default:
-          return [];
-      }
+      const client = plugin.create({ name: provider, provider, apiKey, ...connection, baseUrl });
+      const models = await client.listModels();
+      return models.length > 0 ? models : AIService.getAvailableModels(provider);
     } catch (error) {
       console.warn(
         `Failed to fetch models for ${provider}:`,
@@ -568,147 +514,32 @@ Focus on the impact and value of the changes rather than just listing commits. G
   }
 
   /**
-   * Fetch available Gemini models
-   */
-  private static async fetchGeminiModels(apiKey: string): Promise<readonly string[]> {
-    const client = new GoogleGenerativeAI(apiKey);
-
-    try {
-      const knownModels = [
-        'gemini-2.0-flash',
-        'gemini-1.5-flash',
-        'gemini-1.5-pro',
-        'gemini-1.5-flash-8b',
-        'gemini-1.0-pro',
-      ] as const;
-
-      const availableModels = await AIService.testModelsAvailability(client, knownModels);
-      return availableModels.length > 0 ? availableModels : AIService.getAvailableModels('gemini');
-    } catch (error) {
-      return AIService.getAvailableModels('gemini');
-    }
-  }
-
-  /**
-   * Test model availability for Gemini
-   */
-  private static async testModelsAvailability(
-    client: GoogleGenerativeAI,
-    models: readonly string[]
-  ): Promise<readonly string[]> {
-    const availableModels: string[] = [];
-
-    for (const modelName of models) {
-      try {
-        const model = client.getGenerativeModel({ model: modelName });
-        await model.generateContent('test');
-        availableModels.push(modelName);
-      } catch {
-        // Model not available, skip it
-        continue;
-      }
-    }
-
-    return [...availableModels];
-  }
-
-  /**
-   * Fetch available Claude models
-   */
-  private static async fetchClaudeModels(apiKey: string): Promise<readonly string[]> {
-    const client = new Anthropic({ apiKey });
-
-    try {
-      const knownModels = [
-        'claude-3-5-sonnet-20241022',
-        'claude-3-5-haiku-20241022',
-        'claude-3-opus-20240229',
-        'claude-3-sonnet-20240229',
-        'claude-3-haiku-20240307',
-      ] as const;
-
-      const availableModels = await AIService.testClaudeModelsAvailability(client, knownModels);
-      return availableModels.length > 0 ? availableModels : AIService.getAvailableModels('claude');
-    } catch (error) {
-      return AIService.getAvailableModels('claude');
-    }
-  }
-
-  /**
-   * Test Claude model availability
-   */
-  private static async testClaudeModelsAvailability(
-    client: Anthropic,
-    models: readonly string[]
-  ): Promise<readonly string[]> {
-    const availableModels: string[] = [];
-
-    for (const modelName of models) {
-      try {
-        await client.messages.create({
-          model: modelName,
-          max_tokens: 10,
-          messages: [{ role: 'user', content: 'test' }],
-        });
-        availableModels.push(modelName);
-      } catch {
-        // Model not available, skip it
-        continue;
-      }
-    }
-
-    return [...availableModels];
-  }
-
-  /**
-   * Fetch available OpenAI models
+   * Fetch available Ollama models
    */
-  private static async fetchOpenAIModels(apiKey: string): Promise<readonly string[]> {
-    const client = new OpenAI({ apiKey });
-
+  public static async fetchOllamaModels(baseUrl: string): Promise<readonly string[]> {
     try {
-      const response = await client.models.list();
-      const models = response.data
-        .filter(
-          model =>
-            model.id.includes('gpt-4') ||
-            model.id.includes('gpt-3.5') ||
-            model.id.includes('gpt-4o')
-        )
-        .map(model => model.id)
-        .sort();
-
-      return models.length > 0 ? [...models] : AIService.getAvailableModels('openai');
+      const client = providerRegistry.create({
+        name: 'ollama',
+        provider: 'ollama',
+        apiKey: '',
+        baseUrl,
+      });
+      const models = await client.listModels();
+      return models.length > 0 ? models : AIService.getAvailableModels('ollama');
     } catch (error) {
-      return AIService.getAvailableModels('openai');
+      return AIService.getAvailableModels('ollama');
     }
   }
 
   /**
-   * Fetch available Ollama models
+   * Check that a provider's backend accepts its credentials
+   * @returns An error message, or null when they work
    */
-  public static async fetchOllamaModels(baseUrl: string): Promise<readonly string[]> {
+  public static async validateCredentials(provider: AIProvider): Promise<string | null> {
     try {
-      const response = await fetch(`${baseUrl}/api/tags`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const models = (data.models || [])
-        .map((model: any) => model.name || model.model)
-        .filter((name: string) => name)
-        .sort();
-
-      return models.length > 0 ? [...models] : AIService.getAvailableModels('ollama');
+      return await providerRegistry.create(provider).validateCredentials();
     } catch (error) {
-      return AIService.getAvailableModels('ollama');
+      return error instanceof Error ? error.message : 'Unknown error';
     }
   }
 
@@ -716,117 +547,14 @@ Focus on the impact and value of the changes rather than just listing commits. G
    * Get default model for a provider
    */
   public static getDefaultModel(provider: AIProviderType): string {
-    const defaultModels = {
-      gemini: 'gemini-2.0-flash',
-      claude: 'claude-3-5-sonnet-20241022',
-      openai: 'gpt-4',
-      ollama: 'phi3:mini',
-      'devsum-cloud': 'gemini-2.0-flash',
-    } as const;
-
-    return defaultModels[provider];
-  }
-
-  private async generateCommitWithGemini(prompt: string): Promise<string> {
-    if (!this.geminiClient) {
-      throw new Error('Gemini client not initialized');
-    }
-
-    const model = this.geminiClient.getGenerativeModel({
-      model: this.model || 'gemini-2.0-flash',
-    });
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    return this.parseCommitResponse(text);
-  }
-
-  private async generateCommitWithClaude(prompt: string): Promise<string> {
-    if (!this.claudeClient) {
-      throw new Error('Claude client not initialized');
-    }
-
-    const response = await this.claudeClient.messages.create({
-      model: this.model || 'claude-3-5-sonnet-20241022',
-      max_tokens: 200,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    // Extract text from Claude's response
-    const text = response.content
-      .filter(block => block.type === 'text')
-      .map(block => (block as any).text)
-      .join('\n');
-
-    return this.parseCommitResponse(text);
-  }
-
-  private async generateCommitWithOpenAI(prompt: string): Promise<string> {
-    if (!this.openaiClient) {
-      throw new Error('OpenAI client not initialized');
-    }
-
-    const response = await this.openaiClient.chat.completions.create({
-      model: this.model || 'gpt-4',
-      max_tokens: 200,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const text = response.choices[0]?.message?.content || '';
-    return this.parseCommitResponse(text);
-  }
-
-  private async generateCommitWithOllama(prompt: string): Promise<string> {
-    const baseUrl = this.baseUrl || 'http://localhost:11434';
-    const model = this.model || 'phi3:mini';
-
-    try {
-      const response = await fetch(`${baseUrl}/api/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
-          prompt,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const text = data.response || '';
-
-      return this.parseCommitResponse(text);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('fetch')) {
-        throw new Error(
-          `Failed to connect to Ollama at ${baseUrl}. Make sure Ollama is running.`
-        );
-      }
-      throw error;
+    if (provider === 'devsum-cloud') {
+      return 'gemini-2.0-flash';
     }
+    return providerRegistry.get(provider)?.defaultModel ?? 'default';
   }
 
   private buildCommitPrompt(changes: StagedChanges, options: CommitMessageOptions): string {
-    const { conventional, emoji, length } = options;
+    const { conventional, emoji, length, style } = options;
 
     // Build detailed file summary with change analysis
     const fileSummary = changes.stagedFiles
@@ -896,13 +624,16 @@ Use appropriate emojis:
         break;
     }
 
+    // Examples and traits of the repository's own commit messages
+    const styleInstructions = style ? `\n\n${describeCommitStyle(style)}` : '';
+
     return `Generate a comprehensive commit message for the following changes:
 
 ${changeSummary}
 
 Requirements:
 ${lengthInstructions}
-${formatInstructions}
+${formatInstructions}${styleInstructions}
 
 IMPORTANT: Analyze ALL the changes thoroughly and create detailed bullet points that capture:
 - Every significant change made to the codebase
@@ -940,7 +671,7 @@ Generate only the commit message as a bulleted list, no additional text:`;
     diffContent: string,
     options: CommitMessageOptions
   ): string {
-    const { conventional, emoji, length } = options;
+    const { conventional, emoji, length, guidance, rules, feedback, style } = options;
 
     // Build detailed file summary with change analysis
     const fileSummary = changes.stagedFiles
@@ -1010,22 +741,30 @@ Use appropriate emojis:
         break;
     }
 
-    // Truncate diff content if it's too long (keep first 2000 characters)
-    const truncatedDiff =
-      diffContent.length > 2000
-        ? diffContent.substring(0, 2000) + '\n... (diff truncated for brevity)'
-        : diffContent;
+    // Extra direction given when regenerating a message
+    const guidanceInstructions = guidance
+      ? `\n\nAdditional guidance from the author: ${guidance}`
+      : '';
+
+    // Examples and traits of the repository's own commit messages
+    const styleInstructions = style ? `\n\n${describeCommitStyle(style)}` : '';
+
+    // Commit rules the message is checked against, with what the last attempt broke
+    const rulesInstructions = rules ? `\n\n${buildCommitRulesInstructions(rules, feedback)}` : '';
+
+    // Keep the most important hunks that fit the model's context; noise files are listed by name
+    const budgetedDiff = budgetDiff(diffContent, getDiffTokenBudget(this.provider, this.model));
 
     return `Generate a comprehensive commit message for the following changes:
 
 ${changeSummary}
 
 Detailed Code Changes:
-${truncatedDiff}
+${budgetedDiff}
 
 Requirements:
 ${lengthInstructions}
-${formatInstructions}
+${formatInstructions}${styleInstructions}${guidanceInstructions}${rulesInstructions}
 
 IMPORTANT: Analyze the actual code changes in the diff above and create detailed bullet points that capture:
 - Every significant change made to the codebase based on the actual diff
@@ -1076,8 +815,15 @@ Generate only the commit message as a bulleted list, no additional text:`;
     // If we have bulleted lines, use them; otherwise fall back to all lines
     const messageLines = bulletLines.length > 0 ? bulletLines : cleanedLines;
 
+    // Keep a "type(scope): subject" header written above the bullets, as commit rules ask for
+    const header = cleanedLines[0];
+    const hasHeader = bulletLines.length > 0 && header !== undefined && parseCommitHeader(header);
+
     // Join lines with newlines to preserve bulleted format
     let message = messageLines.join('\n').trim();
+    if (hasHeader) {
+      message = `${header}\n\n${message}`;
+    }
 
     // Remove quotes if the entire message is wrapped in them
     if (message.startsWith('"') && message.endsWith('"')) {
@@ -1095,104 +841,6 @@ Generate only the commit message as a bulleted list, no additional text:`;
     return message;
   }
 
-  private async generateBranchNameWithGemini(prompt: string): Promise<string> {
-    if (!this.geminiClient) {
-      throw new Error('Gemini client not initialized');
-    }
-
-    const model = this.geminiClient.getGenerativeModel({
-      model: this.model || 'gemini-2.0-flash',
-    });
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    return this.parseBranchNameResponse(text);
-  }
-
-  private async generateBranchNameWithClaude(prompt: string): Promise<string> {
-    if (!this.claudeClient) {
-      throw new Error('Claude client not initialized');
-    }
-
-    const response = await this.claudeClient.messages.create({
-      model: this.model || 'claude-3-5-sonnet-20241022',
-      max_tokens: 50,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    // Extract text from Claude's response
-    const text = response.content
-      .filter(block => block.type === 'text')
-      .map(block => (block as any).text)
-      .join('\n');
-
-    return this.parseBranchNameResponse(text);
-  }
-
-  private async generateBranchNameWithOpenAI(prompt: string): Promise<string> {
-    if (!this.openaiClient) {
-      throw new Error('OpenAI client not initialized');
-    }
-
-    const response = await this.openaiClient.chat.completions.create({
-      model: this.model || 'gpt-4',
-      max_tokens: 50,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const text = response.choices[0]?.message?.content || '';
-    return this.parseBranchNameResponse(text);
-  }
-
-  private async generateBranchNameWithOllama(prompt: string): Promise<string> {
-    const baseUrl = this.baseUrl || 'http://localhost:11434';
-    const model = this.model || 'phi3:mini';
-
-    try {
-      const response = await fetch(`${baseUrl}/api/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
-          prompt,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const text = data.response || '';
-
-      return this.parseBranchNameResponse(text);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('fetch')) {
-        throw new Error(
-          `Failed to connect to Ollama at ${baseUrl}. Make sure Ollama is running.`
-        );
-      }
-      throw error;
-    }
-  }
-
   private buildBranchNamePrompt(changes: StagedChanges): string {
     // Build file summary
     const fileSummary = changes.stagedFiles
@@ -1368,104 +1016,6 @@ Generate only the pull request title, no additional text:`;
     return branchName;
   }
 
-  private async generatePullRequestTitleWithGemini(prompt: string): Promise<string> {
-    if (!this.geminiClient) {
-      throw new Error('Gemini client not initialized');
-    }
-
-    const model = this.geminiClient.getGenerativeModel({
-      model: this.model || 'gemini-2.0-flash',
-    });
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    return this.parsePullRequestTitleResponse(text);
-  }
-
-  private async generatePullRequestTitleWithClaude(prompt: string): Promise<string> {
-    if (!this.claudeClient) {
-      throw new Error('Claude client not initialized');
-    }
-
-    const response = await this.claudeClient.messages.create({
-      model: this.model || 'claude-3-5-sonnet-20241022',
-      max_tokens: 50,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    // Extract text from Claude's response
-    const text = response.content
-      .filter(block => block.type === 'text')
-      .map(block => (block as any).text)
-      .join('\n');
-
-    return this.parsePullRequestTitleResponse(text);
-  }
-
-  private async generatePullRequestTitleWithOpenAI(prompt: string): Promise<string> {
-    if (!this.openaiClient) {
-      throw new Error('OpenAI client not initialized');
-    }
-
-    const response = await this.openaiClient.chat.completions.create({
-      model: this.model || 'gpt-4',
-      max_tokens: 50,
-      temperature: 0.7,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const text = response.choices[0]?.message?.content || '';
-    return this.parsePullRequestTitleResponse(text);
-  }
-
-  private async generatePullRequestTitleWithOllama(prompt: string): Promise<string> {
-    const baseUrl = this.baseUrl || 'http://localhost:11434';
-    const model = this.model || 'phi3:mini';
-
-    try {
-      const response = await fetch(`${baseUrl}/api/generate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
-          prompt,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const text = data.response || '';
-
-      return this.parsePullRequestTitleResponse(text);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('fetch')) {
-        throw new Error(
-          `Failed to connect to Ollama at ${baseUrl}. Make sure Ollama is running.`
-        );
-      }
-      throw error;
-    }
-  }
-
   private parsePullRequestTitleResponse(response: string): string {
     // Clean up the response and extract the pull request title
     let title = response.trim();
@@ -1496,4 +1046,100 @@ Generate only the pull request title, no additional text:`;
 
     return title;
   }
+
+  private buildChangelogPrompt(group: ChangelogGroup): string {
+    const entries = group.entries
+      .map(
+        (entry, index) =>
+          `${index + 1}. ${entry.scope ? `(${entry.scope}) ` : ''}${entry.description}`
+      )
+      .join('\n');
+
+    return `Rewrite the following ${CHANGELOG_GROUP_DESCRIPTIONS[group.type]} from commit messages into user-facing release notes:
+
+${entries}
+
+Requirements:
+- Return EXACTLY ${group.entries.length} lines, one per entry, in the same order
+- Do not number the lines or add bullets
+- Do not include the scope in parentheses; it is added separately
+- Write one concise sentence per entry for people using the software, not its developers
+- Start with a capital letter and do not end with a period
+- Keep technical names (commands, options, file names) unchanged
+
+Generate only the ${group.entries.length} lines, no additional text:`;
+  }
+
+  private parseChangelogResponse(response: string, group: ChangelogGroup): string[] {
+    const lines = response
+      .split('\n')
+      .map(line =>
+        line
+          .trim()
+          .replace(/^(?:[-*•]|\d+[.)])\s*/, '')
+          .replace(/\.$/, '')
+      )
+      .filter(line => line);
+
+    // Keep the original wording when the model did not answer line for line
+    if (lines.length !== group.entries.length) {
+      return group.entries.map(entry => entry.description);
+    }
+
+    return lines;
+  }
+
+  private buildCommitPlanPrompt(changeList: string, options: CommitMessageOptions): string {
+    const { conventional, emoji, rules } = options;
+    const formatRule = conventional
+      ? `- Use conventional commit format for the subject: type(scope): description${emoji ? ', prefixed with a matching emoji' : ''}`
+      : `- Start the subject with a verb in present tense${emoji ? ' and prefix it with a matching emoji' : ''}`;
+    const ruleLines = rules ? describeCommitRules(rules).map(line => `\n- ${line}`) : [];
+
+    return `The following staged changes contain several unrelated pieces of work. Group them into a sequence of small, logical commits.
+
+Each change has an id: a file path, or "path#n" for the n-th hunk of a file.
+
+${changeList}
+
+Requirements:
+- Every id must appear in exactly one commit
+- Keep changes that depend on each other in the same commit, and order commits so each builds on the previous ones
+- Prefer fewer commits over splitting closely related changes
+- Give each commit a message with a subject line of at most 72 characters, optionally followed by a blank line and 1-3 bullet points
+${formatRule}${ruleLines.join('')}
+
+Respond with JSON only, in this shape:
+{"commits": [{"message": "feat(auth): add login validation", "changes": ["src/auth.ts", "src/api.ts#2"]}]}`;
+  }
+
+  private buildPullRequestDescriptionPrompt(context: PullRequestContext): string {
+    const commits = [...context.commits]
+      .reverse()
+      .map(commit => {
+        const body = commit.body?.trim().replace(/\n/g, '\n    ');
+        return `- ${commit.message}${body ? `\n    ${body}` : ''}`;
+      })
+      .join('\n');
+    const budgetedDiff = budgetDiff(context.diff, getDiffTokenBudget(this.provider, this.model));
+
+    return `Write a pull request description for the branch "${context.branch}", compared against "${context.base}".
+
+Commits, oldest first:
+${commits}
+
+Diff:
+${budgetedDiff}
+
+Requirements:
+- title: one sentence under 72 characters, in present tense, starting with a verb
+- summary: 2-4 sentences on what the pull request does and why, for a reviewer who has not seen the code
+- changes: one item per notable change, most important first
+- testing: how the changes are verified; name tests added or updated in the diff, otherwise the manual steps a reviewer can follow
+- risks: what a reviewer should look at closely, such as migrations, public API, config or behaviour changes; an empty list when there is nothing
+- Plain sentences only: no markdown headings, no bullet markers, no ticket keys
+
+Respond with JSON only, in this shape:
+{"title": "Add CSV export to reports", "summary": "...", "changes": ["..."], "testing": ["..."], "risks": ["..."]}`;
+  }
 }
@@ -10,6 +10,42 @@ import {
   AnalyticsFocus,
   FileChangeType,
 } from '../types/index.js';
+import { getCommitAuthors } from '../utils/commit-authors.js';
+
+/**
+ * Running totals of the commits seen so far, updated one commit at a time
+ */
+interface AnalyticsTally {
+  totalCommits: number;
+  commitsByDay: Record<string, number>;
+  commitsByHour: Record<string, number>;
+  commitsByAuthor: Record<string, number>;
+  commitsByBranch: Record<string, number>;
+  mostActiveDay: string;
+  mostActiveHour: number;
+  maxDayCommits: number;
+  maxHourCommits: number;
+  fileChanges: Record<string, number>;
+  fileStatuses: Record<string, FileChangeType>;
+  filesByType: Record<string, number>;
+  filesByDate: Record<string, number>;
+  totalFilesChanged: number;
+  largestCommit: { hash: string; filesChanged: number; date: string };
+  workPatterns: { morning: number; afternoon: number; evening: number; night: number };
+  weeklyPattern: Record<string, number>;
+  currentStreak: number;
+  longestStreak: number;
+  lastCommitDate: string | null;
+  timestamps: number[];
+  weeks: Map<string, { commits: number; files: number; timestamps: number[] }>;
+  authorsByDate: Map<string, Set<string>>;
+  coAuthoredByDate: Map<string, Set<string>>;
+  hasCoAuthors: boolean;
+  refactoringCommits: number;
+  bugFixCommits: number;
+  featureCommits: number;
+  technicalDebtIndicators: Array<{ file: string; issues: string[] }>;
+}
 
 /**
  * Service responsible for aggregating and analyzing git data for analytics
@@ -24,19 +60,38 @@ export class AnalyticsDataService {
 
   /**
    * Generate comprehensive analytics data from git commits
+   * Commits are folded into running totals as they stream in, so the history is never
+   * held in memory as a whole
+   * @param commits Batches of commits, newest first, e.g. from GitService.streamCommits
+   * @param maxCommits Stop after this many commits; the data is marked truncated when the
+   * batches hold more
    */
   public async generateAnalyticsData(
-    commits: GitCommit[],
+    commits: AsyncIterable<readonly GitCommit[]>,
     focus: AnalyticsFocus,
     since: string | undefined,
     until: string | undefined,
-    provider: string
+    provider: string,
+    maxCommits?: number
   ): Promise<AnalyticsData> {
-    const commitAnalytics = this.analyzeCommits(commits);
-    const fileAnalytics = this.analyzeFileChanges(commits);
-    const productivityAnalytics = this.analyzeProductivity(commits);
-    const collaborationAnalytics = this.analyzeCollaboration(commits);
-    const qualityAnalytics = this.analyzeCodeQuality(commits);
+    const tally = this.createTally();
+    let truncated = false;
+
+    pages: for await (const page of commits) {
+      for (const commit of page) {
+        if (maxCommits !== undefined && tally.totalCommits >= maxCommits) {
+          truncated = true;
+          break pages;
+        }
+        this.addCommit(tally, commit);
+      }
+    }
+
+    const commitAnalytics = this.analyzeCommits(tally);
+    const fileAnalytics = this.analyzeFileChanges(tally);
+    const productivityAnalytics = this.analyzeProductivity(tally);
+    const collaborationAnalytics = this.analyzeCollaboration(tally);
+    const qualityAnalytics = this.analyzeCodeQuality(tally);
 
     const repositoryName = await this.getRepositoryName();
 
@@ -57,7 +112,7 @@ export class AnalyticsDataService {
       repository: {
         name: repositoryName,
         branch: await this.getCurrentBranch(),
-        totalCommits: commits.length,
+        totalCommits: tally.totalCommits,
       },
       commits: commitAnalytics,
       files: fileAnalytics,
@@ -69,59 +124,172 @@ export class AnalyticsDataService {
         focus,
         format: 'dashboard',
         provider,
+        truncated,
+        maxCommits,
       },
     };
   }
 
+  private createTally(): AnalyticsTally {
+    return {
+      totalCommits: 0,
+      commitsByDay: {},
+      commitsByHour: {},
+      commitsByAuthor: {},
+      commitsByBranch: {},
+      mostActiveDay: '',
+      mostActiveHour: 0,
+      maxDayCommits: 0,
+      maxHourCommits: 0,
+      fileChanges: {},
+      fileStatuses: {},
+      filesByType: {},
+      filesByDate: {},
+      totalFilesChanged: 0,
+      largestCommit: { hash: '', filesChanged: 0, date: '' },
+      workPatterns: { morning: 0, afternoon: 0, evening: 0, night: 0 },
+      weeklyPattern: {},
+      currentStreak: 0,
+      longestStreak: 0,
+      lastCommitDate: null,
+      timestamps: [],
+      weeks: new Map(),
+      authorsByDate: new Map(),
+      coAuthoredByDate: new Map(),
+      hasCoAuthors: false,
+      refactoringCommits: 0,
+      bugFixCommits: 0,
+      featureCommits: 0,
+      technicalDebtIndicators: [],
+    };
+  }
+
   /**
-   * Analyze commit patterns and statistics
+   * Fold one commit into the running totals
    */
-  private analyzeCommits(commits: GitCommit[]): CommitAnalytics {
-    const commitsByDay: Record<string, number> = {};
-    const commitsByHour: Record<string, number> = {};
-    const commitsByAuthor: Record<string, number> = {};
-    const commitsByBranch: Record<string, number> = {};
-
-    let totalCommits = 0;
-    let mostActiveDay = '';
-    let mostActiveHour = 0;
-    let maxDayCommits = 0;
-    let maxHourCommits = 0;
-
-    for (const commit of commits) {
-      totalCommits++;
-
-      // Analyze by day
-      const day = new Date(commit.date).toISOString().split('T')[0];
-      if (day) {
-        commitsByDay[day] = (commitsByDay[day] || 0) + 1;
-        if (commitsByDay[day] > maxDayCommits) {
-          maxDayCommits = commitsByDay[day];
-          mostActiveDay = day;
-        }
+  private addCommit(tally: AnalyticsTally, commit: GitCommit): void {
+    const date = new Date(commit.date);
+    const day = date.toISOString().split('T')[0];
+    const hour = date.getHours();
+    const authors = getCommitAuthors(commit);
+    tally.totalCommits++;
+
+    // Commit patterns by day, hour, author (crediting co-authors) and branch
+    if (day) {
+      tally.commitsByDay[day] = (tally.commitsByDay[day] || 0) + 1;
+      if (tally.commitsByDay[day] > tally.maxDayCommits) {
+        tally.maxDayCommits = tally.commitsByDay[day];
+        tally.mostActiveDay = day;
       }
+    }
+
+    const hourKey = `${hour}:00`;
+    tally.commitsByHour[hourKey] = (tally.commitsByHour[hourKey] || 0) + 1;
+    if (tally.commitsByHour[hourKey] > tally.maxHourCommits) {
+      tally.maxHourCommits = tally.commitsByHour[hourKey];
+      tally.mostActiveHour = hour;
+    }
+
+    for (const author of authors) {
+      tally.commitsByAuthor[author] = (tally.commitsByAuthor[author] || 0) + 1;
+    }
+
+    const branch = this.extractBranchFromCommit(commit);
+    if (branch) {
+      tally.commitsByBranch[branch] = (tally.commitsByBranch[branch] || 0) + 1;
+    }
+
+    // File changes; file lists arrive already limited to the --path / --exclude pathspecs
+    const filesInCommit = commit.files.length;
+    tally.totalFilesChanged += filesInCommit;
+    if (filesInCommit > tally.largestCommit.filesChanged) {
+      tally.largestCommit = { hash: commit.hash, filesChanged: filesInCommit, date: commit.date };
+    }
+    for (const file of commit.files) {
+      tally.fileChanges[file] = (tally.fileChanges[file] || 0) + 1;
+      const fileType = this.getFileType(file);
+      tally.filesByType[fileType] = (tally.filesByType[fileType] || 0) + 1;
+    }
+    // Commits arrive newest first, so the first status seen is the latest one
+    for (const stat of commit.fileStats ?? []) {
+      tally.fileStatuses[stat.path] ??= stat.status;
+    }
+    if (day) {
+      tally.filesByDate[day] = (tally.filesByDate[day] || 0) + filesInCommit;
+    }
+
+    // Productivity: time of day, day of week, coding streaks and weekly trend
+    if (hour >= 6 && hour < 12) tally.workPatterns.morning++;
+    else if (hour >= 12 && hour < 17) tally.workPatterns.afternoon++;
+    else if (hour >= 17 && hour < 22) tally.workPatterns.evening++;
+    else tally.workPatterns.night++;
+
+    const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'long' });
+    tally.weeklyPattern[dayOfWeek] = (tally.weeklyPattern[dayOfWeek] || 0) + 1;
 
-      // Analyze by hour
-      const hour = new Date(commit.date).getHours();
-      const hourKey = `${hour}:00`;
-      if (hourKey) {
-        commitsByHour[hourKey] = (commitsByHour[hourKey] || 0) + 1;
-        if (commitsByHour[hourKey] > maxHourCommits) {
-          maxHourCommits = commitsByHour[hourKey];
-          mostActiveHour = hour;
+    if (day) {
+      if (tally.lastCommitDate) {
+        const daysDiff = this.calculateDaysDifference(tally.lastCommitDate, day);
+        if (daysDiff <= 1) {
+          tally.currentStreak++;
+        } else {
+          tally.longestStreak = Math.max(tally.longestStreak, tally.currentStreak);
+          tally.currentStreak = 1;
         }
+      } else {
+        tally.currentStreak = 1;
       }
+      tally.lastCommitDate = day;
+    }
 
-      // Analyze by author
-      commitsByAuthor[commit.author] = (commitsByAuthor[commit.author] || 0) + 1;
+    tally.timestamps.push(date.getTime());
+    const weekKey = this.getWeekKey(date);
+    if (weekKey) {
+      const week = tally.weeks.get(weekKey) ?? { commits: 0, files: 0, timestamps: [] };
+      week.commits++;
+      week.files += filesInCommit;
+      week.timestamps.push(date.getTime());
+      tally.weeks.set(weekKey, week);
+    }
+
+    // Collaboration: who committed on each day, and who paired through co-author trailers
+    if (day) {
+      const dayAuthors = tally.authorsByDate.get(day) ?? new Set<string>();
+      dayAuthors.add(commit.author);
+      tally.authorsByDate.set(day, dayAuthors);
+
+      if ((commit.coAuthors ?? []).length > 0) {
+        tally.hasCoAuthors = true;
+        const pairs = tally.coAuthoredByDate.get(day) ?? new Set<string>();
+        authors.forEach(author => pairs.add(author));
+        tally.coAuthoredByDate.set(day, pairs);
+      }
+    }
 
-      // Analyze by branch (if available in commit message or metadata)
-      const branch = this.extractBranchFromCommit(commit);
-      if (branch) {
-        commitsByBranch[branch] = (commitsByBranch[branch] || 0) + 1;
+    // Code quality indicators from the message and the files touched
+    const message = commit.message.toLowerCase();
+    if (message.includes('refactor') || message.includes('cleanup')) {
+      tally.refactoringCommits++;
+    }
+    if (message.includes('fix') || message.includes('bug') || message.includes('error')) {
+      tally.bugFixCommits++;
+    }
+    if (message.includes('feat') || message.includes('feature') || message.includes('add')) {
+      tally.featureCommits++;
+    }
+    for (const file of commit.files) {
+      const issues = this.identifyTechnicalDebtIssues(file, commit);
+      if (issues.length > 0) {
+        tally.technicalDebtIndicators.push({ file, issues });
       }
     }
+  }
 
+  /**
+   * Analyze commit patterns and statistics
+   */
+  private analyzeCommits(tally: AnalyticsTally): CommitAnalytics {
+    const { totalCommits, commitsByDay, commitsByHour } = tally;
     const averageCommitsPerDay = totalCommits / Math.max(Object.keys(commitsByDay).length, 1);
     const peakProductivityTime = this.calculatePeakProductivityTime(commitsByHour);
 
@@ -129,11 +297,11 @@ export class AnalyticsDataService {
       totalCommits,
       commitsByDay,
       commitsByHour,
-      commitsByAuthor,
-      commitsByBranch,
+      commitsByAuthor: tally.commitsByAuthor,
+      commitsByBranch: tally.commitsByBranch,
       averageCommitsPerDay,
-      mostActiveDay,
-      mostActiveHour,
+      mostActiveDay: tally.mostActiveDay,
+      mostActiveHour: tally.mostActiveHour,
       peakProductivityTime,
     };
   }
@@ -141,50 +309,27 @@ export class AnalyticsDataService {
   /**
    * Analyze file change patterns
    */
-  private analyzeFileChanges(commits: GitCommit[]): FileChangeAnalytics {
-    const fileChanges: Record<string, number> = {};
-    const filesByType: Record<string, number> = {};
-    let totalFilesChanged = 0;
-    let largestCommit = { hash: '', filesChanged: 0, date: '' };
-
-    for (const commit of commits) {
-      const filesInCommit = commit.files.length;
-      totalFilesChanged += filesInCommit;
-
-      if (filesInCommit > largestCommit.filesChanged) {
-        largestCommit = {
-          hash: commit.hash,
-          filesChanged: filesInCommit,
-          date: commit.date,
-        };
-      }
-
-      for (const file of commit.files) {
-        fileChanges[file] = (fileChanges[file] || 0) + 1;
-
-        const fileType = this.getFileType(file);
-        filesByType[fileType] = (filesByType[fileType] || 0) + 1;
-      }
-    }
-
-    const mostModifiedFiles = Object.entries(fileChanges)
+  private analyzeFileChanges(tally: AnalyticsTally): FileChangeAnalytics {
+    const mostModifiedFiles = Object.entries(tally.fileChanges)
       .map(([file, changes]) => ({
         file,
         changes,
-        type: this.determineFileChangeType(file, changes),
+        type: tally.fileStatuses[file] ?? this.determineFileChangeType(file, changes),
       }))
       .sort((a, b) => b.changes - a.changes)
       .slice(0, 10);
 
-    const averageFilesPerCommit = totalFilesChanged / Math.max(commits.length, 1);
-    const codeComplexityTrend = this.calculateComplexityTrend(commits);
+    const averageFilesPerCommit = tally.totalFilesChanged / Math.max(tally.totalCommits, 1);
+    const codeComplexityTrend = Object.entries(tally.filesByDate)
+      .map(([date, complexity]) => ({ date, complexity }))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     return {
-      totalFilesChanged,
+      totalFilesChanged: tally.totalFilesChanged,
       mostModifiedFiles,
-      filesByType,
+      filesByType: tally.filesByType,
       averageFilesPerCommit,
-      largestCommit,
+      largestCommit: tally.largestCommit,
       codeComplexityTrend,
     };
   }
@@ -192,72 +337,32 @@ export class AnalyticsDataService {
   /**
    * Analyze productivity patterns
    */
-  private analyzeProductivity(commits: GitCommit[]): ProductivityAnalytics {
-    const workPatterns = { morning: 0, afternoon: 0, evening: 0, night: 0 };
-    const weeklyPattern: Record<string, number> = {};
-    const productivityTrend: Array<{ week: string; score: number }> = [];
-
-    let codingStreak = 0;
-    let longestStreak = 0;
-    let currentStreak = 0;
-    let lastCommitDate: string | null = null;
-
-    for (const commit of commits) {
-      const date = new Date(commit.date);
-      const hour = date.getHours();
-      const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'long' });
-
-      // Analyze work patterns by time of day
-      if (hour >= 6 && hour < 12) workPatterns.morning++;
-      else if (hour >= 12 && hour < 17) workPatterns.afternoon++;
-      else if (hour >= 17 && hour < 22) workPatterns.evening++;
-      else workPatterns.night++;
-
-      // Analyze weekly patterns
-      weeklyPattern[dayOfWeek] = (weeklyPattern[dayOfWeek] || 0) + 1;
-
-      // Calculate coding streak
-      const commitDate = date.toISOString().split('T')[0];
-      if (commitDate) {
-        if (lastCommitDate) {
-          const daysDiff = this.calculateDaysDifference(lastCommitDate, commitDate);
-          if (daysDiff <= 1) {
-            currentStreak++;
-          } else {
-            longestStreak = Math.max(longestStreak, currentStreak);
-            currentStreak = 1;
-          }
-        } else {
-          currentStreak = 1;
-        }
-        lastCommitDate = commitDate;
-      }
-    }
-
-    longestStreak = Math.max(longestStreak, currentStreak);
-    codingStreak = currentStreak;
+  private analyzeProductivity(tally: AnalyticsTally): ProductivityAnalytics {
+    const longestStreak = Math.max(tally.longestStreak, tally.currentStreak);
+    const codingStreak = tally.currentStreak;
 
     // Calculate productivity score (0-100)
-    const productivityScore = this.calculateProductivityScore(commits, workPatterns);
+    const productivityScore = this.calculateProductivityScore(
+      tally.totalCommits,
+      tally.totalFilesChanged,
+      tally.timestamps
+    );
 
     // Calculate weekly productivity trend
-    const weeks = this.groupCommitsByWeek(commits);
-    for (const [week, weekCommits] of Object.entries(weeks)) {
-      if (weekCommits) {
-        const weekScore = this.calculateProductivityScore(weekCommits, workPatterns);
-        productivityTrend.push({ week, score: weekScore });
-      }
-    }
+    const productivityTrend = [...tally.weeks].map(([week, { commits, files, timestamps }]) => ({
+      week,
+      score: this.calculateProductivityScore(commits, files, timestamps),
+    }));
 
-    const averageCommitsPerWeek = commits.length / Math.max(Object.keys(weeks).length, 1);
+    const averageCommitsPerWeek = tally.totalCommits / Math.max(tally.weeks.size, 1);
 
     return {
       codingStreak,
       longestStreak,
       averageCommitsPerWeek,
       productivityScore,
-      workPatterns,
-      weeklyPattern,
+      workPatterns: tally.workPatterns,
+      weeklyPattern: tally.weeklyPattern,
       productivityTrend,
     };
   }
@@ -265,45 +370,31 @@ export class AnalyticsDataService {
   /**
    * Analyze collaboration patterns
    */
-  private analyzeCollaboration(commits: GitCommit[]): CollaborationAnalytics {
+  private analyzeCollaboration(tally: AnalyticsTally): CollaborationAnalytics {
     const authorActivity: Array<{ author: string; commits: number; percentage: number }> = [];
     const pairProgrammingIndicators: Array<{ date: string; authors: string[] }> = [];
     const branchCollaboration: Record<string, string[]> = {};
 
-    // Group commits by date to find collaboration
-    const commitsByDate: Record<string, GitCommit[]> = {};
-    for (const commit of commits) {
-      const date = new Date(commit.date).toISOString().split('T')[0];
-      if (date) {
-        if (!commitsByDate[date]) {
-          commitsByDate[date] = [];
-        }
-        commitsByDate[date].push(commit);
-      }
-    }
-
-    // Find pair programming indicators (multiple authors on same day)
-    for (const [date, dayCommits] of Object.entries(commitsByDate)) {
-      if (dayCommits) {
-        const uniqueAuthors = [...new Set(dayCommits.map(c => c.author))];
-        if (uniqueAuthors.length > 1) {
-          pairProgrammingIndicators.push({ date, authors: uniqueAuthors });
-        }
+    // Co-authored-by trailers record real pairing; without any, fall back to
+    // multiple authors committing on the same day
+    for (const [date, dayAuthors] of tally.authorsByDate) {
+      const uniqueAuthors = [
+        ...(tally.hasCoAuthors ? (tally.coAuthoredByDate.get(date) ?? []) : dayAuthors),
+      ];
+      if (uniqueAuthors.length > 1) {
+        pairProgrammingIndicators.push({ date, authors: uniqueAuthors });
       }
     }
 
-    // Calculate author activity
-    const authorCommits: Record<string, number> = {};
-    for (const commit of commits) {
-      authorCommits[commit.author] = (authorCommits[commit.author] || 0) + 1;
-    }
-
-    const totalCommits = commits.length;
-    for (const [author, count] of Object.entries(authorCommits)) {
+    // Calculate author activity; co-authored commits credit every author, so shares are
+    // taken of all credited contributions to keep them summing to 100%
+    const authorCommits = Object.entries(tally.commitsByAuthor);
+    const totalContributions = authorCommits.reduce((total, [, count]) => total + count, 0);
+    for (const [author, count] of authorCommits) {
       authorActivity.push({
         author,
         commits: count,
-        percentage: (count / totalCommits) * 100,
+        percentage: (count / totalContributions) * 100,
       });
     }
 
@@ -329,41 +420,13 @@ export class AnalyticsDataService {
   /**
    * Analyze code quality indicators
    */
-  private analyzeCodeQuality(commits: GitCommit[]): CodeQualityAnalytics {
-    let totalCommitSize = 0;
-    let refactoringCommits = 0;
-    let bugFixCommits = 0;
-    let featureCommits = 0;
-    const technicalDebtIndicators: Array<{ file: string; issues: string[] }> = [];
-
-    for (const commit of commits) {
-      totalCommitSize += commit.files.length;
-
-      // Analyze commit message for patterns
-      const message = commit.message.toLowerCase();
-      if (message.includes('refactor') || message.includes('cleanup')) {
-        refactoringCommits++;
-      }
-      if (message.includes('fix') || message.includes('bug') || message.includes('error')) {
-        bugFixCommits++;
-      }
-      if (message.includes('feat') || message.includes('feature') || message.includes('add')) {
-        featureCommits++;
-      }
-
-      // Analyze files for technical debt indicators
-      for (const file of commit.files) {
-        const issues = this.identifyTechnicalDebtIssues(file, commit);
-        if (issues.length > 0) {
-          technicalDebtIndicators.push({ file, issues });
-        }
-      }
-    }
-
-    const averageCommitSize = totalCommitSize / Math.max(commits.length, 1);
-    const refactoringFrequency = (refactoringCommits / Math.max(commits.length, 1)) * 100;
-    const bugFixPercentage = (bugFixCommits / Math.max(commits.length, 1)) * 100;
-    const featureCommitPercentage = (featureCommits / Math.max(commits.length, 1)) * 100;
+  private analyzeCodeQuality(tally: AnalyticsTally): CodeQualityAnalytics {
+    const commitCount = Math.max(tally.totalCommits, 1);
+    const { technicalDebtIndicators } = tally;
+    const averageCommitSize = tally.totalFilesChanged / commitCount;
+    const refactoringFrequency = (tally.refactoringCommits / commitCount) * 100;
+    const bugFixPercentage = (tally.bugFixCommits / commitCount) * 100;
+    const featureCommitPercentage = (tally.featureCommits / commitCount) * 100;
 
     const qualityScore = this.calculateQualityScore(
       refactoringFrequency,
@@ -416,9 +479,10 @@ export class AnalyticsDataService {
   }
 
   private extractBranchFromCommit(commit: GitCommit): string | null {
-    // Try to extract branch from commit message or use a default
+    // Only merge commits name the branch they bring in
     const message = commit.message.toLowerCase();
-    if (message.includes('merge') && message.includes('branch')) {
+    const isMerge = commit.isMerge ?? message.startsWith('merge');
+    if (isMerge && message.includes('branch')) {
       const match = message.match(/branch\s+['"]?([^'"\s]+)['"]?/);
       return match ? match[1] || null : null;
     }
@@ -490,44 +554,22 @@ export class AnalyticsDataService {
     return 'unknown';
   }
 
-  private calculateComplexityTrend(
-    commits: GitCommit[]
-  ): Array<{ date: string; complexity: number }> {
-    const trend: Array<{ date: string; complexity: number }> = [];
-    const commitsByDate: Record<string, GitCommit[]> = {};
-
-    for (const commit of commits) {
-      const date = new Date(commit.date).toISOString().split('T')[0];
-      if (date) {
-        if (!commitsByDate[date]) {
-          commitsByDate[date] = [];
-        }
-        commitsByDate[date].push(commit);
-      }
-    }
-
-    for (const [date, dayCommits] of Object.entries(commitsByDate)) {
-      const complexity = dayCommits.reduce((sum, commit) => sum + commit.files.length, 0);
-      trend.push({ date, complexity });
-    }
-
-    return trend.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }
-
-  private calculateProductivityScore(commits: GitCommit[], workPatterns: any): number {
-    const commitCount = commits.length;
-    const fileChanges = commits.reduce((sum, commit) => sum + commit.files.length, 0);
-    const consistency = this.calculateConsistencyScore(commits);
+  private calculateProductivityScore(
+    commitCount: number,
+    fileChanges: number,
+    timestamps: readonly number[]
+  ): number {
+    const consistency = this.calculateConsistencyScore(timestamps);
 
     // Weighted score calculation
     const score = commitCount * 0.3 + fileChanges * 0.2 + consistency * 0.5;
     return Math.min(Math.round(score), 100);
   }
 
-  private calculateConsistencyScore(commits: GitCommit[]): number {
-    if (commits.length < 2) return 50;
+  private calculateConsistencyScore(timestamps: readonly number[]): number {
+    if (timestamps.length < 2) return 50;
 
-    const dates = commits.map(c => new Date(c.date).getTime()).sort();
+    const dates = [...timestamps].sort((a, b) => a - b);
     const intervals: number[] = [];
 
     for (let i = 1; i < dates.length; i++) {
@@ -547,24 +589,13 @@ export class AnalyticsDataService {
     return Math.min(consistency, 100);
   }
 
-  private groupCommitsByWeek(commits: GitCommit[]): Record<string, GitCommit[]> {
-    const weeks: Record<string, GitCommit[]> = {};
-
-    for (const commit of commits) {
-      const date = new Date(commit.date);
-      const weekStart = new Date(date);
-      weekStart.setDate(date.getDate() - date.getDay());
-      const weekKey = weekStart.toISOString().split('T')[0];
-
-      if (weekKey) {
-        if (!weeks[weekKey]) {
-          weeks[weekKey] = [];
-        }
-        weeks[weekKey].push(commit);
-      }
-    }
-
-    return weeks;
+  /**
+   * Start of the week (Sunday) a commit date falls in, as YYYY-MM-DD
+   */
+  private getWeekKey(date: Date): string | undefined {
+    const weekStart = new Date(date);
+    weekStart.setDate(date.getDate() - date.getDay());
+    return weekStart.toISOString().split('T')[0];
   }
 
   private calculateCollaborationScore(
@@ -8,7 +8,7 @@ import { AnalyticsDataService } from './analytics-data-service.js';
 import { DashboardGenerator } from './dashboard-generator.js';
 import { DisplayService } from './display-service.js';
 import { CommitValidator } from './commit-validator.js';
-import { AnalyticsOptions, AnalyticsData, AIProvider } from '../types/index.js';
+import { AnalyticsOptions, AnalyticsData, AIProvider, PathFilters } from '../types/index.js';
 
 /**
  * Service responsible for processing analytics generation
@@ -73,6 +73,19 @@ export class AnalyticsProcessor {
         process.exit(1);
       }
 
+      const maxCommitsError = this.validator.validateMaxCommits(options.maxCommits);
+      if (maxCommitsError) {
+        console.log();
+        console.error(chalk.red('❌ Invalid commit limit'));
+        console.log(chalk.yellow(maxCommitsError));
+        process.exit(1);
+      }
+      const maxCommits = options.maxCommits ? Number(options.maxCommits) : undefined;
+      const paths =
+        options.path || options.exclude
+          ? { include: options.path, exclude: options.exclude }
+          : undefined;
+
       // Load configuration and select provider
       DisplayService.displayProgress('Loading configuration...');
       const config = await configManager.loadConfig();
@@ -103,33 +116,46 @@ export class AnalyticsProcessor {
         process.exit(1);
       }
 
-      // Get git commits
+      // Stream git commits straight into the aggregation; one commit past the limit is
+      // requested so a truncated history can be reported
       DisplayService.displayProgress('Analyzing git commits...');
-      const commits = await this.gitService.getCommits(
+      const pages = this.gitService.streamCommits(
         options.since, // No default - will get entire repo history if undefined
         options.until,
-        options.author
+        options.author,
+        { maxCommits: maxCommits === undefined ? undefined : maxCommits + 1, paths }
       );
 
-      if (commits.length === 0) {
-        this.displayNoCommitsError(options);
-        process.exit(1);
-      }
-
-      DisplayService.displayProgress(`Found ${commits.length} commits to analyze`, true);
-
-      // Generate analytics data
-      DisplayService.displayProgress('Generating analytics data...');
       const sinceDate = this.parseDateString(options.since);
       const untilDate = this.parseDateString(options.until);
       const focusArea = options.focus || 'all';
-      const analyticsData = await this.dataService.generateAnalyticsData(
-        [...commits], // Convert readonly array to mutable array
+      const generatedData = await this.dataService.generateAnalyticsData(
+        pages,
         focusArea as any,
         sinceDate,
         untilDate,
-        selectedProvider.name || 'unknown'
+        selectedProvider.name || 'unknown',
+        maxCommits
       );
+      const analyticsData: AnalyticsData = {
+        ...generatedData,
+        metadata: { ...generatedData.metadata, paths },
+      };
+      const { totalCommits } = analyticsData.repository;
+
+      if (totalCommits === 0) {
+        this.displayNoCommitsError(options);
+        process.exit(1);
+      }
+
+      DisplayService.displayProgress(`Found ${totalCommits} commits to analyze`, true);
+      if (analyticsData.metadata?.truncated) {
+        console.log(
+          chalk.yellow(
+            `⚠️  Commit limit reached: only the newest ${maxCommits} matching commits were analyzed`
+          )
+        );
+      }
 
       // Generate output based on format
       const outputPath =
@@ -274,7 +300,7 @@ export class AnalyticsProcessor {
 
 **Period:** ${analyticsData.period.since} to ${analyticsData.period.until} (${analyticsData.period.days === 0 ? 'All time' : `${analyticsData.period.days} days`})
 **Repository:** ${analyticsData.repository.name} (${analyticsData.repository.branch})
-**Generated:** ${new Date(analyticsData.generatedAt).toLocaleString()}
+**Generated:** ${new Date(analyticsData.generatedAt).toLocaleString()}${this.formatPathFilters(analyticsData.metadata.paths)}${analyticsData.metadata.truncated ? `\n\n> ⚠️ **Commit limit reached:** only the newest ${analyticsData.metadata.maxCommits} matching commits were analyzed` : ''}
 
 ## 📈 Key Metrics
 
@@ -365,9 +391,24 @@ ${quality.improvementSuggestions.map(suggestion => `- ${suggestion}`).join('\n')
         chalk.yellow(`Or check if author "${options.author}" has commits in this period`)
       );
     }
+    if (options.path || options.exclude) {
+      console.log(chalk.yellow('Or loosen the --path / --exclude filters'));
+    }
     console.log();
   }
 
+  /**
+   * Format applied path filters for the text summary
+   */
+  private formatPathFilters(paths?: PathFilters): string {
+    const lines = [
+      paths?.include?.length ? `**Paths:** ${paths.include.join(', ')}` : '',
+      paths?.exclude?.length ? `**Excluded:** ${paths.exclude.join(', ')}` : '',
+    ].filter(line => line);
+
+    return lines.length > 0 ? `\n${lines.join('\n')}` : '';
+  }
+
   /**
    * Display success message
    */
@@ -382,6 +423,13 @@ ${quality.improvementSuggestions.map(suggestion => `- ${suggestion}`).join('\n')
       )
     );
     console.log(chalk.white(`  • Commits: ${analyticsData.commits.totalCommits}`));
+    if (analyticsData.metadata.truncated) {
+      console.log(
+        chalk.yellow(
+          `  • Commit limit reached (--max-commits ${analyticsData.metadata.maxCommits})`
+        )
+      );
+    }
     console.log(chalk.white(`  • Authors: ${analyticsData.collaboration.totalAuthors}`));
     console.log(
       chalk.white(`  • Productivity Score: ${analyticsData.productivity.productivityScore}/100`)
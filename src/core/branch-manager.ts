@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import { GitService } from './git.js';
+import { addTicketToBranchName } from '../utils/ticket.js';
 
 /**
  * Service responsible for branch operations and management
@@ -121,10 +122,17 @@ export class BranchManager {
     switchBranch?: string;
     autoBranch?: boolean;
     generatedBranchName?: string;
+    ticket?: string;
   }): Promise<{ finalBranchName?: string; switched: boolean }> {
-    const branchName = options.branch || options.newBranch;
+    const requestedName = options.branch || options.newBranch;
     const switchBranch = options.switchBranch;
 
+    // New branches carry the ticket key; existing branches are switched to as named
+    const branchName =
+      requestedName && options.ticket
+        ? addTicketToBranchName(requestedName, options.ticket)
+        : requestedName;
+
     if (branchName) {
       // Create and switch to new branch
       await this.createAndSwitchBranch(branchName);
@@ -135,7 +143,9 @@ export class BranchManager {
       return { finalBranchName: switchBranch, switched: true };
     } else if (options.autoBranch && options.generatedBranchName) {
       // Auto-generate branch name and create/switch
-      const generatedBranchName = options.generatedBranchName;
+      const generatedBranchName = options.ticket
+        ? addTicketToBranchName(options.generatedBranchName, options.ticket)
+        : options.generatedBranchName;
       await this.createOrSwitchBranch(generatedBranchName);
       return { finalBranchName: generatedBranchName, switched: true };
     }
@@ -0,0 +1,210 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { createHash } from 'crypto';
+import { CacheKey, CacheSettings, CacheStats } from '../types/index.js';
+import { DisplayService } from './display-service.js';
+
+const CACHE_DIR = path.join(os.homedir(), '.config', 'devsum', 'cache');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cache settings used for anything the config leaves out
+ */
+export const DEFAULT_CACHE: Required<CacheSettings> = {
+  enabled: true,
+  ttlDays: 7,
+  maxSizeMb: 50,
+};
+
+/**
+ * A cached response as stored on disk
+ */
+interface CacheEntry {
+  provider: string;
+  model: string;
+  operation: string;
+  value: unknown;
+}
+
+/**
+ * A cache file with the details needed to expire and evict it
+ */
+interface CacheFile {
+  file: string;
+  size: number;
+  modifiedAt: number;
+}
+
+/**
+ * Content-addressed cache of AI responses under ~/.config/devsum/cache
+ * Each response is stored in a file named after the hash of its key; failures to read or
+ * write the cache never fail the request itself
+ */
+export class CacheManager {
+  private readonly settings: Required<CacheSettings>;
+  private readonly directory: string;
+  private hitShown = false;
+
+  constructor(settings: CacheSettings = {}, directory: string = CACHE_DIR) {
+    this.settings = {
+      enabled: settings.enabled ?? DEFAULT_CACHE.enabled,
+      ttlDays: settings.ttlDays ?? DEFAULT_CACHE.ttlDays,
+      maxSizeMb: settings.maxSizeMb ?? DEFAULT_CACHE.maxSizeMb,
+    };
+    this.directory = directory;
+  }
+
+  /**
+   * Hash a key; the prompt is hashed on its own so keys stay small whatever the prompt size
+   */
+  public static hashKey(key: CacheKey): string {
+    const { prompt, ...rest } = key;
+    const promptHash = createHash('sha256').update(prompt).digest('hex');
+    return createHash('sha256')
+      .update(JSON.stringify({ ...rest, promptHash }))
+      .digest('hex');
+  }
+
+  /**
+   * Return the cached response for a key, or generate and cache it
+   * A response is only cached once generate succeeds, so failed or unparseable answers are
+   * requested again next time
+   */
+  public async getOrCreate<T>(key: CacheKey, generate: () => Promise<T>): Promise<T> {
+    if (!this.settings.enabled) {
+      return generate();
+    }
+
+    const hash = CacheManager.hashKey(key);
+    const cached = await this.read(hash);
+    if (cached !== undefined) {
+      if (!this.hitShown) {
+        DisplayService.displayCacheHit();
+        this.hitShown = true;
+      }
+      return cached as T;
+    }
+
+    const value = await generate();
+    await this.write(hash, {
+      provider: key.provider,
+      model: key.model,
+      operation: key.operation,
+      value,
+    });
+    return value;
+  }
+
+  /**
+   * Remove every cached response
+   * @returns How many responses were removed
+   */
+  public async clear(): Promise<number> {
+    const files = await this.listFiles();
+    await Promise.all(files.map(({ file }) => fs.rm(file, { force: true })));
+    return files.length;
+  }
+
+  /**
+   * Count the cached responses and their size
+   */
+  public async getStats(): Promise<CacheStats> {
+    const files = await this.listFiles();
+    const dates = files.map(({ modifiedAt }) => modifiedAt);
+
+    return {
+      directory: this.directory,
+      entries: files.length,
+      expiredEntries: files.filter(file => this.isExpired(file)).length,
+      sizeBytes: files.reduce((total, { size }) => total + size, 0),
+      oldest: dates.length > 0 ? new Date(Math.min(...dates)) : undefined,
+      newest: dates.length > 0 ? new Date(Math.max(...dates)) : undefined,
+      settings: this.settings,
+    };
+  }
+
+  private async read(hash: string): Promise<unknown> {
+    const file = this.getFilePath(hash);
+    try {
+      const stats = await fs.stat(file);
+      if (this.isExpired({ file, size: stats.size, modifiedAt: stats.mtimeMs })) {
+        await fs.rm(file, { force: true });
+        return undefined;
+      }
+      const entry = JSON.parse(await fs.readFile(file, 'utf-8')) as CacheEntry;
+      return entry.value ?? undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async write(hash: string, entry: CacheEntry): Promise<void> {
+    const file = this.getFilePath(hash);
+    // Write next to the entry and rename, so a concurrent read never sees half a file
+    const temporary = `${file}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(temporary, JSON.stringify(entry));
+      await fs.rename(temporary, file);
+      await this.prune();
+    } catch {
+      await fs.rm(temporary, { force: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Remove expired responses, then the oldest ones until the cache fits its size limit
+   */
+  private async prune(): Promise<void> {
+    const files = await this.listFiles();
+    const live: CacheFile[] = [];
+    for (const file of files) {
+      if (this.isExpired(file)) {
+        await fs.rm(file.file, { force: true });
+      } else {
+        live.push(file);
+      }
+    }
+
+    const maxBytes = this.settings.maxSizeMb * 1024 * 1024;
+    let total = live.reduce((sum, { size }) => sum + size, 0);
+    for (const file of live.sort((a, b) => a.modifiedAt - b.modifiedAt)) {
+      if (total <= maxBytes) {
+        break;
+      }
+      await fs.rm(file.file, { force: true });
+      total -= file.size;
+    }
+  }
+
+  private async listFiles(): Promise<CacheFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const files: CacheFile[] = [];
+    for (const name of names.filter(name => name.endsWith('.json'))) {
+      const file = path.join(this.directory, name);
+      try {
+        const stats = await fs.stat(file);
+        files.push({ file, size: stats.size, modifiedAt: stats.mtimeMs });
+      } catch {
+        // Removed by another process in the meantime
+      }
+    }
+    return files;
+  }
+
+  private isExpired(file: CacheFile): boolean {
+    return Date.now() - file.modifiedAt > this.settings.ttlDays * DAY_MS;
+  }
+
+  private getFilePath(hash: string): string {
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
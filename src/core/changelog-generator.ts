@@ -0,0 +1,254 @@
+import {
+  ChangelogEntry,
+  ChangelogGroup,
+  ChangelogGroupType,
+  ChangelogRelease,
+  ChangelogStyle,
+  GitCommit,
+} from '../types/index.js';
+import { parseConventionalCommit } from '../utils/conventional-commit.js';
+
+/**
+ * Conventional commit types that make it into the changelog, in render order
+ */
+const GROUP_ORDER: readonly ChangelogGroupType[] = ['breaking', 'feat', 'fix', 'perf'];
+
+/**
+ * Section titles used by standard-version
+ */
+const STANDARD_VERSION_TITLES: Record<ChangelogGroupType, string> = {
+  breaking: '⚠ BREAKING CHANGES',
+  feat: 'Features',
+  fix: 'Bug Fixes',
+  perf: 'Performance Improvements',
+};
+
+/**
+ * Keep a Changelog categories; breaking changes are listed first under "Changed"
+ */
+const KEEP_A_CHANGELOG_TITLES: Record<ChangelogGroupType, string> = {
+  breaking: 'Changed',
+  feat: 'Added',
+  fix: 'Fixed',
+  perf: 'Changed',
+};
+
+const STANDARD_VERSION_PREAMBLE = `# Changelog
+
+All notable changes to this project will be documented in this file. See [standard-version](https://github.com/conventional-changelog/standard-version) for commit guidelines.
+`;
+
+const KEEP_A_CHANGELOG_PREAMBLE = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+`;
+
+/**
+ * Matches version section headings such as "## [1.2.0](...) (date)", "### 1.2.1" or "## [Unreleased]"
+ */
+const VERSION_HEADING = /^#{2,3}\s+\[?(Unreleased|v?\d+\.\d+\.\d+[^\]\s(]*)\]?/i;
+
+/**
+ * Groups commits into changelog sections and writes them into CHANGELOG.md content
+ */
+export class ChangelogGenerator {
+  /**
+   * Group conventional commits by changelog type
+   * Breaking commits appear both in the breaking group and under their own type
+   */
+  groupCommits(commits: readonly GitCommit[]): {
+    groups: ChangelogGroup[];
+    skipped: number;
+  } {
+    const entries: Record<ChangelogGroupType, ChangelogEntry[]> = {
+      breaking: [],
+      feat: [],
+      fix: [],
+      perf: [],
+    };
+    let skipped = 0;
+
+    // Oldest first so entries read in the order the work landed
+    for (const commit of [...commits].reverse()) {
+      const conventional = parseConventionalCommit(commit);
+      if (!conventional || commit.isMerge) {
+        skipped++;
+        continue;
+      }
+
+      const entry = {
+        scope: conventional.scope,
+        description: conventional.description,
+        hash: commit.hash,
+      };
+
+      if (conventional.breaking) {
+        entries.breaking.push({
+          ...entry,
+          description: conventional.breakingNote || conventional.description,
+        });
+      }
+
+      if (this.isGroupType(conventional.type)) {
+        entries[conventional.type].push(entry);
+      } else if (!conventional.breaking) {
+        skipped++;
+      }
+    }
+
+    const groups = GROUP_ORDER.filter(type => entries[type].length > 0).map(type => ({
+      type,
+      entries: [...entries[type]].sort((a, b) => (a.scope ?? '').localeCompare(b.scope ?? '')),
+    }));
+
+    return { groups, skipped };
+  }
+
+  /**
+   * Detect the layout of an existing changelog
+   */
+  detectStyle(existing: string | null): ChangelogStyle {
+    if (existing && /keep a changelog|^##\s+\[Unreleased\]/im.test(existing)) {
+      return 'keep-a-changelog';
+    }
+    return 'standard-version';
+  }
+
+  /**
+   * Render a release as a markdown version section
+   */
+  renderSection(release: ChangelogRelease, style: ChangelogStyle): string {
+    return style === 'keep-a-changelog'
+      ? this.renderKeepAChangelogSection(release)
+      : this.renderStandardVersionSection(release);
+  }
+
+  /**
+   * Insert a rendered section above the older entries of a changelog
+   * Older sections are kept byte for byte; a Keep a Changelog "Unreleased" section stays on top
+   */
+  insertSection(
+    existing: string | null,
+    section: string,
+    version: string,
+    style: ChangelogStyle
+  ): string {
+    if (!existing?.trim()) {
+      const preamble =
+        style === 'keep-a-changelog' ? KEEP_A_CHANGELOG_PREAMBLE : STANDARD_VERSION_PREAMBLE;
+      return `${preamble}\n${section}`;
+    }
+
+    const lines = existing.split('\n');
+    const headings = lines
+      .map((line, index) => ({ index, version: line.match(VERSION_HEADING)?.[1] }))
+      .filter((heading): heading is { index: number; version: string } => !!heading.version);
+
+    const isUnreleased = version.toLowerCase() === 'unreleased';
+    const sameVersion = headings.find(
+      heading => this.normalizeVersion(heading.version) === this.normalizeVersion(version)
+    );
+
+    if (sameVersion && !isUnreleased) {
+      throw new Error(`The changelog already has a section for ${version}`);
+    }
+
+    const unreleasedIndex = headings.findIndex(
+      heading => heading.version.toLowerCase() === 'unreleased'
+    );
+    const sectionLines = section.replace(/\n+$/, '').split('\n');
+
+    // Regenerating "Unreleased" replaces that section instead of stacking a second one
+    if (sameVersion && isUnreleased) {
+      const end = headings[unreleasedIndex + 1]?.index ?? lines.length;
+      return [...lines.slice(0, sameVersion.index), ...sectionLines, '', ...lines.slice(end)].join(
+        '\n'
+      );
+    }
+
+    const insertBefore =
+      (unreleasedIndex >= 0 ? headings[unreleasedIndex + 1] : headings[0])?.index ?? lines.length;
+    const before = lines.slice(0, insertBefore);
+    while (before.length > 0 && before[before.length - 1]?.trim() === '') {
+      before.pop();
+    }
+
+    return [...before, '', ...sectionLines, '', ...lines.slice(insertBefore)].join('\n');
+  }
+
+  private renderStandardVersionSection(release: ChangelogRelease): string {
+    const isPatch = /^v?\d+\.\d+\.[1-9]\d*/.test(release.version);
+    const heading = isPatch ? '###' : '##';
+    const compareUrl = this.getCompareUrl(release);
+    const title = compareUrl ? `[${release.version}](${compareUrl})` : release.version;
+
+    const sections = release.groups.map(group => {
+      const entries = group.entries.map(entry => `* ${this.formatEntry(entry, release)}`);
+      return `### ${STANDARD_VERSION_TITLES[group.type]}\n\n${entries.join('\n')}\n`;
+    });
+
+    return [`${heading} ${title} (${release.date})\n`, ...sections].join('\n');
+  }
+
+  private renderKeepAChangelogSection(release: ChangelogRelease): string {
+    // Keep a Changelog lists its categories in a fixed order
+    const categories = new Map<string, string[]>([
+      ['Added', []],
+      ['Changed', []],
+      ['Fixed', []],
+    ]);
+
+    for (const group of release.groups) {
+      const title = KEEP_A_CHANGELOG_TITLES[group.type];
+      const entries = group.entries.map(entry => {
+        const prefix = group.type === 'breaking' ? '**BREAKING:** ' : '';
+        return `- ${prefix}${this.formatEntry(entry, release)}`;
+      });
+      categories.set(title, [...(categories.get(title) ?? []), ...entries]);
+    }
+
+    const isUnreleased = release.version.toLowerCase() === 'unreleased';
+    const heading = isUnreleased ? '## [Unreleased]' : `## [${release.version}] - ${release.date}`;
+    const sections = [...categories]
+      .filter(([, entries]) => entries.length > 0)
+      .map(([title, entries]) => `### ${title}\n\n${entries.join('\n')}\n`);
+
+    return [`${heading}\n`, ...sections].join('\n');
+  }
+
+  private formatEntry(entry: ChangelogEntry, release: ChangelogRelease): string {
+    const scope = entry.scope ? `**${entry.scope}:** ` : '';
+    const shortHash = entry.hash.substring(0, 7);
+    const hash = release.repositoryUrl
+      ? `[${shortHash}](${release.repositoryUrl}/commit/${entry.hash})`
+      : shortHash;
+
+    return `${scope}${entry.description} (${hash})`;
+  }
+
+  private getCompareUrl(release: ChangelogRelease): string | undefined {
+    if (!release.repositoryUrl || !release.previousTag) {
+      return undefined;
+    }
+
+    // Releasing from HEAD compares against the tag the release is about to get
+    const tagPrefix = release.previousTag.startsWith('v') ? 'v' : '';
+    const target =
+      release.currentRef !== 'HEAD' || release.version.toLowerCase() === 'unreleased'
+        ? release.currentRef
+        : `${tagPrefix}${release.version}`;
+
+    return `${release.repositoryUrl}/compare/${release.previousTag}...${target}`;
+  }
+
+  private isGroupType(type: string): type is ChangelogGroupType {
+    return (GROUP_ORDER as readonly string[]).includes(type) && type !== 'breaking';
+  }
+
+  private normalizeVersion(version: string): string {
+    return version.toLowerCase().replace(/^v/, '');
+  }
+}
@@ -0,0 +1,190 @@
+import fs from 'fs/promises';
+import chalk from 'chalk';
+import { configManager } from './config.js';
+import { GitService } from './git.js';
+import { FallbackAIService } from './fallback-ai-service.js';
+import { tokenUsage } from './token-usage.js';
+import { ChangelogGenerator } from './changelog-generator.js';
+import { DisplayService } from './display-service.js';
+import { CommitValidator } from './commit-validator.js';
+import { ChangelogGroup, ChangelogOptions } from '../types/index.js';
+
+/**
+ * Service responsible for generating release notes and updating CHANGELOG.md
+ * Groups conventional commits between two refs and optionally lets the AI polish each group
+ */
+export class ChangelogProcessor {
+  private readonly gitService: GitService;
+  private readonly validator: CommitValidator;
+  private readonly generator: ChangelogGenerator;
+
+  constructor() {
+    this.gitService = new GitService();
+    this.validator = new CommitValidator();
+    this.generator = new ChangelogGenerator();
+  }
+
+  /**
+   * Process the changelog generation workflow
+   */
+  public async processChangelog(options: ChangelogOptions): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const styleError = this.validator.validateChangelogStyle(options.style);
+      if (styleError) {
+        console.log();
+        console.error(chalk.red('❌ Invalid changelog style'));
+        console.log(chalk.yellow(styleError));
+        process.exit(1);
+      }
+
+      const gitError = await this.validator.validateGitRepository();
+      if (gitError) {
+        console.log();
+        console.error(chalk.red('❌ Not a git repository'));
+        console.log(chalk.gray(gitError));
+        process.exit(1);
+      }
+
+      const to = options.to || 'HEAD';
+      const from = options.from ?? (await this.findPreviousTag(to));
+      const rangeError = await this.validator.validateRevisionSelection({
+        range: from ? `${from}..${to}` : to,
+      });
+      if (rangeError) {
+        console.log();
+        console.error(chalk.red('❌ Invalid revision range'));
+        console.log(chalk.yellow(rangeError));
+        process.exit(1);
+      }
+
+      const range = from ? `${from}..${to}` : to;
+      DisplayService.displayProgress(`Collecting commits in ${range}...`);
+      const commits = await this.gitService.getCommits(undefined, undefined, undefined, { range });
+      const { groups, skipped } = this.generator.groupCommits(commits);
+      DisplayService.displayProgress(
+        `Found ${commits.length} commits (${commits.length - skipped} conventional)`,
+        true
+      );
+
+      if (groups.length === 0) {
+        console.log();
+        console.log(chalk.yellow('⚠️  No feat, fix, perf or breaking commits found in this range'));
+        console.log(
+          chalk.gray('   Only commits following the conventional format (e.g. "feat(api): ...")')
+        );
+        console.log(chalk.gray('   are included in the changelog'));
+        process.exit(0);
+      }
+
+      const polishedGroups =
+        options.ai === false ? groups : await this.polishGroups(groups, options);
+
+      const isTaggedRelease = to !== 'HEAD' && (await this.gitService.isTag(to));
+      const version =
+        options.release || (isTaggedRelease ? to.replace(/^v(?=\d)/, '') : 'Unreleased');
+      const refDate = to === 'HEAD' ? undefined : await this.gitService.getRefDate(to);
+      const date = (refDate ?? new Date().toISOString()).substring(0, 10);
+
+      const outputPath = options.output || 'CHANGELOG.md';
+      const existing = await this.readExistingChangelog(outputPath);
+      const style = options.style ?? this.generator.detectStyle(existing);
+
+      const section = this.generator.renderSection(
+        {
+          version,
+          date,
+          groups: polishedGroups,
+          previousTag: from,
+          currentRef: to,
+          repositoryUrl: await this.gitService.getRemoteWebUrl(),
+        },
+        style
+      );
+
+      if (options.dryRun) {
+        console.log();
+        console.log(section);
+        return;
+      }
+
+      const updated = this.generator.insertSection(existing, section, version, style);
+      await fs.writeFile(outputPath, updated);
+
+      const processingTime = (Date.now() - startTime) / 1000;
+      console.log();
+      console.log(chalk.green.bold(`✅ ${outputPath} updated with ${version} (${style})`));
+      for (const group of polishedGroups) {
+        console.log(chalk.gray(`   ${group.type}: ${group.entries.length}`));
+      }
+      if (skipped > 0) {
+        console.log(chalk.gray(`   Skipped ${skipped} non-conventional or merge commits`));
+      }
+      console.log(chalk.gray(`\n⏱️  Processing time: ${processingTime.toFixed(2)}s`));
+      DisplayService.displayTokenUsage(await tokenUsage.finishRun('changelog'));
+    } catch (error) {
+      await tokenUsage.finishRun('changelog');
+      DisplayService.displayError(error, 'Changelog generation');
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Find the tag the release starts from
+   * When releasing an existing tag, look behind it so the range does not collapse to nothing
+   */
+  private async findPreviousTag(to: string): Promise<string | undefined> {
+    const startRef = (await this.gitService.isTag(to)) ? `${to}^` : to;
+    return (await this.gitService.getLatestTag(startRef)) ?? undefined;
+  }
+
+  /**
+   * Rewrite each group's entries with the configured AI provider
+   * Falls back to the deterministic entries when no provider is available or a request fails
+   */
+  private async polishGroups(
+    groups: ChangelogGroup[],
+    options: ChangelogOptions
+  ): Promise<ChangelogGroup[]> {
+    const provider = await configManager.getProvider(options.provider);
+    if (!provider) {
+      console.log(
+        chalk.yellow('⚠️  No AI provider configured, using commit subjects as-is (see --no-ai)')
+      );
+      return groups;
+    }
+
+    DisplayService.displayAIProgress(provider.provider, provider.model || 'default');
+    const aiService = await FallbackAIService.create(provider);
+
+    try {
+      const polished = await Promise.all(
+        groups.map(async group => {
+          const descriptions = await aiService.generateChangelogEntries(group);
+          return {
+            ...group,
+            entries: group.entries.map((entry, index) => ({
+              ...entry,
+              description: descriptions[index] ?? entry.description,
+            })),
+          };
+        })
+      );
+      DisplayService.displayProgress('AI polish complete', true);
+      return polished;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(chalk.yellow(`⚠️  AI polish failed, using commit subjects as-is: ${message}`));
+      return groups;
+    }
+  }
+
+  private async readExistingChangelog(outputPath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(outputPath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
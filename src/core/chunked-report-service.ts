@@ -0,0 +1,86 @@
+import { DisplayService } from './display-service.js';
+import {
+  AIResponse,
+  CommitChunk,
+  PartialReport,
+  ReportChunkStrategy,
+  ReportLength,
+} from '../types/index.js';
+import { estimateTokens, packByTokens } from '../utils/commit-chunks.js';
+import {
+  buildChunkReportPrompt,
+  buildMergeReportPrompt,
+  formatPartialReport,
+} from '../utils/report-prompts.js';
+
+/**
+ * Send one report prompt to a provider
+ * @param final True for the report shown to the user; partial reports are never streamed
+ */
+export type ReportRequest = (
+  prompt: string,
+  length: ReportLength,
+  final: boolean
+) => Promise<AIResponse>;
+
+/**
+ * Service that summarizes commit sets too large for one prompt: each chunk is summarized
+ * on its own, then the partial reports are merged into one
+ * Providers only supply how a single report prompt is sent
+ */
+export class ChunkedReportService {
+  private readonly requestReport: ReportRequest;
+
+  constructor(requestReport: ReportRequest) {
+    this.requestReport = requestReport;
+  }
+
+  /**
+   * Summarize every chunk, then merge the partial reports in batches that fit the budget
+   * until a single batch is left for the final report
+   */
+  public async generate(
+    chunks: readonly CommitChunk[],
+    length: ReportLength,
+    chunkBy: ReportChunkStrategy,
+    budget: number
+  ): Promise<AIResponse> {
+    const commitCount = chunks.reduce((total, chunk) => total + chunk.commits.length, 0);
+    DisplayService.displayProgress(
+      `${commitCount} commits exceed one prompt, summarizing ${chunks.length} chunks by ${chunkBy}`
+    );
+
+    const partials: PartialReport[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      DisplayService.displayChunkProgress(index + 1, chunks.length, chunk.label);
+      const response = await this.requestReport(buildChunkReportPrompt(chunk), 'detailed', false);
+      partials.push({ label: chunk.label, response });
+    }
+    DisplayService.displayProgress(`Summarized ${chunks.length} chunks`, true);
+
+    let level = partials;
+    for (;;) {
+      const batches = packByTokens(
+        level,
+        partial => estimateTokens(formatPartialReport(partial)),
+        budget
+      );
+      if (batches.length === 1 || batches.length === level.length) {
+        DisplayService.displayProgress('Merging partial reports...');
+        return this.requestReport(buildMergeReportPrompt(level, length), length, true);
+      }
+
+      const merged: PartialReport[] = [];
+      for (const batch of batches) {
+        const response = await this.requestReport(
+          buildMergeReportPrompt(batch, 'detailed'),
+          'detailed',
+          false
+        );
+        const label = `${batch[0]?.label} – ${batch[batch.length - 1]?.label}`;
+        merged.push({ label, response });
+      }
+      level = merged;
+    }
+  }
+}
@@ -3,7 +3,31 @@ import {
   AIResponse,
   StagedChanges,
   CommitMessageOptions,
+  ChangelogGroup,
+  GitCommit,
+  ReportChunkStrategy,
+  ReportGenerationOptions,
+  ReportLength,
+  CacheSettings,
+  CommitPlanGroup,
+  PullRequestContext,
+  PullRequestDescription,
+  RetrySettings,
 } from '../types/index.js';
+import { CacheManager } from './cache.js';
+import { DisplayService } from './display-service.js';
+import { tokenUsage } from './token-usage.js';
+import { ChunkedReportService } from './chunked-report-service.js';
+import { chunkCommits, estimateTokens, getChunkTokenBudget } from '../utils/commit-chunks.js';
+import { REPORT_JSON_SCHEMA, parseReportText, validateReport } from '../utils/report-schema.js';
+import { buildReportPrompt, formatCommitSummaries } from '../utils/report-prompts.js';
+import { budgetDiff, getDiffTokenBudget } from '../utils/diff-budget.js';
+import { parseCommitPlanJson } from '../utils/commit-plan.js';
+import { parsePullRequestJson } from '../utils/pull-request.js';
+import { buildCommitRulesInstructions, describeCommitRules } from '../utils/commitlint.js';
+import { describeCommitStyle } from '../utils/commit-style.js';
+import { addTicketToBranchName, addTicketToMessage } from '../utils/ticket.js';
+import { DEFAULT_RETRY, withRetry } from '../utils/retry.js';
 
 /**
  * Cloud AI Service for proxying requests through backend API
@@ -12,29 +36,42 @@ import {
 export class CloudAIService {
   private readonly baseUrl: string;
   private readonly authToken: string;
+  private readonly model: string;
+  private readonly retry: RetrySettings;
+  private readonly cache: CacheManager;
 
-  constructor(provider: CloudAIProvider) {
+  constructor(provider: CloudAIProvider, retry: RetrySettings = {}, cache: CacheSettings = {}) {
     this.baseUrl = provider.baseUrl || 'https://devsum.vercel.app';
     this.authToken = provider.apiKey;
+    this.model = provider.model || 'default';
+    this.retry = retry;
+    this.cache = new CacheManager(cache);
   }
 
   /**
    * Generate accomplishment report from git commits
+   * The proxy answers in one piece, so only options.signal applies
    */
   public async generateReport(
-    commits: readonly any[],
-    length: string = 'detailed'
+    commits: readonly GitCommit[],
+    length: ReportLength = 'detailed',
+    chunkBy: ReportChunkStrategy = 'week',
+    options: ReportGenerationOptions = {}
   ): Promise<AIResponse> {
-    const prompt = this.buildReportPrompt(commits, length);
-
-    const response = await this.makeRequest({
-      provider: 'gemini', // Default to Gemini for reports
-      operation: 'generateReport',
-      prompt,
-      options: { length },
-    });
+    const { signal } = options;
+    const budget = getChunkTokenBudget('devsum-cloud');
+    const chunks = chunkCommits(commits, chunkBy, budget, commit =>
+      formatCommitSummaries([commit])
+    );
+
+    if (chunks.length > 1) {
+      const chunked = new ChunkedReportService((prompt, promptLength) =>
+        this.requestReport(prompt, promptLength, signal)
+      );
+      return chunked.generate(chunks, length, chunkBy, budget);
+    }
 
-    return response.result;
+    return this.requestReport(buildReportPrompt(commits, length), length, signal);
   }
 
   /**
@@ -46,44 +83,50 @@ export class CloudAIService {
   ): Promise<string> {
     const prompt = this.buildCommitPrompt(changes, options);
 
-    const response = await this.makeRequest({
-      provider: 'gemini', // Default to Gemini for commits
-      operation: 'generateCommit',
-      prompt,
-      options,
-    });
+    const response = await this.makeCachedRequest(
+      {
+        provider: 'gemini', // Default to Gemini for commits
+        operation: 'generateCommit',
+        prompt,
+        options: this.toRequestOptions(options),
+      },
+      undefined,
+      options.candidate
+    );
 
     return response.result;
   }
 
   /**
    * Generate branch name from staged changes
+   * @param ticket Ticket key to put at the start of the description, e.g. feature/PROJ-1234-...
    */
-  public async generateBranchName(changes: StagedChanges): Promise<string> {
+  public async generateBranchName(changes: StagedChanges, ticket?: string): Promise<string> {
     const prompt = this.buildBranchNamePrompt(changes);
 
-    const response = await this.makeRequest({
+    const response = await this.makeCachedRequest({
       provider: 'gemini',
       operation: 'generateBranchName',
       prompt,
     });
 
-    return response.result;
+    return ticket ? addTicketToBranchName(response.result, ticket) : response.result;
   }
 
   /**
    * Generate pull request title from staged changes
+   * @param ticket Ticket key to prefix the title with
    */
-  public async generatePullRequestTitle(changes: StagedChanges): Promise<string> {
+  public async generatePullRequestTitle(changes: StagedChanges, ticket?: string): Promise<string> {
     const prompt = this.buildPullRequestTitlePrompt(changes);
 
-    const response = await this.makeRequest({
+    const response = await this.makeCachedRequest({
       provider: 'gemini',
       operation: 'generatePullRequestTitle',
       prompt,
     });
 
-    return response.result;
+    return ticket ? addTicketToMessage(response.result, ticket, 'prefix') : response.result;
   }
 
   /**
@@ -96,12 +139,16 @@ export class CloudAIService {
   ): Promise<string> {
     const prompt = this.buildDetailedCommitPrompt(changes, diffContent, options);
 
-    const response = await this.makeRequest({
-      provider: 'gemini',
-      operation: 'generateCommit',
-      prompt,
-      options,
-    });
+    const response = await this.makeCachedRequest(
+      {
+        provider: 'gemini',
+        operation: 'generateCommit',
+        prompt,
+        options: this.toRequestOptions(options),
+      },
+      undefined,
+      options.candidate
+    );
 
     return response.result;
   }
@@ -112,117 +159,225 @@ export class CloudAIService {
   public async generateAlternativeBranchName(
     changes: StagedChanges,
     existingBranches: string[],
-    originalName: string
+    originalName: string,
+    ticket?: string
   ): Promise<string> {
     const prompt = this.buildAlternativeBranchNamePrompt(changes, existingBranches, originalName);
 
-    const response = await this.makeRequest({
+    const response = await this.makeCachedRequest({
       provider: 'gemini',
       operation: 'generateBranchName',
       prompt,
     });
 
-    return response.result;
+    return ticket ? addTicketToBranchName(response.result, ticket) : response.result;
   }
 
   /**
-   * Make authenticated request to backend API
+   * Rewrite the entries of a changelog group as user-facing release notes
    */
-  private async makeRequest(requestData: any): Promise<any> {
-    const response = await fetch(`${this.baseUrl}/api/ai/proxy`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.authToken}`,
-      },
-      body: JSON.stringify(requestData),
-    });
+  public async generateChangelogEntries(group: ChangelogGroup): Promise<string[]> {
+    const prompt = this.buildChangelogPrompt(group);
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new Error('Authentication failed. Please run "devsum login" to re-authenticate.');
-      }
-      throw new Error(`API request failed: ${response.statusText}`);
-    }
+    const response = await this.makeRequest({
+      provider: 'gemini',
+      operation: 'generateChangelog',
+      prompt,
+    });
 
-    return await response.json();
+    return this.parseChangelogResponse(String(response.result ?? ''), group);
   }
 
   /**
-   * Build report generation prompt
+   * Propose how to split staged changes into several commits
    */
-  private buildReportPrompt(commits: readonly any[], length: string): string {
-    const commitSummaries = commits
-      .map(commit => {
-        const date = commit.date.split('T')[0];
-        const files = commit.files.slice(0, 3).join(', ');
-        const moreFiles = commit.files.length > 3 ? '...' : '';
-        return `- ${date} | ${commit.message} | Files: ${files}${moreFiles}`;
-      })
-      .join('\n');
+  public async generateCommitPlan(
+    changeList: string,
+    options: CommitMessageOptions
+  ): Promise<CommitPlanGroup[]> {
+    const prompt = this.buildCommitPlanPrompt(changeList, options);
+
+    const response = await this.makeRequest({
+      provider: 'gemini',
+      operation: 'generateCommitPlan',
+      prompt,
+      options: { ...this.toRequestOptions(options), responseFormat: 'json' },
+    });
+
+    const { result } = response;
+    const plan = parseCommitPlanJson(
+      typeof result === 'string' ? result : JSON.stringify(result ?? {})
+    );
+    if (!plan) {
+      throw new Error('The response did not contain a valid commit plan');
+    }
+    return plan;
+  }
 
-    const lengthInstructions = this.getLengthInstructions(length);
+  /**
+   * Generate a pull request title and description from the commits and diff of a branch
+   */
+  public async generatePullRequestDescription(
+    context: PullRequestContext
+  ): Promise<PullRequestDescription> {
+    const prompt = this.buildPullRequestDescriptionPrompt(context);
 
-    return `Please analyze the following git commits and generate an accomplishment report.
+    const requestData = {
+      provider: 'gemini',
+      operation: 'generatePullRequestDescription',
+      prompt,
+      options: { responseFormat: 'json' },
+    };
 
-Git Commits:
-${commitSummaries}
+    const description = await this.cached(requestData, async () => {
+      const { result } = await this.makeRequest(requestData);
+      const parsed = parsePullRequestJson(
+        typeof result === 'string' ? result : JSON.stringify(result ?? {})
+      );
+      if (!parsed) {
+        throw new Error('The response did not contain a valid pull request description');
+      }
+      return parsed;
+    });
 
-${lengthInstructions}
+    // Start the title with the first ticket key the pull request refers to
+    const [ticket] = context.tickets;
+    return ticket
+      ? { ...description, title: addTicketToMessage(description.title, ticket, 'prefix') }
+      : description;
+  }
 
-Please provide a response in the following format:
+  /**
+   * Send a report prompt through the proxy
+   */
+  private async requestReport(
+    prompt: string,
+    length: ReportLength,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
+    const response = await this.makeCachedRequest(
+      {
+        provider: 'gemini', // Default to Gemini for reports
+        operation: 'generateReport',
+        prompt,
+        options: { length, responseFormat: 'json', responseSchema: REPORT_JSON_SCHEMA },
+      },
+      signal
+    );
+
+    // The backend may return the report object, its JSON text, or free text
+    const { result } = response;
+    const report = typeof result === 'string' ? null : validateReport(result);
+    return (
+      report ?? parseReportText(typeof result === 'string' ? result : JSON.stringify(result ?? {}))
+    );
+  }
 
-**Summary:**
-[A brief overview of the work done]
+  /**
+   * Make authenticated request to backend API, retrying rate limits, server errors and timeouts
+   * The proxy does not report token usage, so it is estimated from the prompt and the result
+   */
+  private async makeRequest(requestData: any, signal?: AbortSignal): Promise<any> {
+    const response = await withRetry(
+      () => this.sendRequest(requestData, signal),
+      this.retry,
+      (error, attempt, delayMs) =>
+        DisplayService.displayRetry(
+          'devsum-cloud',
+          error,
+          attempt,
+          this.retry.retries ?? DEFAULT_RETRY.retries,
+          delayMs
+        )
+    );
+
+    const result = response?.result;
+    tokenUsage.record(
+      'devsum-cloud',
+      this.model,
+      {
+        inputTokens: estimateTokens(String(requestData.prompt ?? '')),
+        outputTokens: estimateTokens(
+          typeof result === 'string' ? result : JSON.stringify(result ?? '')
+        ),
+      },
+      true
+    );
+    return response;
+  }
 
-**Key Accomplishments:**
-- [Accomplishment 1]
-- [Accomplishment 2]
-- [Accomplishment 3]
+  /**
+   * Make a request, answering from the cache when the same request was made before
+   * @param candidate Index of one of several candidates, cached on its own but never sent
+   */
+  private makeCachedRequest(
+    requestData: any,
+    signal?: AbortSignal,
+    candidate?: number
+  ): Promise<any> {
+    return this.cached(requestData, () => this.makeRequest(requestData, signal), candidate);
+  }
 
-**Technical Highlights:**
-- [Technical detail 1]
-- [Technical detail 2]
+  /**
+   * Return the cached result of a request, or generate and cache it
+   * Everything sent besides the operation and prompt is part of the cache key
+   */
+  private cached<T>(requestData: any, generate: () => Promise<T>, candidate?: number): Promise<T> {
+    const { operation, prompt, ...options } = requestData;
+    return this.cache.getOrCreate(
+      {
+        provider: 'devsum-cloud',
+        model: this.model,
+        operation,
+        prompt,
+        options: candidate === undefined ? options : { ...options, candidate },
+      },
+      generate
+    );
+  }
 
-Focus on the impact and value of the changes rather than just listing commits. Group related changes together and highlight the most significant contributions.`;
+  /**
+   * Commit options the backend contract defines; rules, style and feedback only shape the
+   * prompt and stay on this machine
+   */
+  private toRequestOptions(
+    options: CommitMessageOptions
+  ): Pick<CommitMessageOptions, 'conventional' | 'emoji' | 'length'> {
+    const { conventional, emoji, length } = options;
+    return { conventional, emoji, length };
   }
 
   /**
-   * Get length-specific instructions
+   * Send a single request to the backend API
    */
-  private getLengthInstructions(length: string): string {
-    const instructions = {
-      light: `Generate a LIGHT report with:
-- Very brief summary (1-2 sentences)
-- Top 3-5 key accomplishments only
-- Minimal technical details
-- Focus on high-level impact and business value
-- Keep it concise and executive-friendly`,
-
-      short: `Generate a SHORT report with:
-- Concise summary (2-3 sentences)
-- 5-8 key accomplishments
-- Some technical highlights
-- Balanced detail level for quick review
-- Good for daily/weekly updates`,
-
-      detailed: `Generate a DETAILED report with:
-- Comprehensive summary (3-5 sentences)
-- 8-15 key accomplishments
-- Extensive technical highlights and improvements
-- Detailed analysis of patterns and trends
-- Recommendations for future work
-- Perfect for comprehensive reviews and documentation`,
-    };
+  private async sendRequest(requestData: any, signal?: AbortSignal): Promise<any> {
+    const response = await fetch(`${this.baseUrl}/api/ai/proxy`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.authToken}`,
+      },
+      body: JSON.stringify(requestData),
+      signal: signal ?? null,
+    });
 
-    return instructions[length as keyof typeof instructions] || instructions.detailed;
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Authentication failed. Please run "devsum login" to re-authenticate.');
+      }
+      throw Object.assign(new Error(`API request failed: ${response.statusText}`), {
+        status: response.status,
+      });
+    }
+
+    return await response.json();
   }
 
   /**
    * Build commit message prompt
    */
   private buildCommitPrompt(changes: StagedChanges, options: CommitMessageOptions): string {
-    const { conventional, emoji, length } = options;
+    const { conventional, emoji, length, style } = options;
 
     const fileSummary = changes.stagedFiles
       .map(file => {
@@ -288,13 +443,16 @@ Use appropriate emojis:
         break;
     }
 
+    // Examples and traits of the repository's own commit messages
+    const styleInstructions = style ? `\n\n${describeCommitStyle(style)}` : '';
+
     return `Generate a comprehensive commit message for the following changes:
 
 ${changeSummary}
 
 Requirements:
 ${lengthInstructions}
-${formatInstructions}
+${formatInstructions}${styleInstructions}
 
 IMPORTANT: Analyze ALL the changes thoroughly and create detailed bullet points that capture:
 - Every significant change made to the codebase
@@ -410,7 +568,7 @@ Generate only the pull request title, no additional text:`;
     diffContent: string,
     options: CommitMessageOptions
   ): string {
-    const { conventional, emoji, length } = options;
+    const { conventional, emoji, length, guidance, rules, feedback, style } = options;
 
     const fileSummary = changes.stagedFiles
       .map(file => {
@@ -476,22 +634,30 @@ Use appropriate emojis:
         break;
     }
 
-    // Truncate diff content if it's too long (keep first 2000 characters)
-    const truncatedDiff =
-      diffContent.length > 2000
-        ? diffContent.substring(0, 2000) + '\n... (diff truncated for brevity)'
-        : diffContent;
+    // Extra direction given when regenerating a message
+    const guidanceInstructions = guidance
+      ? `\n\nAdditional guidance from the author: ${guidance}`
+      : '';
+
+    // Examples and traits of the repository's own commit messages
+    const styleInstructions = style ? `\n\n${describeCommitStyle(style)}` : '';
+
+    // Commit rules the message is checked against, with what the last attempt broke
+    const rulesInstructions = rules ? `\n\n${buildCommitRulesInstructions(rules, feedback)}` : '';
+
+    // Keep the most important hunks that fit the model's context; noise files are listed by name
+    const budgetedDiff = budgetDiff(diffContent, getDiffTokenBudget('devsum-cloud'));
 
     return `Generate a comprehensive commit message for the following changes:
 
 ${changeSummary}
 
 Detailed Code Changes:
-${truncatedDiff}
+${budgetedDiff}
 
 Requirements:
 ${lengthInstructions}
-${formatInstructions}
+${formatInstructions}${styleInstructions}${guidanceInstructions}${rulesInstructions}
 
 IMPORTANT: Analyze the actual code changes in the diff above and create detailed bullet points that capture:
 - Every significant change made to the codebase based on the actual diff
@@ -565,4 +731,111 @@ Requirements:
 
 Generate only the branch name, no additional text:`;
   }
+
+  /**
+   * Build changelog polishing prompt
+   */
+  private buildChangelogPrompt(group: ChangelogGroup): string {
+    const descriptions: Record<ChangelogGroup['type'], string> = {
+      breaking: 'breaking changes',
+      feat: 'new features',
+      fix: 'bug fixes',
+      perf: 'performance improvements',
+    };
+    const entries = group.entries
+      .map(
+        (entry, index) =>
+          `${index + 1}. ${entry.scope ? `(${entry.scope}) ` : ''}${entry.description}`
+      )
+      .join('\n');
+
+    return `Rewrite the following ${descriptions[group.type]} from commit messages into user-facing release notes:
+
+${entries}
+
+Requirements:
+- Return EXACTLY ${group.entries.length} lines, one per entry, in the same order
+- Do not number the lines or add bullets
+- Do not include the scope in parentheses; it is added separately
+- Write one concise sentence per entry for people using the software, not its developers
+- Start with a capital letter and do not end with a period
+- Keep technical names (commands, options, file names) unchanged
+
+Generate only the ${group.entries.length} lines, no additional text:`;
+  }
+
+  /**
+   * Parse changelog lines, keeping the original wording unless every entry was answered
+   */
+  private parseChangelogResponse(response: string, group: ChangelogGroup): string[] {
+    const lines = response
+      .split('\n')
+      .map(line =>
+        line
+          .trim()
+          .replace(/^(?:[-*•]|\d+[.)])\s*/, '')
+          .replace(/\.$/, '')
+      )
+      .filter(line => line);
+
+    if (lines.length !== group.entries.length) {
+      return group.entries.map(entry => entry.description);
+    }
+
+    return lines;
+  }
+
+  private buildCommitPlanPrompt(changeList: string, options: CommitMessageOptions): string {
+    const { conventional, emoji, rules } = options;
+    const formatRule = conventional
+      ? `- Use conventional commit format for the subject: type(scope): description${emoji ? ', prefixed with a matching emoji' : ''}`
+      : `- Start the subject with a verb in present tense${emoji ? ' and prefix it with a matching emoji' : ''}`;
+    const ruleLines = rules ? describeCommitRules(rules).map(line => `\n- ${line}`) : [];
+
+    return `The following staged changes contain several unrelated pieces of work. Group them into a sequence of small, logical commits.
+
+Each change has an id: a file path, or "path#n" for the n-th hunk of a file.
+
+${changeList}
+
+Requirements:
+- Every id must appear in exactly one commit
+- Keep changes that depend on each other in the same commit, and order commits so each builds on the previous ones
+- Prefer fewer commits over splitting closely related changes
+- Give each commit a message with a subject line of at most 72 characters, optionally followed by a blank line and 1-3 bullet points
+${formatRule}${ruleLines.join('')}
+
+Respond with JSON only, in this shape:
+{"commits": [{"message": "feat(auth): add login validation", "changes": ["src/auth.ts", "src/api.ts#2"]}]}`;
+  }
+
+  private buildPullRequestDescriptionPrompt(context: PullRequestContext): string {
+    const commits = [...context.commits]
+      .reverse()
+      .map(commit => {
+        const body = commit.body?.trim().replace(/\n/g, '\n    ');
+        return `- ${commit.message}${body ? `\n    ${body}` : ''}`;
+      })
+      .join('\n');
+    const budgetedDiff = budgetDiff(context.diff, getDiffTokenBudget('devsum-cloud'));
+
+    return `Write a pull request description for the branch "${context.branch}", compared against "${context.base}".
+
+Commits, oldest first:
+${commits}
+
+Diff:
+${budgetedDiff}
+
+Requirements:
+- title: one sentence under 72 characters, in present tense, starting with a verb
+- summary: 2-4 sentences on what the pull request does and why, for a reviewer who has not seen the code
+- changes: one item per notable change, most important first
+- testing: how the changes are verified; name tests added or updated in the diff, otherwise the manual steps a reviewer can follow
+- risks: what a reviewer should look at closely, such as migrations, public API, config or behaviour changes; an empty list when there is nothing
+- Plain sentences only: no markdown headings, no bullet markers, no ticket keys
+
+Respond with JSON only, in this shape:
+{"title": "Add CSV export to reports", "summary": "...", "changes": ["..."], "testing": ["..."], "risks": ["..."]}`;
+  }
 }
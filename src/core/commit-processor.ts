@@ -1,13 +1,31 @@
 import readline from 'readline';
 import chalk from 'chalk';
+import inquirer from 'inquirer';
 import { configManager } from './config.js';
 import { GitService } from './git.js';
-import { AIService } from './ai.js';
-import { CloudAIService } from './cloud-ai-service.js';
+import { FallbackAIService } from './fallback-ai-service.js';
+import { tokenUsage } from './token-usage.js';
 import { DisplayService } from './display-service.js';
 import { CommitValidator } from './commit-validator.js';
 import { BranchManager } from './branch-manager.js';
-import { CommitOptions, StagedChanges, AIProvider } from '../types/index.js';
+import { CommitSplitter } from './commit-splitter.js';
+import { CommitStyleService } from './commit-style-service.js';
+import { getDiffTokenBudget } from '../utils/diff-budget.js';
+import { getStyleFormat } from '../utils/commit-style.js';
+import { addTicketToMessage, extractTicketKey } from '../utils/ticket.js';
+import { redactSecrets, scanDiffForSecrets } from '../utils/secret-scan.js';
+import {
+  CommitOptions,
+  CommitLength,
+  CommitMessageOptions,
+  CommitRuleSet,
+  CommitStyleProfile,
+  SecretFinding,
+  SecretPolicy,
+  StagedChanges,
+  UsageRecord,
+  AIProvider,
+} from '../types/index.js';
 
 /**
  * Service responsible for processing commit operations
@@ -18,6 +36,26 @@ export class CommitProcessor {
   private readonly validator: CommitValidator;
   private readonly branchManager: BranchManager;
 
+  /**
+   * Commit rules of the repository, loaded on first use
+   */
+  private commitRules: Promise<CommitRuleSet | null> | undefined;
+
+  /**
+   * Commit style learned from the repository's history, loaded on first use
+   */
+  private commitStyle: Promise<CommitStyleProfile | null> | undefined;
+
+  /**
+   * Ticket key given with --ticket, used instead of the key in the branch name
+   */
+  private ticketKey: string | undefined;
+
+  /**
+   * Secret findings already shown, so a rescan of the same changes stays quiet
+   */
+  private shownSecretFindings: string | undefined;
+
   constructor() {
     this.gitService = new GitService();
     this.validator = new CommitValidator();
@@ -59,6 +97,19 @@ export class CommitProcessor {
         process.exit(1);
       }
 
+      const candidatesError = this.validator.validateCandidateCount(options.candidates);
+      if (candidatesError) {
+        console.log();
+        console.error(chalk.red('❌ Invalid candidate count'));
+        console.log(chalk.yellow(candidatesError));
+        process.exit(1);
+      }
+
+      // --no-style: write messages from the flags alone
+      if (options.style === false) {
+        this.commitStyle = Promise.resolve(null);
+      }
+
       // Handle --list-branches option first (no config needed)
       if (options.listBranches) {
         await this.handleListBranches(options.noHeader);
@@ -77,6 +128,15 @@ export class CommitProcessor {
         process.exit(1);
       }
 
+      const ticketError = this.validator.validateTicket(options.ticket, config.tickets?.pattern);
+      if (ticketError) {
+        console.log();
+        console.error(chalk.red('❌ Invalid ticket'));
+        console.log(chalk.yellow(ticketError));
+        process.exit(1);
+      }
+      this.ticketKey = options.ticket;
+
       // Get the selected provider
       const selectedProvider = await configManager.getProvider(options.provider);
       if (!selectedProvider) {
@@ -106,6 +166,7 @@ export class CommitProcessor {
         newBranch: options.newBranch,
         switchBranch: options.switchBranch,
         autoBranch: options.autoBranch,
+        ticket: options.ticket,
       });
 
       // Show branch information
@@ -161,15 +222,37 @@ export class CommitProcessor {
         selectedProvider.provider,
         selectedProvider.model || 'default'
       );
-      const aiService = AIService.fromProvider(selectedProvider);
+      const aiService = await FallbackAIService.create(selectedProvider, options.cache !== false);
       const messageLength = (options.length as 'short' | 'medium' | 'detailed') || 'medium';
 
-      // Get detailed diff content for better analysis
-      DisplayService.displayProgress('Analyzing code changes...');
-      const diffContent = await this.gitService.getStagedDiff();
+      // Split the staged changes into several commits following an AI plan
+      if (options.split) {
+        await this.handleSplitWorkflow(aiService, selectedProvider, options, messageLength);
+        const processingTime = (Date.now() - startTime) / 1000;
+        console.log();
+        console.log(chalk.gray(`⏱️  Processing time: ${processingTime.toFixed(2)}s`));
+        DisplayService.displayTokenUsage(await tokenUsage.finishRun('commit'));
+        return;
+      }
+
+      // Let the user choose between several candidates and commit the chosen text
+      if (options.candidates && !options.auto) {
+        const usage = await this.handleCandidateWorkflow(
+          aiService,
+          changes,
+          options,
+          messageLength
+        );
+        const processingTime = (Date.now() - startTime) / 1000;
+        console.log();
+        console.log(chalk.gray(`⏱️  Processing time: ${processingTime.toFixed(2)}s`));
+        DisplayService.displayTokenUsage(usage);
+        return;
+      }
 
       // Generate commit message with detailed diff analysis
-      const commitMessage = await aiService.generateDetailedCommitMessage(changes, diffContent, {
+      DisplayService.displayProgress('Analyzing code changes...');
+      const commitMessage = await this.generateCommitMessage(aiService, changes, {
         conventional: options.conventional || false,
         emoji: options.emoji || false,
         length: messageLength,
@@ -178,15 +261,17 @@ export class CommitProcessor {
 
       // Handle auto workflow
       if (options.auto) {
-        await this.handleAutoWorkflow(aiService, options, changes);
+        DisplayService.displayTokenUsage(
+          await this.handleAutoWorkflow(aiService, options, changes)
+        );
         return;
       }
 
       // Handle auto-branch generation
       let finalBranchName = branchResult.finalBranchName;
       if (options.autoBranch && !options.branch && !options.switchBranch) {
-        await this.handleAutoBranchGeneration(aiService, changes, commitMessage);
-        finalBranchName = await this.generateAndCreateBranch(aiService, changes);
+        await this.handleAutoBranchGeneration(aiService, changes, commitMessage, options.ticket);
+        finalBranchName = await this.generateAndCreateBranch(aiService, changes, options.ticket);
       }
 
       // Display the generated message
@@ -194,12 +279,16 @@ export class CommitProcessor {
         conventional: options.conventional || false,
         emoji: options.emoji || false,
       });
+      await this.displayCommitViolations(commitMessage);
 
       // Handle auto-commit or dry-run
       if (options.auto || options.dryRun) {
         await this.handleCommitExecution(commitMessage, changes, options.dryRun);
       }
 
+      // Finish before the report, which counts its own usage
+      const usage = await tokenUsage.finishRun('commit');
+
       // Handle report generation
       if (options.report && !options.dryRun) {
         await this.handleReportGeneration(options);
@@ -208,14 +297,541 @@ export class CommitProcessor {
       const processingTime = (Date.now() - startTime) / 1000;
       console.log();
       console.log(chalk.gray(`⏱️  Processing time: ${processingTime.toFixed(2)}s`));
+      DisplayService.displayTokenUsage(usage);
     } catch (error) {
       const processingTime = (Date.now() - startTime) / 1000;
       console.log(chalk.gray(`\n⏱️  Processing time: ${processingTime.toFixed(2)}s`));
+      DisplayService.displayTokenUsage(await tokenUsage.finishRun('commit'));
       DisplayService.displayError(error, 'Commit message generation');
       process.exit(1);
     }
   }
 
+  /**
+   * Generate a commit message for the staged changes without committing or printing
+   * Used by the prepare-commit-msg hook, which has no flags, so the format follows the
+   * repository's commit rules and style
+   * @returns The message, or null when nothing is staged
+   */
+  public async generateStagedCommitMessage(options: {
+    length: CommitLength;
+    provider?: string;
+  }): Promise<string | null> {
+    const selectedProvider = await configManager.getProvider(options.provider);
+    if (!selectedProvider) {
+      throw new Error('No AI provider configured. Run "devsum setup" first.');
+    }
+
+    const changes = await this.gitService.getStagedChanges();
+    if (changes.stagedFiles.length === 0) {
+      return null;
+    }
+
+    const aiService = await FallbackAIService.create(selectedProvider);
+    return this.generateCommitMessage(aiService, changes, {
+      ...(await this.getRepositoryFormat()),
+      length: options.length,
+    });
+  }
+
+  /**
+   * Handle the split workflow: plan commits for the staged changes, let the user accept or
+   * reorder the plan, then make the commits
+   */
+  private async handleSplitWorkflow(
+    aiService: FallbackAIService,
+    provider: AIProvider,
+    options: CommitOptions & { dryRun?: boolean },
+    length: CommitLength
+  ): Promise<void> {
+    const splitter = new CommitSplitter(this.gitService);
+
+    DisplayService.displayProgress('Breaking staged changes into files and hunks...');
+    const changes = await splitter.getStagedChanges();
+    DisplayService.displayProgress(`Found ${changes.length} separate changes`, true);
+
+    if (changes.length < 2) {
+      console.log();
+      console.log(chalk.yellow('⚠️  Only one change is staged, nothing to split'));
+      console.log(chalk.blue('💡 Run "devsum commit" without --split to commit it'));
+      return;
+    }
+
+    DisplayService.displayProgress('🤖 Planning commits...');
+    const changeList = await this.protectSecrets(
+      splitter.describeChanges(changes, getDiffTokenBudget(provider.provider, provider.model))
+    );
+    const groups = await aiService.generateCommitPlan(changeList, {
+      conventional: options.conventional || false,
+      emoji: options.emoji || false,
+      length,
+      rules: (await this.getCommitRules())?.rules,
+    });
+    let plan = splitter.normalizePlan(groups, changes);
+    if (plan.groups.length === 0) {
+      throw new Error('The proposed plan did not include any of the staged changes');
+    }
+    DisplayService.displayProgress('Commit plan ready', true);
+
+    for (;;) {
+      DisplayService.displayCommitPlan(plan);
+      for (const [index, group] of plan.groups.entries()) {
+        await this.displayCommitViolations(group.message, `Commit ${index + 1}`);
+      }
+
+      if (options.dryRun) {
+        console.log();
+        console.log(chalk.blue('🔍 Dry Run Mode - No commits will be made'));
+        return;
+      }
+
+      const { action } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'action',
+          message: 'What do you want to do with this plan?',
+          choices: [
+            { name: '✅ Make these commits', value: 'accept' },
+            { name: '🔀 Reorder the commits', value: 'reorder' },
+            { name: '❌ Cancel', value: 'cancel' },
+          ],
+        },
+      ]);
+
+      if (action === 'cancel') {
+        console.log();
+        console.log(chalk.yellow('❌ Split cancelled, staged changes are unchanged'));
+        return;
+      }
+
+      if (action === 'accept') {
+        break;
+      }
+
+      const count = plan.groups.length;
+      const { order } = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'order',
+          message: `New order of the ${count} commits (e.g. ${Array.from({ length: count }, (_, index) => count - index).join(',')}):`,
+          validate: (value: string) =>
+            this.parseCommitOrder(value, count)
+              ? true
+              : `Enter each number from 1 to ${count} once, separated by commas`,
+        },
+      ]);
+      const { groups: previous } = plan;
+      const reordered = (this.parseCommitOrder(order, count) ?? []).map(index => previous[index]);
+      plan = { ...plan, groups: reordered.filter(group => group !== undefined) };
+    }
+
+    await this.checkSecretsBeforeCommit();
+    DisplayService.displayProgress(`Making ${plan.groups.length} commits...`);
+    try {
+      await splitter.execute(plan, changes);
+    } catch (error) {
+      console.log();
+      console.error(chalk.red('❌ Split failed, HEAD and the staged changes were restored'));
+      throw error;
+    }
+    DisplayService.displayProgress(`Made ${plan.groups.length} commits`, true);
+
+    console.log();
+    console.log(chalk.green('🎉 Split completed!'));
+    plan.groups.forEach((group, index) => {
+      console.log(chalk.gray(`   ${index + 1}. ${group.message.split('\n')[0]}`));
+    });
+    if (plan.unassigned.length > 0) {
+      console.log(
+        chalk.yellow(`⚠️  ${plan.unassigned.length} changes were not in the plan and stay staged`)
+      );
+    }
+  }
+
+  /**
+   * Parse a comma separated commit order such as "2,1,3"
+   * @returns Zero-based indexes, or null unless every number from 1 to count appears once
+   */
+  private parseCommitOrder(value: string, count: number): number[] | null {
+    const indexes = value
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(part => Number(part) - 1);
+    const isPermutation =
+      indexes.length === count &&
+      new Set(indexes).size === count &&
+      indexes.every(index => Number.isInteger(index) && index >= 0 && index < count);
+    return isPermutation ? indexes : null;
+  }
+
+  /**
+   * Handle the candidate workflow outside auto mode: pick, edit or regenerate, then commit
+   * @returns The tokens used for the commit, not counting a --report run
+   */
+  private async handleCandidateWorkflow(
+    aiService: FallbackAIService,
+    changes: StagedChanges,
+    options: CommitOptions & { dryRun?: boolean; report?: boolean },
+    length: CommitLength
+  ): Promise<UsageRecord[]> {
+    const commitMessage = await this.selectCommitMessage(
+      aiService,
+      changes,
+      { conventional: options.conventional || false, emoji: options.emoji || false, length },
+      Number(options.candidates)
+    );
+    if (!commitMessage) {
+      console.log();
+      console.log(chalk.yellow('❌ Commit cancelled by user'));
+      return tokenUsage.finishRun('commit');
+    }
+    await this.displayCommitViolations(commitMessage);
+
+    await this.handleCommitExecution(commitMessage, changes, options.dryRun);
+
+    // Finish before the report, which counts its own usage
+    const usage = await tokenUsage.finishRun('commit');
+    if (options.report && !options.dryRun) {
+      await this.handleReportGeneration(options);
+    }
+    return usage;
+  }
+
+  /**
+   * Generate several candidates and let the user pick one, edit it in $EDITOR or
+   * regenerate with extra guidance
+   * @returns The chosen message, or null when the user cancels
+   */
+  private async selectCommitMessage(
+    aiService: FallbackAIService,
+    changes: StagedChanges,
+    options: CommitMessageOptions,
+    count: number
+  ): Promise<string | null> {
+    let guidance = options.guidance;
+
+    for (let round = 0; ; round++) {
+      DisplayService.displayProgress(
+        `🤖 Generating ${count} commit message candidate${count === 1 ? '' : 's'}...`
+      );
+      const candidates = await this.generateCandidates(
+        aiService,
+        changes,
+        { ...options, guidance },
+        count,
+        round * count
+      );
+      DisplayService.displayProgress(
+        `Generated ${candidates.length} distinct candidate${candidates.length === 1 ? '' : 's'}`,
+        true
+      );
+      DisplayService.displayCommitCandidates(candidates);
+
+      for (;;) {
+        const { choice } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'choice',
+            message: 'Which commit message do you want to use?',
+            choices: [
+              ...candidates.map((candidate, index) => ({
+                name: `Option ${index + 1}: ${candidate.split('\n')[0]}`,
+                value: index,
+              })),
+              new inquirer.Separator(),
+              { name: '🔄 Regenerate with extra guidance', value: 'regenerate' },
+              { name: '❌ Cancel', value: 'cancel' },
+            ],
+          },
+        ]);
+
+        if (choice === 'cancel') {
+          return null;
+        }
+
+        if (choice === 'regenerate') {
+          const answer = await inquirer.prompt([
+            {
+              type: 'input',
+              name: 'guidance',
+              message: 'What should the new messages focus on? (e.g. "mention the migration")',
+              default: guidance,
+            },
+          ]);
+          guidance = answer.guidance.trim() || undefined;
+          break;
+        }
+
+        const candidate = candidates[choice as number] ?? '';
+        const { action } = await inquirer.prompt([
+          {
+            type: 'list',
+            name: 'action',
+            message: `Option ${(choice as number) + 1}:`,
+            choices: [
+              { name: '✅ Use this message', value: 'use' },
+              { name: '📝 Edit in $EDITOR first', value: 'edit' },
+              { name: '↩️  Back to the candidates', value: 'back' },
+            ],
+          },
+        ]);
+
+        if (action === 'use') {
+          return candidate;
+        }
+
+        if (action === 'edit') {
+          const { edited } = await inquirer.prompt([
+            {
+              type: 'editor',
+              name: 'edited',
+              message: 'Edit the commit message',
+              default: candidate,
+            },
+          ]);
+          if (edited.trim()) {
+            return edited.trim();
+          }
+          console.log(chalk.yellow('⚠️  The edited message is empty, pick a candidate again'));
+        }
+      }
+    }
+  }
+
+  /**
+   * Request commit message candidates in parallel, dropping failures and duplicates
+   * @param first Number of the first candidate; a regenerated round continues the numbering
+   * so it does not get the cached candidates of the previous round
+   */
+  private async generateCandidates(
+    aiService: FallbackAIService,
+    changes: StagedChanges,
+    options: CommitMessageOptions,
+    count: number,
+    first = 0
+  ): Promise<string[]> {
+    // Fetch the diff and rules once instead of once per candidate
+    const diffContent = await this.protectSecrets();
+    const ruleSet = await this.getCommitRules();
+    const style = await this.getCommitStyle();
+    const results = await Promise.allSettled(
+      Array.from({ length: count }, (_, index) =>
+        this.generateRuleAbidingMessage(aiService, changes, diffContent, {
+          ...options,
+          rules: ruleSet?.rules,
+          style: style ?? undefined,
+          candidate: first + index,
+        })
+      )
+    );
+
+    const candidates = [
+      ...new Set(
+        results
+          .filter(
+            (result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled'
+          )
+          .map(result => result.value.trim())
+          .filter(Boolean)
+      ),
+    ];
+    if (candidates.length === 0) {
+      const failure = results.find(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
+      );
+      throw failure?.reason ?? new Error('The AI provider returned no commit message');
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Generate a commit message from the staged diff
+   */
+  private async generateCommitMessage(
+    aiService: FallbackAIService,
+    changes: StagedChanges,
+    options: CommitMessageOptions
+  ): Promise<string> {
+    const diffContent = await this.protectSecrets();
+    const ruleSet = await this.getCommitRules();
+    const style = await this.getCommitStyle();
+    return this.generateRuleAbidingMessage(aiService, changes, diffContent, {
+      ...options,
+      rules: ruleSet?.rules,
+      style: style ?? undefined,
+    });
+  }
+
+  /**
+   * Generate a commit message with its ticket key and, when commit rules are set, send it
+   * back to the AI with the violations until it passes or the retries run out
+   * The key is added before linting, so a prefix counts toward the header length
+   * @returns The last message generated, which may still break warning or error rules
+   */
+  private async generateRuleAbidingMessage(
+    aiService: FallbackAIService,
+    changes: StagedChanges,
+    diffContent: string,
+    options: CommitMessageOptions
+  ): Promise<string> {
+    let message = await this.addTicketKey(
+      await aiService.generateDetailedCommitMessage(changes, diffContent, options)
+    );
+    if (!options.rules) {
+      return message;
+    }
+
+    for (let retry = 0; retry < CommitValidator.MAX_LINT_RETRIES; retry++) {
+      const errors = this.validator
+        .validateCommitMessage(message, options.rules)
+        .filter(violation => violation.level === 2);
+      if (errors.length === 0) {
+        break;
+      }
+      message = await this.addTicketKey(
+        await aiService.generateDetailedCommitMessage(changes, diffContent, {
+          ...options,
+          feedback: { message, violations: errors },
+        })
+      );
+    }
+
+    return message;
+  }
+
+  /**
+   * Load the repository's commit rules once, continuing without rules when they cannot be read
+   */
+  private getCommitRules(): Promise<CommitRuleSet | null> {
+    this.commitRules ??= this.validator.loadCommitRules().catch(error => {
+      console.log(
+        chalk.yellow(
+          `⚠️  Commit rules not loaded: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      );
+      return null;
+    });
+    return this.commitRules;
+  }
+
+  /**
+   * Message format of the repository: conventional headers when the commit rules require a
+   * type, otherwise what most recent subjects use; the "devsum commit" defaults without a
+   * learned style
+   */
+  private async getRepositoryFormat(): Promise<
+    Pick<CommitMessageOptions, 'conventional' | 'emoji'>
+  > {
+    const typeRule = (await this.getCommitRules())?.rules['type-empty'];
+    const style = await this.getCommitStyle();
+    const format = style ? getStyleFormat(style) : { conventional: true, emoji: false };
+    const requiresType = typeRule?.[0] === 2 && typeRule[1] === 'never';
+    return { ...format, conventional: format.conventional || requiresType };
+  }
+
+  /**
+   * Add the ticket key to a generated message: the --ticket value, or the key found in the
+   * current branch name with the configured pattern
+   */
+  private async addTicketKey(message: string): Promise<string> {
+    const settings = (await configManager.loadConfig())?.tickets;
+    const key =
+      this.ticketKey ??
+      extractTicketKey(await this.gitService.getCurrentBranch(), settings?.pattern);
+    return key ? addTicketToMessage(message, key, settings?.placement ?? 'trailer') : message;
+  }
+
+  /**
+   * Learn the repository's commit style once; messages are written without it on failure
+   */
+  private getCommitStyle(): Promise<CommitStyleProfile | null> {
+    this.commitStyle ??= new CommitStyleService(this.gitService).getProfile().catch(() => null);
+    return this.commitStyle;
+  }
+
+  /**
+   * Apply the secret policy to text about to be sent to the AI
+   * @param text Text built from the staged changes; the staged diff when omitted
+   * @returns The text, with secrets redacted under the redact policy
+   * @throws When secrets are found and the policy is block
+   */
+  private async protectSecrets(text?: string): Promise<string> {
+    const { diff, findings, policy } = await this.scanStagedChanges();
+    const content = text ?? diff;
+    if (findings.length === 0 || policy === 'warn') {
+      return content;
+    }
+    if (policy === 'block') {
+      throw new Error(
+        'Possible secrets found in the staged changes, nothing was sent to the AI. Unstage them or allow them with "secrets.allowlist" in the config'
+      );
+    }
+    return redactSecrets(content, findings);
+  }
+
+  /**
+   * Scan the staged changes again right before committing, as a redacted or allowed secret
+   * still ends up in the history
+   * @throws When secrets are found and the policy is block
+   */
+  private async checkSecretsBeforeCommit(): Promise<void> {
+    const { findings, policy } = await this.scanStagedChanges();
+    if (findings.length === 0) {
+      return;
+    }
+    if (policy === 'block') {
+      throw new Error(
+        'Possible secrets found in the staged changes, nothing was committed. Unstage them or allow them with "secrets.allowlist" in the config'
+      );
+    }
+    console.log();
+    console.log(
+      chalk.yellow(
+        `⚠️  Committing ${findings.length} possible secret${findings.length === 1 ? '' : 's'} listed above`
+      )
+    );
+  }
+
+  /**
+   * Scan the staged diff with the configured secret rules, showing new findings
+   */
+  private async scanStagedChanges(): Promise<{
+    diff: string;
+    findings: SecretFinding[];
+    policy: SecretPolicy;
+  }> {
+    const settings = (await configManager.loadConfig())?.secrets ?? {};
+    const policy = settings.policy ?? 'redact';
+    const diff = await this.gitService.getStagedDiff();
+    const findings = scanDiffForSecrets(diff, settings);
+
+    const signature = findings
+      .map(finding => `${finding.path}:${finding.line}:${finding.rule}`)
+      .join('\n');
+    if (findings.length > 0 && signature !== this.shownSecretFindings) {
+      DisplayService.displaySecretFindings(findings, policy);
+      this.shownSecretFindings = signature;
+    }
+    return { diff, findings, policy };
+  }
+
+  /**
+   * Show the commit rules a message still breaks before it is committed
+   * @param label Which message is meant, when there are several
+   */
+  private async displayCommitViolations(message: string, label?: string): Promise<void> {
+    const ruleSet = await this.getCommitRules();
+    if (!ruleSet) {
+      return;
+    }
+
+    const violations = this.validator.validateCommitMessage(message, ruleSet.rules);
+    if (violations.length > 0) {
+      DisplayService.displayCommitViolations(violations, ruleSet.source, label);
+    }
+  }
+
   /**
    * Handle report generation for today's commits
    */
@@ -252,6 +868,7 @@ export class CommitProcessor {
         length: 'detailed',
         provider: options.provider,
         noHeader: true,
+        cache: options.cache,
       });
     } catch (error) {
       console.log();
@@ -263,9 +880,10 @@ export class CommitProcessor {
 
   /**
    * Handle full auto workflow
+   * @returns The usage of the commit, finished before --report counts its own
    */
   private async handleAutoWorkflow(
-    aiService: AIService | CloudAIService,
+    aiService: FallbackAIService,
     options: CommitOptions & {
       auto?: boolean;
       conventional?: boolean;
@@ -283,7 +901,7 @@ export class CommitProcessor {
       autoPush?: boolean;
     },
     changes: StagedChanges
-  ): Promise<void> {
+  ): Promise<UsageRecord[]> {
     console.log();
     console.log(chalk.blue('🚀 Starting Auto Workflow...'));
     console.log();
@@ -291,7 +909,7 @@ export class CommitProcessor {
     try {
       // Step 1: Generate and create branch with AI conflict resolution
       DisplayService.displayProgress('🤖 Generating branch name...');
-      let generatedBranchName = await aiService.generateBranchName(changes);
+      let generatedBranchName = await aiService.generateBranchName(changes, options.ticket);
       DisplayService.displayProgress(`Generated branch: ${generatedBranchName}`, true);
 
       // Check for conflicts and regenerate if needed
@@ -312,7 +930,8 @@ export class CommitProcessor {
         generatedBranchName = await aiService.generateAlternativeBranchName(
           changes,
           existingBranches,
-          generatedBranchName
+          generatedBranchName,
+          options.ticket
         );
         DisplayService.displayProgress(
           `Generated alternative branch: ${generatedBranchName}`,
@@ -323,7 +942,7 @@ export class CommitProcessor {
       if (attempts >= maxAttempts) {
         console.log(chalk.red('❌ Unable to generate unique branch name after multiple attempts'));
         console.log(chalk.blue('💡 Please create the branch manually or choose a different name'));
-        return;
+        return tokenUsage.finishRun('commit');
       }
 
       // Ask for branch confirmation
@@ -345,35 +964,48 @@ export class CommitProcessor {
         console.log();
         console.log(chalk.yellow('⚠️  No staged changes found'));
         console.log(chalk.blue('💡 Use git add to stage changes first'));
-        return;
+        return tokenUsage.finishRun('commit');
       }
 
-      DisplayService.displayProgress('🤖 Generating commit message...');
       const messageLength = (options.length as 'short' | 'medium' | 'detailed') || 'detailed';
-
-      // Get detailed diff content for better analysis
-      DisplayService.displayProgress('Analyzing code changes...');
-      const diffContent = await this.gitService.getStagedDiff();
-
-      // Generate commit message with detailed diff analysis
-      const commitMessage = await aiService.generateDetailedCommitMessage(
-        updatedChanges,
-        diffContent,
-        {
-          conventional: options.conventional || false,
-          emoji: options.emoji || false,
-          length: messageLength,
+      const messageOptions = {
+        conventional: options.conventional || false,
+        emoji: options.emoji || false,
+        length: messageLength,
+      };
+
+      let commitMessage: string;
+      if (options.candidates) {
+        const selectedMessage = await this.selectCommitMessage(
+          aiService,
+          updatedChanges,
+          messageOptions,
+          Number(options.candidates)
+        );
+        if (!selectedMessage) {
+          console.log();
+          console.log(chalk.yellow('❌ Commit cancelled by user'));
+          return tokenUsage.finishRun('commit');
         }
-      );
-      DisplayService.displayProgress('Commit message generated', true);
+        commitMessage = selectedMessage;
+      } else {
+        DisplayService.displayProgress('🤖 Generating commit message...');
+
+        // Generate commit message with detailed diff analysis
+        DisplayService.displayProgress('Analyzing code changes...');
+        commitMessage = await this.generateCommitMessage(aiService, updatedChanges, messageOptions);
+        DisplayService.displayProgress('Commit message generated', true);
+      }
 
       // Display the generated message
       DisplayService.displayCommitMessage(commitMessage, {
         conventional: options.conventional || false,
         emoji: options.emoji || false,
       });
+      await this.displayCommitViolations(commitMessage);
 
       // Step 3: Commit changes (auto mode - no confirmation needed)
+      await this.checkSecretsBeforeCommit();
       DisplayService.displayProgress('Committing changes...');
       await this.gitService.commitChanges(commitMessage);
       DisplayService.displayProgress('Changes committed successfully', true);
@@ -407,10 +1039,14 @@ export class CommitProcessor {
         console.log(chalk.yellow('⚠️  No remote repository configured, skipping push'));
       }
 
+      // Finish before the report, which counts its own usage
+      const usage = await tokenUsage.finishRun('commit');
+
       // Handle report generation in auto workflow
       if (options.report) {
         await this.handleReportGeneration(options);
       }
+      return usage;
     } catch (error) {
       console.log();
       console.error(chalk.red('❌ Auto workflow failed'));
@@ -488,12 +1124,13 @@ export class CommitProcessor {
    * Handle auto-branch generation workflow
    */
   private async handleAutoBranchGeneration(
-    aiService: AIService | CloudAIService,
+    aiService: FallbackAIService,
     changes: StagedChanges,
-    commitMessage: string
+    commitMessage: string,
+    ticket?: string
   ): Promise<void> {
     DisplayService.displayProgress('Generating branch name...');
-    const generatedBranchName = await aiService.generateBranchName(changes);
+    const generatedBranchName = await aiService.generateBranchName(changes, ticket);
     DisplayService.displayProgress('Branch name generated', true);
 
     // Show proposal and ask for confirmation
@@ -515,10 +1152,11 @@ export class CommitProcessor {
    * Generate and create branch for auto-branch mode
    */
   private async generateAndCreateBranch(
-    aiService: AIService | CloudAIService,
-    changes: StagedChanges
+    aiService: FallbackAIService,
+    changes: StagedChanges,
+    ticket?: string
   ): Promise<string> {
-    let generatedBranchName = await aiService.generateBranchName(changes);
+    let generatedBranchName = await aiService.generateBranchName(changes, ticket);
 
     // Check for conflicts and regenerate if needed
     let attempts = 0;
@@ -538,7 +1176,8 @@ export class CommitProcessor {
       generatedBranchName = await aiService.generateAlternativeBranchName(
         changes,
         existingBranches,
-        generatedBranchName
+        generatedBranchName,
+        ticket
       );
       DisplayService.displayProgress(`Generated alternative branch: ${generatedBranchName}`, true);
     }
@@ -577,6 +1216,7 @@ export class CommitProcessor {
       console.log(chalk.gray('Command that would be executed:'));
       console.log(chalk.white(`   git commit -m "${commitMessage}"`));
     } else {
+      await this.checkSecretsBeforeCommit();
       DisplayService.displayProgress('Committing changes...');
       try {
         await this.gitService.commitChanges(commitMessage);
@@ -0,0 +1,170 @@
+import { GitService } from './git.js';
+import { parseUnifiedDiff } from '../utils/diff-parser.js';
+import { estimateTokens } from '../utils/commit-chunks.js';
+import { CommitPlan, CommitPlanGroup, SplitChange } from '../types/index.js';
+
+/**
+ * Lines of each hunk shown to the AI when planning; enough to see what the change does
+ */
+const MAX_PREVIEW_LINES = 40;
+
+/**
+ * Service responsible for splitting staged changes into several commits
+ * Breaks the staged diff into files and hunks, checks the AI's plan against them and
+ * replays the plan through the index, restoring the original index if anything fails
+ */
+export class CommitSplitter {
+  private readonly gitService: GitService;
+
+  constructor(gitService: GitService = new GitService()) {
+    this.gitService = gitService;
+  }
+
+  /**
+   * Break the staged diff into changes that can be committed independently
+   * Files are split into hunks where possible; new, deleted, renamed and binary files,
+   * mode changes and single-hunk files stay whole
+   */
+  public async getStagedChanges(): Promise<SplitChange[]> {
+    const files = parseUnifiedDiff(await this.gitService.getStagedPatch());
+
+    return files.flatMap(file => {
+      const splittable =
+        file.hunks.length > 1 &&
+        !file.isBinary &&
+        !file.header.some(line =>
+          /^(new file mode|deleted file mode|rename from|copy from|old mode) /.test(line)
+        );
+
+      if (!splittable) {
+        return [
+          {
+            id: file.path,
+            path: file.path,
+            patch: [...file.header, ...file.hunks.flat()].join('\n'),
+            insertions: file.insertions,
+            deletions: file.deletions,
+          },
+        ];
+      }
+
+      return file.hunks.map((hunk, index) => ({
+        id: `${file.path}#${index + 1}`,
+        path: file.path,
+        patch: [...file.header, ...hunk].join('\n'),
+        insertions: hunk.filter(line => line.startsWith('+')).length,
+        deletions: hunk.filter(line => line.startsWith('-')).length,
+      }));
+    });
+  }
+
+  /**
+   * Describe the changes for the planning prompt, trimming hunk previews to the token budget
+   */
+  public describeChanges(changes: readonly SplitChange[], budget: number): string {
+    let used = 0;
+
+    return changes
+      .map(change => {
+        const heading = `### ${change.id} (+${change.insertions} -${change.deletions})`;
+        const hunkLines = change.patch.split('\n').filter(line => /^[ +\-@]/.test(line));
+        const preview = hunkLines
+          .filter(line => !line.startsWith('+++') && !line.startsWith('---'))
+          .slice(0, MAX_PREVIEW_LINES)
+          .join('\n');
+
+        const cost = estimateTokens(preview);
+        if (used + cost > budget) {
+          return heading;
+        }
+        used += cost;
+        return `${heading}\n${preview}`;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Check a proposed plan against the staged changes
+   * A file id stands for all of its hunks, unknown ids are dropped, every change is used
+   * at most once and changes the plan does not mention are reported as unassigned
+   */
+  public normalizePlan(
+    groups: readonly CommitPlanGroup[],
+    changes: readonly SplitChange[]
+  ): CommitPlan {
+    const assigned = new Set<string>();
+
+    const normalized = groups.flatMap(group => {
+      const ids = group.changes
+        .flatMap(id =>
+          changes
+            .filter(change => change.id === id.trim() || change.path === id.trim())
+            .map(change => change.id)
+        )
+        .filter(id => {
+          if (assigned.has(id)) {
+            return false;
+          }
+          assigned.add(id);
+          return true;
+        });
+      return ids.length > 0 ? [{ message: group.message, changes: ids }] : [];
+    });
+
+    return {
+      groups: normalized,
+      unassigned: changes.map(change => change.id).filter(id => !assigned.has(id)),
+    };
+  }
+
+  /**
+   * Make one commit per group, in order
+   * Unassigned changes stay staged afterwards. On any failure HEAD and the index are
+   * restored to their state before the first commit and the error is rethrown.
+   * @returns Number of commits made
+   */
+  public async execute(plan: CommitPlan, changes: readonly SplitChange[]): Promise<number> {
+    const snapshot = await this.gitService.snapshotIndex();
+
+    try {
+      await this.gitService.resetIndexTo(snapshot.head);
+      let head = snapshot.head;
+      for (const group of plan.groups) {
+        await this.gitService.applyToIndex(this.buildPatch(group, changes));
+        await this.gitService.commitChanges(group.message);
+
+        // A commit rejected by a silent hook does not always surface as an error
+        const next = await this.gitService.getHeadCommit();
+        if (next === head) {
+          throw new Error(`Commit "${group.message.split('\n')[0]}" was not created`);
+        }
+        head = next;
+      }
+
+      // The original staged tree minus what was committed leaves exactly the unassigned changes
+      await this.gitService.resetIndexTo(snapshot.tree);
+      return plan.groups.length;
+    } catch (error) {
+      await this.gitService.restoreIndex(snapshot);
+      throw error;
+    }
+  }
+
+  /**
+   * Combine the changes of a group into one patch, with the hunks of a file under a
+   * single header in their original order
+   */
+  private buildPatch(group: CommitPlanGroup, changes: readonly SplitChange[]): string {
+    const selected = changes.filter(change => group.changes.includes(change.id));
+
+    return selected
+      .map((change, index) => {
+        if (selected[index - 1]?.path !== change.path) {
+          return change.patch;
+        }
+        const lines = change.patch.split('\n');
+        return lines.slice(lines.findIndex(line => line.startsWith('@@'))).join('\n');
+      })
+      .join('\n');
+  }
+}
@@ -0,0 +1,66 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { GitService } from './git.js';
+import { deriveCommitStyle } from '../utils/commit-style.js';
+import { CommitStyleProfile } from '../types/index.js';
+
+/**
+ * Commit subjects sampled when learning a repository's style
+ */
+const STYLE_SAMPLE_SIZE = 200;
+
+/**
+ * Days a learned style is reused before the history is sampled again
+ */
+const STYLE_CACHE_DAYS = 7;
+
+/**
+ * Cache file, kept inside the repository's git directory
+ */
+const STYLE_CACHE_FILE = 'devsum-commit-style.json';
+
+/**
+ * Service responsible for learning how a repository writes its commit messages
+ * Samples recent subjects and caches the resulting profile per repository
+ */
+export class CommitStyleService {
+  private readonly gitService: GitService;
+
+  constructor(gitService: GitService = new GitService()) {
+    this.gitService = gitService;
+  }
+
+  /**
+   * Get the repository's commit style, from the cache when it is recent enough
+   * @returns The profile, or null when the history is too short to learn from
+   */
+  public async getProfile(): Promise<CommitStyleProfile | null> {
+    const cachePath = await this.gitService.getGitPath(STYLE_CACHE_FILE);
+
+    const cached = await this.readCache(cachePath);
+    if (cached) {
+      return cached;
+    }
+
+    const subjects = await this.gitService.getRecentSubjects(STYLE_SAMPLE_SIZE);
+    const profile = deriveCommitStyle(subjects);
+    if (profile) {
+      // A cache that cannot be written only means the history is sampled again next time
+      await fs
+        .mkdir(path.dirname(cachePath), { recursive: true })
+        .then(() => fs.writeFile(cachePath, JSON.stringify(profile, null, 2)))
+        .catch(() => undefined);
+    }
+    return profile;
+  }
+
+  private async readCache(cachePath: string): Promise<CommitStyleProfile | null> {
+    try {
+      const profile: CommitStyleProfile = JSON.parse(await fs.readFile(cachePath, 'utf-8'));
+      const age = Date.now() - new Date(profile.createdAt).getTime();
+      return age >= 0 && age < STYLE_CACHE_DAYS * 24 * 60 * 60 * 1000 ? profile : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -1,5 +1,50 @@
+import fs from 'fs/promises';
+import path from 'path';
 import chalk from 'chalk';
+import yaml from 'js-yaml';
 import { GitService } from './git.js';
+import { configManager } from './config.js';
+import { CONVENTIONAL_PRESET, lintCommitMessage } from '../utils/commitlint.js';
+import { DEFAULT_TICKET_PATTERN, isTicketKey } from '../utils/ticket.js';
+import {
+  CommitLintRules,
+  CommitLintSettings,
+  CommitLintViolation,
+  CommitRuleSet,
+  RevisionSelection,
+} from '../types/index.js';
+
+/**
+ * Commitlint config files looked up in the repository root, in commitlint's order
+ */
+const COMMITLINT_FILES = [
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.yaml',
+  '.commitlintrc.yml',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  '.commitlintrc.mjs',
+  '.commitlintrc.ts',
+  'commitlint.config.js',
+  'commitlint.config.cjs',
+  'commitlint.config.mjs',
+  'commitlint.config.ts',
+];
+
+/**
+ * JavaScript and TypeScript configs, which would run code from the repository and are
+ * therefore never loaded
+ */
+const SCRIPT_CONFIG_PATTERN = /\.[cm]?[jt]s$/;
+
+/**
+ * Presets devsum ships a copy of; other presets would have to be imported from the
+ * repository's node_modules and are skipped
+ */
+const BUILT_IN_PRESETS: Readonly<Record<string, CommitLintRules>> = {
+  '@commitlint/config-conventional': CONVENTIONAL_PRESET,
+};
 
 /**
  * Service responsible for validating commit command inputs and options
@@ -8,6 +53,16 @@ import { GitService } from './git.js';
 export class CommitValidator {
   private readonly gitService: GitService;
 
+  /**
+   * Most commit message candidates requested at once
+   */
+  public static readonly MAX_CANDIDATES = 5;
+
+  /**
+   * Times a generated message that breaks the commit rules is sent back to the AI
+   */
+  public static readonly MAX_LINT_RETRIES = 2;
+
   constructor() {
     this.gitService = new GitService();
   }
@@ -23,6 +78,97 @@ export class CommitValidator {
     return null;
   }
 
+  /**
+   * Validate the number of commit message candidates
+   */
+  public validateCandidateCount(candidates?: string): string | null {
+    if (candidates === undefined) {
+      return null;
+    }
+    const count = Number(candidates);
+    if (!Number.isInteger(count) || count < 1 || count > CommitValidator.MAX_CANDIDATES) {
+      return `Invalid --candidates value: "${candidates}". Use a number from 1 to ${CommitValidator.MAX_CANDIDATES}`;
+    }
+    return null;
+  }
+
+  /**
+   * Load the commit rules for the current repository
+   * Looks for a JSON or YAML commitlint config in the repository root, then the "commitlint"
+   * field of package.json, then the commitlint section of the devsum config
+   * @returns The rules and where they came from, or null when none are configured
+   * @throws When the repository only has a JavaScript or TypeScript commitlint config
+   */
+  public async loadCommitRules(): Promise<CommitRuleSet | null> {
+    const root = await this.gitService.getRepoRoot();
+    let scriptConfig: string | undefined;
+
+    for (const file of COMMITLINT_FILES) {
+      const filePath = path.join(root, file);
+      const exists = await fs
+        .access(filePath)
+        .then(() => true)
+        .catch(() => false);
+      if (!exists) {
+        continue;
+      }
+      if (SCRIPT_CONFIG_PATTERN.test(file)) {
+        scriptConfig ??= file;
+        continue;
+      }
+      const settings = await this.readCommitLintFile(filePath);
+      return { source: file, rules: this.resolveCommitRules(settings) };
+    }
+
+    try {
+      const packageJson = JSON.parse(await fs.readFile(path.join(root, 'package.json'), 'utf-8'));
+      if (packageJson.commitlint) {
+        return { source: 'package.json', rules: this.resolveCommitRules(packageJson.commitlint) };
+      }
+    } catch {
+      // No package.json, or not one we can read
+    }
+
+    const config = await configManager.loadConfig();
+    if (config?.commitlint) {
+      return {
+        source: configManager.getConfigPath(),
+        rules: this.resolveCommitRules(config.commitlint),
+      };
+    }
+
+    if (scriptConfig) {
+      throw new Error(
+        `${scriptConfig} is a script commitlint config, which devsum does not run. Move the rules to .commitlintrc.json or .commitlintrc.yml, or copy them to the commitlint section of the devsum config`
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Check a commit message against commit rules
+   * @returns Broken rules, errors first; empty when the message passes
+   */
+  public validateCommitMessage(message: string, rules: CommitLintRules): CommitLintViolation[] {
+    return lintCommitMessage(message, rules);
+  }
+
+  /**
+   * Validate the configured ticket pattern and the --ticket value against it
+   */
+  public validateTicket(ticket?: string, pattern: string = DEFAULT_TICKET_PATTERN): string | null {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return `Invalid ticket pattern in the devsum config: "${pattern}" is not a regular expression`;
+    }
+
+    if (ticket !== undefined && !isTicketKey(ticket, pattern)) {
+      return `Invalid --ticket value: "${ticket}". Ticket keys must match /${pattern}/`;
+    }
+    return null;
+  }
+
   /**
    * Validate git repository exists
    */
@@ -138,6 +284,108 @@ export class CommitValidator {
     return null;
   }
 
+  /**
+   * Validate max commits parameter
+   */
+  public validateMaxCommits(maxCommits?: string): string | null {
+    if (maxCommits === undefined) {
+      return null;
+    }
+
+    const value = Number(maxCommits);
+    if (!Number.isInteger(value) || value < 1) {
+      return `Invalid --max-commits value: "${maxCommits}". Use a positive whole number like 500`;
+    }
+    return null;
+  }
+
+  /**
+   * Validate report chunk strategy parameter
+   */
+  public validateChunkStrategy(chunkBy?: string): string | null {
+    const validStrategies = ['week', 'author', 'directory'];
+    if (chunkBy && !validStrategies.includes(chunkBy)) {
+      return `Invalid --chunk-by value: "${chunkBy}". Valid options: ${validStrategies.join(', ')}`;
+    }
+    return null;
+  }
+
+  /**
+   * Validate revision range options and check that every referenced ref exists
+   */
+  public async validateRevisionSelection(selection: RevisionSelection): Promise<string | null> {
+    const scopes = [
+      selection.range && '--range',
+      selection.fromTag && '--from-tag',
+      selection.branch && '--branch',
+    ].filter(Boolean);
+    if (scopes.length > 1) {
+      return `${scopes.join(' and ')} cannot be combined. Use only one of --range, --from-tag or --branch`;
+    }
+
+    if (selection.to && (selection.range || selection.branch)) {
+      return '--to can only be combined with --from-tag';
+    }
+
+    const refs: Array<{ ref: string; option: string }> = [];
+    if (selection.range) {
+      const endpoints = selection.range.split(/\.{2,3}/);
+      if (endpoints.length > 2) {
+        return `Invalid --range value: "${selection.range}". Use a range like v1.6.0..v1.7.0`;
+      }
+      // An empty side of a range means HEAD, as in git
+      refs.push(...endpoints.filter(ref => ref).map(ref => ({ ref, option: '--range' })));
+    }
+    if (selection.fromTag) refs.push({ ref: selection.fromTag, option: '--from-tag' });
+    if (selection.to) refs.push({ ref: selection.to, option: '--to' });
+    if (selection.branch) refs.push({ ref: selection.branch, option: '--branch' });
+
+    for (const { ref, option } of refs) {
+      if (!(await this.gitService.refExists(ref))) {
+        return `Unknown ref for ${option}: "${ref}". Check the tag, branch or commit name`;
+      }
+    }
+
+    if (selection.branch && !(await this.gitService.getDefaultBranch())) {
+      return 'Could not find a main or master branch to compare --branch against';
+    }
+
+    return null;
+  }
+
+  /**
+   * Read a commitlint config file: .json files are parsed as JSON, .commitlintrc and YAML
+   * files as YAML
+   */
+  private async readCommitLintFile(filePath: string): Promise<CommitLintSettings> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      if (filePath.endsWith('.json')) {
+        return JSON.parse(content);
+      }
+      // An extensionless .commitlintrc may be YAML or JSON; YAML reads both
+      return (yaml.load(content) ?? {}) as CommitLintSettings;
+    } catch (error) {
+      throw new Error(
+        `Could not read ${path.basename(filePath)}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Merge the rules of the presets a config extends under its own rules
+   * Only built-in presets are applied; others are skipped
+   */
+  private resolveCommitRules(settings: CommitLintSettings): CommitLintRules {
+    const presets = settings.extends === undefined ? [] : [settings.extends].flat();
+
+    let rules: CommitLintRules = {};
+    for (const preset of presets) {
+      rules = { ...rules, ...BUILT_IN_PRESETS[preset] };
+    }
+    return { ...rules, ...settings.rules };
+  }
+
   /**
    * Display validation error with helpful information
    */
@@ -248,7 +496,14 @@ export class CommitValidator {
   /**
    * Display help for no commits found
    */
-  public displayNoCommitsHelp(filters?: { since?: string; until?: string; author?: string }): void {
+  public displayNoCommitsHelp(filters?: {
+    since?: string | undefined;
+    until?: string | undefined;
+    author?: string | undefined;
+    paths?: string[] | undefined;
+    exclude?: string[] | undefined;
+    range?: string | undefined;
+  }): void {
     console.log();
     console.log(chalk.blue('💡 Try adjusting your filters:'));
     console.log(
@@ -267,7 +522,14 @@ export class CommitValidator {
     console.log(chalk.white('  devsum report                    '), chalk.gray('# All commits'));
 
     // Show current filters for debugging
-    if (filters?.since || filters?.until || filters?.author) {
+    if (
+      filters?.since ||
+      filters?.until ||
+      filters?.author ||
+      filters?.paths ||
+      filters?.exclude ||
+      filters?.range
+    ) {
       console.log();
       console.log(chalk.gray('Current filters applied:'));
       if (filters.since) {
@@ -285,6 +547,9 @@ export class CommitValidator {
         console.log(chalk.gray(`  --until: ${displayUntil}`));
       }
       if (filters.author) console.log(chalk.gray(`  --author: ${filters.author}`));
+      if (filters.paths) console.log(chalk.gray(`  --path: ${filters.paths.join(' ')}`));
+      if (filters.exclude) console.log(chalk.gray(`  --exclude: ${filters.exclude.join(' ')}`));
+      if (filters.range) console.log(chalk.gray(`  range: ${filters.range}`));
     }
   }
 
@@ -299,6 +564,17 @@ export class CommitValidator {
     return null;
   }
 
+  /**
+   * Validate changelog style parameter
+   */
+  public validateChangelogStyle(style?: string): string | null {
+    const validStyles = ['keep-a-changelog', 'standard-version'];
+    if (style && !validStyles.includes(style)) {
+      return `Invalid changelog style: "${style}". Valid options: ${validStyles.join(', ')}`;
+    }
+    return null;
+  }
+
   /**
    * Display help for analytics focus options
    */
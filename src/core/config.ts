@@ -240,6 +240,27 @@ export class ConfigManager {
     return defaultProvider || null;
   }
 
+  /**
+   * Get the providers to fall back on, in the configured order, leaving out the one in use
+   * @throws When the fallback list names a provider that is not configured
+   */
+  public async getFallbackProviders(primaryName?: string): Promise<AIProvider[]> {
+    const config = await this.loadConfig();
+    const names = (config?.fallbackProviders ?? []).filter(name => name !== primaryName);
+
+    const providers: AIProvider[] = [];
+    for (const name of new Set(names)) {
+      const provider = await this.getProvider(name);
+      if (!provider) {
+        throw new Error(
+          `Unknown provider "${name}" in fallbackProviders. Run "devsum setup" to add it or remove it from the list`
+        );
+      }
+      providers.push(provider);
+    }
+    return providers;
+  }
+
   /**
    * List all providers
    */
@@ -1,4 +1,5 @@
 import { AnalyticsData, DashboardConfig } from '../types/index.js';
+import { escapeHtml, toScriptLiteral } from '../utils/html.js';
 
 /**
  * Service responsible for generating interactive HTML dashboards
@@ -391,18 +392,40 @@ export class DashboardGenerator {
    * Generate dashboard header
    */
   private generateHeader(analyticsData: AnalyticsData): string {
-    const { repository, period, generatedAt } = analyticsData;
+    const { repository, period, generatedAt, metadata } = analyticsData;
     const generatedDate = new Date(generatedAt).toLocaleDateString();
+    const truncationWarning = metadata.truncated
+      ? `
+            <div style="margin-top: 10px; font-size: 0.9rem;">
+                ⚠️ Commit limit reached: only the newest ${metadata.maxCommits} matching commits were analyzed
+            </div>`
+      : '';
+    const pathFilters = [
+      metadata.paths?.include?.length
+        ? `Paths: ${escapeHtml(metadata.paths.include.join(', '))}`
+        : '',
+      metadata.paths?.exclude?.length
+        ? `Excluded: ${escapeHtml(metadata.paths.exclude.join(', '))}`
+        : '',
+    ]
+      .filter(filter => filter)
+      .join(' • ');
+    const pathFilterInfo = pathFilters
+      ? `
+            <div style="margin-top: 10px; font-size: 0.9rem; opacity: 0.8;">
+                📁 ${pathFilters}
+            </div>`
+      : '';
 
     return `
         <div class="header">
             <h1>📊 DevSum Analytics Dashboard</h1>
             <div class="subtitle">
-                ${repository.name} • ${repository.branch} • ${period.days} days analyzed
+                ${escapeHtml(repository.name)} • ${escapeHtml(repository.branch)} • ${period.days} days analyzed
             </div>
             <div style="margin-top: 15px; font-size: 0.9rem; opacity: 0.8;">
                 Generated on ${generatedDate}
-            </div>
+            </div>${pathFilterInfo}${truncationWarning}
         </div>
     `;
   }
@@ -642,7 +665,7 @@ export class DashboardGenerator {
   private generateJavaScript(analyticsData: AnalyticsData, config: DashboardConfig): string {
     return `
         // Analytics data
-        const analyticsData = ${JSON.stringify(analyticsData, null, 2)};
+        const analyticsData = ${toScriptLiteral(analyticsData)};
         
         // Initialize charts when DOM is loaded
         document.addEventListener('DOMContentLoaded', function() {
@@ -1,4 +1,18 @@
+import readline from 'readline';
 import chalk from 'chalk';
+import { getCommitAuthors } from '../utils/commit-authors.js';
+import { maskSecret } from '../utils/secret-scan.js';
+import { formatCost, groupUsage } from '../utils/token-pricing.js';
+import {
+  CacheStats,
+  CommitLintViolation,
+  CommitPlan,
+  ReportPreview,
+  SecretFinding,
+  SecretPolicy,
+  UsageLedgerEntry,
+  UsageRecord,
+} from '../types/index.js';
 
 /**
  * Service responsible for all console display operations
@@ -43,6 +57,17 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
 ╚═════╝ ╚══════╝  ╚═══╝  ╚══════╝ ╚═════╝ ╚═╝     ╚═╝
 `;
 
+  /**
+   * Narrowest column used when showing commit candidates side by side
+   */
+  private static readonly MIN_CANDIDATE_COLUMN_WIDTH = 36;
+
+  /**
+   * Lines of the streaming report preview currently on screen, redrawn on each update
+   */
+  private static previewLines = 0;
+  private static previewOutput = '';
+
   /**
    * Display commit command header
    */
@@ -94,6 +119,69 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
     console.log(color(`${icon} ${step}`));
   }
 
+  /**
+   * Display progress of a chunked (map-reduce) report
+   */
+  public static displayChunkProgress(current: number, total: number, label: string): void {
+    console.log(chalk.blue(`⏳ Summarizing chunk ${current}/${total}`), chalk.gray(`(${label})`));
+  }
+
+  /**
+   * Show a report while it streams in, redrawing it in place
+   * Only drawn on a terminal, so piped output stays free of cursor movement
+   */
+  public static displayReportPreview(preview: ReportPreview): void {
+    if (!process.stdout.isTTY || (!preview.summary && preview.accomplishments.length === 0)) {
+      return;
+    }
+
+    const width = Math.max(20, (process.stdout.columns || 80) - 6);
+    const lines = [
+      chalk.cyan.bold('📝 Summary'),
+      ...DisplayService.wrapText(preview.summary, width).map(line => chalk.white(`   ${line}`)),
+    ];
+    if (preview.accomplishments.length > 0) {
+      lines.push('', chalk.cyan.bold('🏆 Accomplishments'));
+      for (const item of preview.accomplishments) {
+        const wrapped = DisplayService.wrapText(item, width);
+        lines.push(
+          ...wrapped.map((line, index) => chalk.white(`${index === 0 ? '   • ' : '     '}${line}`))
+        );
+      }
+    }
+
+    // Lines scrolled off the screen cannot be redrawn, so only the end is kept
+    const output = lines.slice(-Math.max(1, (process.stdout.rows || 24) - 2)).join('\n');
+    if (output === DisplayService.previewOutput) {
+      return;
+    }
+
+    if (DisplayService.previewLines > 0) {
+      readline.moveCursor(process.stdout, 0, -DisplayService.previewLines);
+      readline.clearScreenDown(process.stdout);
+    }
+    process.stdout.write(`${output}\n`);
+    DisplayService.previewLines = output.split('\n').length;
+    DisplayService.previewOutput = output;
+  }
+
+  /**
+   * Leave the streamed report on screen, so the next output goes below it
+   */
+  public static endReportPreview(): void {
+    DisplayService.previewLines = 0;
+    DisplayService.previewOutput = '';
+  }
+
+  /**
+   * Display that the user cancelled a running request
+   */
+  public static displayCancelled(context: string): void {
+    DisplayService.endReportPreview();
+    console.log();
+    console.log(chalk.yellow(`⚠️  ${context} cancelled`));
+  }
+
   /**
    * Display branch information
    */
@@ -301,6 +389,256 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
     console.log(chalk.green('═'.repeat(55)));
   }
 
+  /**
+   * Display commit message candidates, side by side when the terminal is wide enough
+   */
+  public static displayCommitCandidates(candidates: readonly string[]): void {
+    const gap = 3;
+    const terminalWidth = process.stdout.columns || 80;
+    const columnWidth = Math.floor(
+      (terminalWidth - gap * (candidates.length - 1)) / candidates.length
+    );
+
+    console.log();
+    console.log(chalk.green('═'.repeat(55)));
+    console.log(chalk.green.bold('💬 Commit Message Candidates'));
+    console.log();
+
+    if (candidates.length > 1 && columnWidth >= this.MIN_CANDIDATE_COLUMN_WIDTH) {
+      const columns = candidates.map(candidate => this.wrapText(candidate, columnWidth));
+      const rowCount = Math.max(...columns.map(column => column.length));
+
+      const joinRow = (cells: readonly string[]): string =>
+        cells
+          .map(cell => cell.padEnd(columnWidth))
+          .join(' '.repeat(gap))
+          .trimEnd();
+
+      console.log(chalk.cyan.bold(joinRow(candidates.map((_, index) => `Option ${index + 1}`))));
+      console.log(chalk.gray(joinRow(candidates.map(() => '─'.repeat(columnWidth)))));
+      for (let row = 0; row < rowCount; row++) {
+        console.log(chalk.white(joinRow(columns.map(column => column[row] ?? ''))));
+      }
+      console.log();
+    } else {
+      candidates.forEach((candidate, index) => {
+        console.log(chalk.cyan.bold(`Option ${index + 1}`));
+        candidate.split('\n').forEach(line => console.log(chalk.white(`   ${line}`)));
+        console.log();
+      });
+    }
+
+    console.log(chalk.green('═'.repeat(55)));
+  }
+
+  /**
+   * Display a plan for splitting staged changes into several commits
+   */
+  public static displayCommitPlan(plan: CommitPlan): void {
+    console.log();
+    console.log(chalk.green('═'.repeat(55)));
+    console.log(chalk.green.bold(`🧩 Proposed Commits (${plan.groups.length})`));
+    console.log();
+
+    plan.groups.forEach((group, index) => {
+      const [subject, ...body] = group.message.split('\n');
+      console.log(chalk.cyan.bold(`${index + 1}. ${subject}`));
+      body
+        .filter(line => line.trim())
+        .forEach(line => console.log(chalk.white(`   ${line.trim()}`)));
+      group.changes.forEach(id => console.log(chalk.gray(`   • ${id}`)));
+      console.log();
+    });
+
+    if (plan.unassigned.length > 0) {
+      console.log(chalk.yellow('⚠️  Not in any commit (will stay staged):'));
+      plan.unassigned.forEach(id => console.log(chalk.gray(`   • ${id}`)));
+      console.log();
+    }
+
+    console.log(chalk.green('═'.repeat(55)));
+  }
+
+  /**
+   * Display the commit rules a message still breaks
+   * @param source Where the rules were loaded from
+   * @param label Which message is meant, when there are several
+   */
+  public static displayCommitViolations(
+    violations: readonly CommitLintViolation[],
+    source: string,
+    label?: string
+  ): void {
+    const count = `${violations.length} commit rule${violations.length === 1 ? '' : 's'}`;
+    console.log();
+    console.log(chalk.yellow(`⚠️  ${label ?? 'Commit message'} breaks ${count} from ${source}:`));
+    violations.forEach(violation => {
+      const icon = violation.level === 2 ? chalk.red('✖') : chalk.yellow('⚠');
+      console.log(
+        `   ${icon} ${chalk.white(violation.message)} ${chalk.gray(`[${violation.rule}]`)}`
+      );
+    });
+  }
+
+  /**
+   * Display possible secrets found in a diff, masked
+   * @param source What was scanned, as shown in the message
+   */
+  public static displaySecretFindings(
+    findings: readonly SecretFinding[],
+    policy: SecretPolicy,
+    source: string = 'the staged changes'
+  ): void {
+    const actions: Record<SecretPolicy, string> = {
+      redact: 'they are redacted before the diff is sent to the AI',
+      block: 'nothing is sent to the AI',
+      warn: 'the diff is sent to the AI unchanged',
+    };
+    const count = `${findings.length} possible secret${findings.length === 1 ? '' : 's'}`;
+    console.log();
+    console.log(chalk.yellow(`⚠️  Found ${count} in ${source}, ${actions[policy]}:`));
+    findings.forEach(finding => {
+      console.log(
+        `   ${chalk.red('✖')} ${chalk.white(`${finding.path}:${finding.line}`)} ${finding.description} ${chalk.gray(`(${maskSecret(finding.secret)}) [${finding.rule}]`)}`
+      );
+    });
+  }
+
+  /**
+   * Display that an AI request failed and is about to be repeated
+   * @param attempt One-based retry number
+   */
+  public static displayRetry(
+    provider: string,
+    error: unknown,
+    attempt: number,
+    retries: number,
+    delayMs: number
+  ): void {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.log(
+      chalk.yellow(
+        `⏳ ${provider} request failed (${reason}), retrying in ${(delayMs / 1000).toFixed(1)}s (${attempt}/${retries})`
+      )
+    );
+  }
+
+  /**
+   * Display that a provider gave up and the next one in the fallback chain takes over
+   */
+  public static displayFallback(failed: string, next: string, error: unknown): void {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.log(chalk.yellow(`⚠️  ${failed} failed: ${reason}`));
+    console.log(chalk.blue(`🔁 Falling back to ${next}`));
+  }
+
+  /**
+   * Display that a response came from the local cache instead of the provider
+   */
+  public static displayCacheHit(): void {
+    console.log(chalk.gray('♻️  Using cached AI response (run with --no-cache to regenerate)'));
+  }
+
+  /**
+   * Display the tokens a run used and what they cost, below the processing time
+   * Nothing is shown when the run made no AI requests, e.g. when every answer was cached
+   */
+  public static displayTokenUsage(usage: readonly UsageRecord[]): void {
+    if (usage.length > 0) {
+      console.log(chalk.gray(`🪙 Tokens: ${DisplayService.describeTokenUsage(usage)}`));
+    }
+  }
+
+  /**
+   * Display the usage ledger broken down by command, provider and model
+   */
+  public static displayUsageBreakdown(entries: readonly UsageLedgerEntry[], period: string): void {
+    console.log();
+    console.log(chalk.cyan.bold(`🪙 AI Usage ${period}`));
+    if (entries.length === 0) {
+      console.log(chalk.gray('  No AI requests recorded'));
+      return;
+    }
+
+    const requests = entries.reduce((sum, entry) => sum + entry.requests, 0);
+    console.log(
+      chalk.white(`  Total: ${requests} requests, ${DisplayService.describeTokenUsage(entries)}`)
+    );
+
+    const breakdowns: [string, (entry: UsageLedgerEntry) => string][] = [
+      ['By command', entry => entry.command],
+      ['By provider', entry => entry.provider],
+      ['By model', entry => entry.model],
+    ];
+    for (const [title, getKey] of breakdowns) {
+      const groups = groupUsage(entries, getKey);
+      const width = Math.max(...groups.map(({ key }) => key.length));
+      console.log();
+      console.log(chalk.blue(`  ${title}`));
+      for (const { key, usage } of groups) {
+        const approx = usage.estimated ? '~' : '';
+        const requests = String(usage.requests).padStart(5);
+        const input = `${approx}${usage.inputTokens.toLocaleString()}`.padStart(12);
+        const output = `${approx}${usage.outputTokens.toLocaleString()}`.padStart(10);
+        const cost = usage.cost === undefined ? 'no price' : formatCost(usage.cost);
+        console.log(
+          chalk.gray(
+            `    ${key.padEnd(width)}  ${requests} requests  ${input} in  ${output} out  ${cost}`
+          )
+        );
+      }
+    }
+
+    if (entries.some(entry => entry.estimated)) {
+      console.log();
+      console.log(
+        chalk.gray('  ~ includes estimated counts (Ollama, DevSum Cloud, or no usage reported)')
+      );
+    }
+  }
+
+  /**
+   * Describe total tokens and cost, e.g. "12,345 in, 678 out ($0.0472)"
+   * Estimated counts are marked with ~, and models without a price are named
+   */
+  private static describeTokenUsage(usage: readonly UsageRecord[]): string {
+    const inputTokens = usage.reduce((sum, record) => sum + record.inputTokens, 0);
+    const outputTokens = usage.reduce((sum, record) => sum + record.outputTokens, 0);
+    const cost = usage.reduce((sum, record) => sum + (record.cost ?? 0), 0);
+    const approx = usage.some(record => record.estimated) ? '~' : '';
+    const unpriced = [
+      ...new Set(usage.filter(record => record.cost === undefined).map(record => record.model)),
+    ];
+
+    const tokens = `${approx}${inputTokens.toLocaleString()} in, ${approx}${outputTokens.toLocaleString()} out`;
+    const price =
+      unpriced.length > 0
+        ? `${formatCost(cost)}, no price for ${unpriced.join(', ')}; add it to "pricing" in the config`
+        : formatCost(cost);
+    return `${tokens} (${price})`;
+  }
+
+  /**
+   * Display the contents and limits of the response cache
+   */
+  public static displayCacheStats(stats: CacheStats): void {
+    const sizeMb = (stats.sizeBytes / 1024 / 1024).toFixed(2);
+
+    console.log();
+    console.log(chalk.cyan.bold('♻️  AI Response Cache'));
+    console.log(chalk.gray(`  Location: ${stats.directory}`));
+    console.log(
+      chalk.gray(`  Enabled:  ${stats.settings.enabled ? chalk.green('Yes') : chalk.red('No')}`)
+    );
+    console.log(chalk.gray(`  Entries:  ${stats.entries} (${stats.expiredEntries} expired)`));
+    console.log(chalk.gray(`  Size:     ${sizeMb} MB of ${stats.settings.maxSizeMb} MB`));
+    console.log(chalk.gray(`  TTL:      ${stats.settings.ttlDays} days`));
+    if (stats.oldest && stats.newest) {
+      console.log(chalk.gray(`  Oldest:   ${stats.oldest.toLocaleString()}`));
+      console.log(chalk.gray(`  Newest:   ${stats.newest.toLocaleString()}`));
+    }
+  }
+
   /**
    * Display auto-branch proposal
    */
@@ -366,9 +704,12 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
     commits: any[],
     branch: string,
     filters?: {
-      since?: string;
-      until?: string;
-      author?: string;
+      since?: string | undefined;
+      until?: string | undefined;
+      author?: string | undefined;
+      paths?: string[] | undefined;
+      exclude?: string[] | undefined;
+      range?: string | undefined;
     }
   ): void {
     console.log();
@@ -379,7 +720,14 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
     console.log(chalk.white(`📝 Commits: ${chalk.green(commits.length)}`));
 
     // Show applied filters
-    if (filters?.since || filters?.until || filters?.author) {
+    if (
+      filters?.since ||
+      filters?.until ||
+      filters?.author ||
+      filters?.paths ||
+      filters?.exclude ||
+      filters?.range
+    ) {
       console.log();
       console.log(chalk.yellow('🔍 Applied Filters:'));
       if (filters.since) {
@@ -399,10 +747,19 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
       if (filters.author) {
         console.log(chalk.gray(`   👤 Author: ${filters.author}`));
       }
+      if (filters.range) {
+        console.log(chalk.gray(`   🔀 Range: ${filters.range}`));
+      }
+      if (filters.paths) {
+        console.log(chalk.gray(`   📁 Paths: ${filters.paths.join(', ')}`));
+      }
+      if (filters.exclude) {
+        console.log(chalk.gray(`   🚫 Excluded: ${filters.exclude.join(', ')}`));
+      }
     }
 
     // Calculate stats
-    const authors = [...new Set(commits.map(c => c.author))];
+    const authors = [...new Set(commits.flatMap(c => getCommitAuthors(c)))];
 
     // Show today's date range when using 'today'
     let dateRange = null;
@@ -461,7 +818,8 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
     outputPath: string,
     commits: any[],
     processingTime: number,
-    reportLength?: string
+    reportLength?: string,
+    usage: readonly UsageRecord[] = []
   ): void {
     console.log();
     console.log(chalk.green('═'.repeat(55)));
@@ -472,6 +830,9 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
     console.log(chalk.gray(`   Size: ${commits.length} commits analyzed`));
     console.log(chalk.gray(`   Length: ${reportLength || 'detailed'}`));
     console.log(chalk.gray(`   Processing time: ${processingTime.toFixed(2)}s`));
+    if (usage.length > 0) {
+      console.log(chalk.gray(`   Tokens: ${DisplayService.describeTokenUsage(usage)}`));
+    }
     console.log();
 
     console.log(chalk.yellow("📖 What's in your report:"));
@@ -494,4 +855,26 @@ $$ |  $$ |$$ | \$$ |$$ |  $$ |$$$$$$$$\ $$ |       $$ |   $$$$$$\ \$$$$$$  |\$$$
     console.log(chalk.green('🚀 Great work! Share your accomplishments with the team!'));
     console.log(chalk.green('═'.repeat(55)));
   }
+
+  /**
+   * Word-wrap text to a width, indenting continuation lines of list items
+   */
+  private static wrapText(text: string, width: number): string[] {
+    return text.split('\n').flatMap(line => {
+      const indent = /^\s*[-*•]\s/.test(line) ? '  ' : '';
+      const wrapped: string[] = [];
+      let current = '';
+
+      for (const word of line.split(/\s+/).filter(Boolean)) {
+        if (current && current.length + 1 + word.length > width) {
+          wrapped.push(current);
+          current = `${indent}${word}`;
+        } else {
+          current = current ? `${current} ${word}` : word;
+        }
+      }
+
+      return [...wrapped, current];
+    });
+  }
 }
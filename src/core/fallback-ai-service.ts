@@ -0,0 +1,206 @@
+import { configManager } from './config.js';
+import { AIService } from './ai.js';
+import { CloudAIService } from './cloud-ai-service.js';
+import { DisplayService } from './display-service.js';
+import { providerRegistry } from './provider-registry.js';
+import {
+  AIProvider,
+  AIResponse,
+  CacheSettings,
+  ChangelogGroup,
+  CommitMessageOptions,
+  CommitPlanGroup,
+  GitCommit,
+  PullRequestContext,
+  PullRequestDescription,
+  ReportChunkStrategy,
+  ReportGenerationOptions,
+  ReportLength,
+  RetrySettings,
+  StagedChanges,
+} from '../types/index.js';
+
+/**
+ * Service that runs each AI request against a chain of providers
+ * Every provider retries transient failures itself; when it still fails, the next provider
+ * in the chain gets the same request
+ */
+export class FallbackAIService {
+  private readonly chain: readonly AIProvider[];
+  private readonly retry: RetrySettings;
+  private readonly cache: CacheSettings;
+  private readonly services = new Map<string, AIService | CloudAIService>();
+  private usedProvider: AIProvider | undefined;
+
+  constructor(chain: readonly AIProvider[], retry: RetrySettings = {}, cache: CacheSettings = {}) {
+    if (chain.length === 0) {
+      throw new Error('No AI provider configured. Run "devsum setup" first.');
+    }
+    this.chain = chain;
+    this.retry = retry;
+    this.cache = cache;
+  }
+
+  /**
+   * Create the service for a provider, followed by the fallback providers from the config
+   * Provider packages named in the config are loaded first
+   * @param useCache False to skip the response cache, as with --no-cache
+   */
+  public static async create(provider: AIProvider, useCache = true): Promise<FallbackAIService> {
+    const config = await configManager.loadConfig();
+    await providerRegistry.loadPackages(config?.providerPackages ?? []);
+    const fallbacks = await configManager.getFallbackProviders(provider.name);
+    const cache = useCache ? config?.cache : { ...config?.cache, enabled: false };
+    return new FallbackAIService([provider, ...fallbacks], config?.retry, cache);
+  }
+
+  /**
+   * Provider that answered the last successful request
+   */
+  public getUsedProvider(): AIProvider | undefined {
+    return this.usedProvider;
+  }
+
+  /**
+   * Generate accomplishment report from git commits
+   */
+  public generateReport(
+    commits: readonly GitCommit[],
+    length: ReportLength = 'detailed',
+    chunkBy: ReportChunkStrategy = 'week',
+    options: ReportGenerationOptions = {}
+  ): Promise<AIResponse> {
+    return this.run(
+      service => service.generateReport(commits, length, chunkBy, options),
+      options.signal
+    );
+  }
+
+  /**
+   * Generate commit message from staged changes
+   */
+  public generateCommitMessage(
+    changes: StagedChanges,
+    options: CommitMessageOptions
+  ): Promise<string> {
+    return this.run(service => service.generateCommitMessage(changes, options));
+  }
+
+  /**
+   * Generate commit message with detailed diff analysis
+   */
+  public generateDetailedCommitMessage(
+    changes: StagedChanges,
+    diffContent: string,
+    options: CommitMessageOptions
+  ): Promise<string> {
+    return this.run(service =>
+      service.generateDetailedCommitMessage(changes, diffContent, options)
+    );
+  }
+
+  /**
+   * Generate branch name from staged changes
+   */
+  public generateBranchName(changes: StagedChanges, ticket?: string): Promise<string> {
+    return this.run(service => service.generateBranchName(changes, ticket));
+  }
+
+  /**
+   * Generate alternative branch name when there's a conflict
+   */
+  public generateAlternativeBranchName(
+    changes: StagedChanges,
+    existingBranches: string[],
+    originalName: string,
+    ticket?: string
+  ): Promise<string> {
+    return this.run(service =>
+      service.generateAlternativeBranchName(changes, existingBranches, originalName, ticket)
+    );
+  }
+
+  /**
+   * Generate pull request title from staged changes
+   */
+  public generatePullRequestTitle(changes: StagedChanges, ticket?: string): Promise<string> {
+    return this.run(service => service.generatePullRequestTitle(changes, ticket));
+  }
+
+  /**
+   * Generate a pull request title and description from the commits and diff of a branch
+   */
+  public generatePullRequestDescription(
+    context: PullRequestContext
+  ): Promise<PullRequestDescription> {
+    return this.run(service => service.generatePullRequestDescription(context));
+  }
+
+  /**
+   * Rewrite the entries of a changelog group as user-facing release notes
+   */
+  public generateChangelogEntries(group: ChangelogGroup): Promise<string[]> {
+    return this.run(service => service.generateChangelogEntries(group));
+  }
+
+  /**
+   * Propose how to split staged changes into several commits
+   */
+  public generateCommitPlan(
+    changeList: string,
+    options: CommitMessageOptions
+  ): Promise<CommitPlanGroup[]> {
+    return this.run(service => service.generateCommitPlan(changeList, options));
+  }
+
+  /**
+   * Try the request with each provider in turn
+   * @param signal Once aborted, the error is thrown without trying the next provider
+   * @throws The last provider's error when every provider failed
+   */
+  private async run<T>(
+    request: (service: AIService | CloudAIService) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (const [index, provider] of this.chain.entries()) {
+      try {
+        const result = await request(this.getService(provider));
+        this.usedProvider = provider;
+        return result;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        lastError = error;
+        const next = this.chain[index + 1];
+        if (next) {
+          DisplayService.displayFallback(
+            FallbackAIService.describeProvider(provider),
+            FallbackAIService.describeProvider(next),
+            error
+          );
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Name a provider with its model, e.g. "claude (claude-3-5-sonnet-20241022)"
+   */
+  public static describeProvider(provider: AIProvider): string {
+    return `${provider.name} (${provider.model || AIService.getDefaultModel(provider.provider)})`;
+  }
+
+  private getService(provider: AIProvider): AIService | CloudAIService {
+    let service = this.services.get(provider.name);
+    if (!service) {
+      service = AIService.fromProvider(provider, this.retry, this.cache);
+      this.services.set(provider.name, service);
+    }
+    return service;
+  }
+}
@@ -1,6 +1,14 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { spawn } from 'child_process';
 import { simpleGit, SimpleGit } from 'simple-git';
 import {
   GitCommit,
+  CommitHistory,
+  CommitQueryOptions,
+  CommitFileStat,
+  CommitTrailer,
   StagedChanges,
   BranchInfo,
   RepositoryStats,
@@ -10,7 +18,13 @@ import {
   GitUserConfig,
   FileChangeInfo,
   FileChangeType,
+  PathFilters,
+  RevisionSelection,
+  IndexSnapshot,
 } from '../types/index.js';
+import { configManager } from './config.js';
+import { getCommitAuthors } from '../utils/commit-authors.js';
+import { parseDateFilter, toGitDate } from '../utils/date-filter.js';
 
 /**
  * Git service for repository operations
@@ -18,37 +32,294 @@ import {
  */
 export class GitService {
   private readonly git: SimpleGit;
+  private readonly baseDir: string;
+  private identityAliases: Promise<ReadonlyMap<string, string>> | null = null;
 
   constructor(baseDir?: string) {
-    this.git = simpleGit(baseDir || process.cwd());
+    this.baseDir = baseDir || process.cwd();
+    this.git = simpleGit(this.baseDir);
   }
 
+  /**
+   * Number of commits parsed and yielded per batch while git log streams
+   */
+  private static readonly LOG_PAGE_SIZE = 200;
+
+  /**
+   * ASCII record separator placed before every commit in git log output
+   */
+  private static readonly RECORD_SEPARATOR = '\x1e';
+
+  /**
+   * git log format with NUL separated header fields
+   * Order: hash, parents, author date, author, committer, subject, body
+   * Author and committer use the .mailmap aware placeholders
+   */
+  private static readonly LOG_FORMAT = '%x1e%H%x00%P%x00%ai%x00%aN <%aE>%x00%cN <%cE>%x00%s%x00%b';
+
+  /**
+   * Number of NUL separated header fields produced by LOG_FORMAT
+   */
+  private static readonly HEADER_FIELD_COUNT = 7;
+
   /**
    * Get git commits with optional filtering
    */
   public async getCommits(
     since?: string,
     until?: string,
-    author?: string
+    author?: string,
+    options: CommitQueryOptions = {}
   ): Promise<readonly GitCommit[]> {
+    const history = await this.getCommitHistory(since, until, author, options);
+    return history.commits;
+  }
+
+  /**
+   * Get git commits along with whether the max commit limit truncated them
+   */
+  public async getCommitHistory(
+    since?: string,
+    until?: string,
+    author?: string,
+    options: CommitQueryOptions = {}
+  ): Promise<CommitHistory> {
+    const { maxCommits } = options;
+    const commits: GitCommit[] = [];
+
+    // Read one commit past the limit to learn whether anything was left out
+    const limit = maxCommits === undefined ? undefined : maxCommits + 1;
+    const pageOptions = { ...options, maxCommits: limit };
+    for await (const page of this.streamCommits(since, until, author, pageOptions)) {
+      commits.push(...page);
+    }
+
+    const truncated = maxCommits !== undefined && commits.length > maxCommits;
+
+    return {
+      commits: truncated ? commits.slice(0, maxCommits) : commits,
+      truncated,
+      maxCommits,
+    };
+  }
+
+  /**
+   * Stream git commits in batches from a single git log process, parsing its output as it
+   * arrives so large histories never sit in one buffer
+   * Authors are resolved through .mailmap, configured aliases and Co-authored-by trailers,
+   * so the author filter matches people rather than raw email variants
+   */
+  public async *streamCommits(
+    since?: string,
+    until?: string,
+    author?: string,
+    options: CommitQueryOptions = {}
+  ): AsyncGenerator<readonly GitCommit[]> {
     this.validateDateFilters(since, until);
 
-    const args = this.buildGitLogArgs(since, until, author);
+    const matchesAuthor = author ? await this.createAuthorMatcher(author) : null;
+    const { maxCommits } = options;
+    const args = [
+      ...this.buildGitLogArgs(since, until),
+      // git can stop at the limit itself unless commits are filtered afterwards
+      ...(maxCommits !== undefined && !matchesAuthor ? [`--max-count=${maxCommits}`] : []),
+      ...(options.range ? [options.range] : []),
+      ...this.buildPathspecArgs(options.paths),
+    ];
+    let yielded = 0;
+
+    for await (const records of this.readLogRecords(args)) {
+      let commits = await this.resolveCommitIdentities(this.parseCommitRecords(records));
+      if (matchesAuthor) {
+        commits = commits.filter(matchesAuthor);
+      }
+      if (maxCommits !== undefined) {
+        commits = commits.slice(0, maxCommits - yielded);
+      }
 
-    try {
-      const result = await this.git.raw(args);
+      if (commits.length > 0) {
+        yield commits;
+        yielded += commits.length;
+      }
+      if (maxCommits !== undefined && yielded >= maxCommits) {
+        return;
+      }
+    }
+  }
 
-      if (!result?.trim()) {
-        return [];
+  /**
+   * Run git log once and read its output as batches of raw commit records
+   * git is stopped when the caller stops reading early
+   */
+  private async *readLogRecords(args: string[]): AsyncGenerator<string[]> {
+    const child = spawn('git', args, { cwd: this.baseDir, stdio: ['ignore', 'pipe', 'pipe'] });
+    let stderr = '';
+    let failure: Error | undefined;
+    child.stderr.setEncoding('utf8').on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+    const exitCode = new Promise<number | null>(resolve => {
+      child.once('close', resolve);
+      child.once('error', error => {
+        failure = error;
+        resolve(null);
+      });
+    });
+
+    try {
+      let pending = '';
+      let batch: string[] = [];
+      for await (const chunk of child.stdout.setEncoding('utf8')) {
+        // The last part may be a record cut off mid-way; it is completed by the next chunk
+        const parts = `${pending}${chunk as string}`.split(GitService.RECORD_SEPARATOR);
+        pending = parts.pop() ?? '';
+        batch.push(...parts.filter(record => record.trim()));
+        if (batch.length >= GitService.LOG_PAGE_SIZE) {
+          yield batch;
+          batch = [];
+        }
+      }
+      if (pending.trim()) {
+        batch.push(pending);
       }
 
-      const lines = result
-        .trim()
-        .split('\n')
-        .filter(line => line.trim());
-      return await this.processCommitLines(lines);
+      const code = await exitCode;
+      if (failure || code !== 0) {
+        throw failure ?? new Error(stderr.trim() || `git log exited with code ${code}`);
+      }
+      if (batch.length > 0) {
+        yield batch;
+      }
     } catch (error) {
       throw this.handleGitError(error);
+    } finally {
+      if (child.exitCode === null && !child.killed) {
+        child.kill();
+      }
+    }
+  }
+
+  /**
+   * Load configured identity aliases as a map from lowercase email to canonical identity
+   */
+  private loadIdentityAliases(): Promise<ReadonlyMap<string, string>> {
+    this.identityAliases ??= configManager.loadConfig().then(config => {
+      const aliases = new Map<string, string>();
+
+      for (const identity of config?.identities ?? []) {
+        const canonical = `${identity.name} <${identity.email}>`;
+        for (const alias of [identity.email, ...(identity.aliases ?? [])]) {
+          aliases.set(this.extractEmail(alias).toLowerCase(), canonical);
+        }
+      }
+
+      return aliases;
+    });
+
+    return this.identityAliases;
+  }
+
+  /**
+   * Extract the email from an identity like "Name <email>", or return the input unchanged
+   */
+  private extractEmail(identity: string): string {
+    return identity.match(/<([^>]*)>/)?.[1] ?? identity.trim();
+  }
+
+  /**
+   * Resolve an identity to its canonical form using the configured aliases
+   */
+  private resolveIdentity(identity: string, aliases: ReadonlyMap<string, string>): string {
+    return aliases.get(this.extractEmail(identity).toLowerCase()) ?? identity;
+  }
+
+  /**
+   * Resolve author, committer and co-author identities of parsed commits
+   * Authors and committers already come mailmapped from git log; co-authors go through check-mailmap
+   */
+  private async resolveCommitIdentities(commits: readonly GitCommit[]): Promise<GitCommit[]> {
+    const aliases = await this.loadIdentityAliases();
+    const coAuthorValues = commits.flatMap(commit => this.getCoAuthorTrailers(commit));
+    const mailmapped = await this.checkMailmap([...new Set(coAuthorValues)]);
+
+    return commits.map(commit => {
+      const author = this.resolveIdentity(commit.author, aliases);
+      const coAuthors = this.getCoAuthorTrailers(commit)
+        .map(value => this.resolveIdentity(mailmapped.get(value) ?? value, aliases))
+        .filter(
+          (coAuthor, index, array) =>
+            coAuthor.toLowerCase() !== author.toLowerCase() && array.indexOf(coAuthor) === index
+        );
+
+      return {
+        ...commit,
+        author,
+        ...(commit.committer ? { committer: this.resolveIdentity(commit.committer, aliases) } : {}),
+        coAuthors,
+      };
+    });
+  }
+
+  /**
+   * Get the raw Co-authored-by trailer values of a commit
+   */
+  private getCoAuthorTrailers(commit: GitCommit): string[] {
+    return (commit.trailers ?? [])
+      .filter(trailer => trailer.key.toLowerCase() === 'co-authored-by' && trailer.value)
+      .map(trailer => trailer.value);
+  }
+
+  /**
+   * Map identities through .mailmap in a single git check-mailmap call
+   */
+  private async checkMailmap(identities: string[]): Promise<ReadonlyMap<string, string>> {
+    // check-mailmap rejects the whole call if any contact lacks an <email> part
+    const contacts = identities.filter(identity => /<[^>]+>/.test(identity));
+    if (contacts.length === 0) {
+      return new Map();
+    }
+
+    try {
+      const result = await this.git.raw(['check-mailmap', ...contacts]);
+      const mapped = result.split('\n');
+      return new Map(contacts.map((contact, index) => [contact, mapped[index]?.trim() || contact]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  /**
+   * Build a predicate matching commits authored or co-authored by the filtered person
+   * The filter is a case-insensitive pattern, like git's --author, applied to resolved identities
+   */
+  private async createAuthorMatcher(author: string): Promise<(commit: GitCommit) => boolean> {
+    const aliases = await this.loadIdentityAliases();
+    const pattern = this.toAuthorPattern(author);
+
+    // An old email matches the person it now belongs to
+    const people = new Set(
+      [...aliases].filter(([email]) => pattern.test(email)).map(([, identity]) => identity)
+    );
+    const email = author.match(/^<?([^<>\s]+@[^<>\s]+?)>?$/)?.[1];
+    if (email) {
+      const mapped = (await this.checkMailmap([`<${email}>`])).get(`<${email}>`);
+      if (mapped) {
+        people.add(this.resolveIdentity(mapped, aliases));
+      }
+    }
+
+    return commit =>
+      getCommitAuthors(commit).some(identity => people.has(identity) || pattern.test(identity));
+  }
+
+  /**
+   * Turn an author filter into a regular expression, treating invalid patterns as plain text
+   */
+  private toAuthorPattern(author: string): RegExp {
+    try {
+      return new RegExp(author, 'i');
+    } catch {
+      return new RegExp(author.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
     }
   }
 
@@ -70,43 +341,55 @@ export class GitService {
   /**
    * Build git log command arguments
    */
-  private buildGitLogArgs(since?: string, until?: string, author?: string): string[] {
-    const args = ['log', '--max-count=100', '--pretty=format:%H|%ai|%s|%an <%ae>'];
+  private buildGitLogArgs(since?: string, until?: string): string[] {
+    const args = ['log', '-z', '--raw', '--numstat', `--format=${GitService.LOG_FORMAT}`];
 
     if (since) {
-      const sinceDate = this.normalizeDate(since, '00:00:00');
+      const sinceDate = toGitDate(since, '00:00:00');
       args.push(`--since=${sinceDate}`);
     }
 
     if (until) {
-      const untilDate = this.normalizeDate(until, '23:59:59');
+      const untilDate = toGitDate(until, '23:59:59');
       args.push(`--until=${untilDate}`);
     }
 
-    if (author) {
-      args.push(`--author=${author}`);
+    return args;
+  }
+
+  /**
+   * Build the trailing pathspec arguments for include and exclude filters
+   * Pathspecs use glob magic so "**" matches across directories as in .gitignore;
+   * pathspecs that already carry their own magic (":(...)") are passed through
+   */
+  private buildPathspecArgs(paths?: PathFilters): string[] {
+    const include = (paths?.include ?? []).map(pathspec => this.toPathspec(pathspec, 'glob'));
+    const exclude = (paths?.exclude ?? []).map(pathspec =>
+      this.toPathspec(pathspec, 'glob,exclude')
+    );
+
+    if (include.length === 0 && exclude.length === 0) {
+      return [];
     }
 
-    return args;
+    return ['--', ...include, ...exclude];
   }
 
   /**
-   * Normalize date string for git
+   * Prefix a pathspec with magic unless it already has some
    */
-  private normalizeDate(date: string, time: string): string {
-    return date.toLowerCase() === 'today'
-      ? `${new Date().toISOString().split('T')[0]} ${time}`
-      : date;
+  private toPathspec(pathspec: string, magic: string): string {
+    return pathspec.startsWith(':') ? pathspec : `:(${magic})${pathspec}`;
   }
 
   /**
-   * Process commit lines from git log
+   * Parse raw commit records from git log
    */
-  private async processCommitLines(lines: string[]): Promise<readonly GitCommit[]> {
+  private parseCommitRecords(records: string[]): readonly GitCommit[] {
     const commits: GitCommit[] = [];
 
-    for (const line of lines) {
-      const commit = await this.processCommitLine(line);
+    for (const record of records) {
+      const commit = this.parseCommitRecord(record);
       if (commit) {
         commits.push(commit);
       }
@@ -116,73 +399,141 @@ export class GitService {
   }
 
   /**
-   * Process a single commit line
+   * Parse a single commit record
+   * The record holds the NUL separated header fields followed by NUL separated --raw and --numstat entries
    */
-  private async processCommitLine(line: string): Promise<GitCommit | null> {
-    const parts = line.split('|');
-    if (parts.length < 4) {
+  private parseCommitRecord(record: string): GitCommit | null {
+    const fields = record.split('\0');
+    if (fields.length < GitService.HEADER_FIELD_COUNT) {
       return null;
     }
 
-    const [hash, date, message, authorInfo] = parts;
+    const [hash, parentList = '', date, author, committer = '', message = '', rawBody = ''] =
+      fields.slice(0, GitService.HEADER_FIELD_COUNT);
 
-    if (!hash || !date || !message || !authorInfo) {
+    if (!hash || !date || !author) {
       return null;
     }
 
-    try {
-      const files = await this.getCommitFiles(hash);
-      const stats = await this.getCommitStats(hash);
-
-      return {
-        hash,
-        date,
-        message,
-        author: authorInfo,
-        files: [...files],
-        insertions: stats.insertions,
-        deletions: stats.deletions,
-      };
-    } catch (error) {
-      console.warn(
-        `Warning: Failed to process commit ${hash}: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-      return null;
-    }
+    const tokens = fields
+      .slice(GitService.HEADER_FIELD_COUNT)
+      .map(token => token.replace(/^\n+/, ''));
+    const fileStats = this.parseFileEntries(tokens);
+    const parents = parentList.split(' ').filter(parent => parent);
+    const body = rawBody.trim();
+
+    return {
+      hash,
+      date,
+      message,
+      author,
+      committer,
+      body,
+      parents,
+      isMerge: parents.length > 1,
+      trailers: this.parseTrailers(body),
+      files: fileStats.map(stat => stat.path),
+      insertions: fileStats.reduce((sum, stat) => sum + stat.insertions, 0),
+      deletions: fileStats.reduce((sum, stat) => sum + stat.deletions, 0),
+      fileStats,
+    };
   }
 
   /**
-   * Get files changed in a commit
+   * Parse git trailers (e.g. "Co-authored-by: Name <email>") from the last paragraph of a commit body
    */
-  private async getCommitFiles(hash: string): Promise<readonly string[]> {
-    const show = await this.git.show([hash, '--name-only', '--pretty=format:']);
+  private parseTrailers(body: string): CommitTrailer[] {
+    const paragraphs = body.split(/\n\s*\n/);
+    const lines = (paragraphs[paragraphs.length - 1] ?? '').split('\n');
+    const trailers: CommitTrailer[] = [];
+
+    for (const line of lines) {
+      const match = line.match(/^([A-Za-z0-9][A-Za-z0-9-]*)\s*:\s*(.*)$/);
+      const previous = trailers[trailers.length - 1];
+
+      if (match) {
+        trailers.push({ key: match[1] ?? '', value: (match[2] ?? '').trim() });
+      } else if (previous && /^\s+\S/.test(line)) {
+        // Indented lines continue the previous trailer value
+        trailers[trailers.length - 1] = { ...previous, value: `${previous.value} ${line.trim()}` };
+      } else if (line.trim()) {
+        // A paragraph that is not made only of trailers is regular body text
+        return [];
+      }
+    }
 
-    return show.split('\n').filter(line => line.trim().length > 0);
+    return trailers;
   }
 
   /**
-   * Get commit statistics
+   * Merge the --raw status entries and --numstat entries of a commit into per-file stats
    */
-  private async getCommitStats(hash: string): Promise<{ insertions: number; deletions: number }> {
-    try {
-      const stats = await this.git.raw(['show', '--format=', '--numstat', hash]);
-
-      let insertions = 0;
-      let deletions = 0;
+  private parseFileEntries(tokens: string[]): CommitFileStat[] {
+    const stats = new Map<string, CommitFileStat>();
+
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index] ?? '';
+
+      if (token.startsWith(':')) {
+        const status = token.split(' ').pop() ?? '';
+        const isPair = status.startsWith('R') || status.startsWith('C');
+        const previousPath = isPair ? tokens[++index] : undefined;
+        const path = tokens[++index];
+        if (!path) continue;
+
+        const existing = stats.get(path);
+        stats.set(path, {
+          path,
+          insertions: existing?.insertions ?? 0,
+          deletions: existing?.deletions ?? 0,
+          status: this.mapRawStatus(status),
+          ...(previousPath ? { previousPath } : {}),
+          ...(existing?.binary ? { binary: true } : {}),
+        });
+        continue;
+      }
 
-      const statLines = stats
-        .trim()
-        .split('\n')
-        .filter(line => line.trim());
-      for (const statLine of statLines) {
-        const [add, del] = statLine.split('\t');
-        if (add && add !== '-') insertions += parseInt(add) || 0;
-        if (del && del !== '-') deletions += parseInt(del) || 0;
+      const numstat = token.match(/^(\d+|-)\t(\d+|-)\t(.*)$/s);
+      if (numstat) {
+        const [, added = '-', removed = '-', inlinePath] = numstat;
+        // Renames and copies leave the path empty and list old and new paths as separate tokens
+        if (!inlinePath) index++;
+        const path = inlinePath || tokens[++index];
+        if (!path) continue;
+
+        const existing = stats.get(path);
+        stats.set(path, {
+          path,
+          insertions: added === '-' ? 0 : parseInt(added) || 0,
+          deletions: removed === '-' ? 0 : parseInt(removed) || 0,
+          status: existing?.status ?? 'modified',
+          ...(existing?.previousPath ? { previousPath: existing.previousPath } : {}),
+          ...(added === '-' && removed === '-' ? { binary: true } : {}),
+        });
       }
+    }
 
-      return { insertions, deletions };
-    } catch {
-      return { insertions: 0, deletions: 0 };
+    return [...stats.values()];
+  }
+
+  /**
+   * Map a git --raw status letter to a file change type
+   */
+  private mapRawStatus(status: string): FileChangeType {
+    switch (status.charAt(0)) {
+      case 'A':
+        return 'added';
+      case 'D':
+        return 'deleted';
+      case 'R':
+        return 'renamed';
+      case 'C':
+        return 'copied';
+      case 'M':
+      case 'T':
+        return 'modified';
+      default:
+        return 'unknown';
     }
   }
 
@@ -195,11 +546,76 @@ export class GitService {
         'Invalid date range or no commits found for the specified criteria. Check your --since and --until dates.'
       );
     }
+    if (error instanceof Error && error.message.includes('unknown revision')) {
+      return new Error(
+        'Unknown revision in the requested range. Check your --range, --from-tag, --to and --branch values.'
+      );
+    }
     return new Error(
       `Failed to get git commits: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
   }
 
+  /**
+   * Turn --range, --from-tag/--to or --branch into a single git revision range
+   * A branch is compared against the repository's default branch, i.e. from their merge base
+   */
+  public async resolveRevisionRange(selection: RevisionSelection): Promise<string | undefined> {
+    if (selection.range) {
+      return selection.range;
+    }
+
+    if (selection.fromTag) {
+      return `${selection.fromTag}..${selection.to || 'HEAD'}`;
+    }
+
+    if (selection.branch) {
+      const baseBranch = await this.getDefaultBranch();
+      return baseBranch ? `${baseBranch}..${selection.branch}` : selection.branch;
+    }
+
+    return selection.to;
+  }
+
+  /**
+   * Check whether a ref (tag, branch or commit) resolves to a commit
+   */
+  public async refExists(ref: string): Promise<boolean> {
+    try {
+      // --quiet would suppress the error output simple-git needs to report a failure
+      await this.git.raw(['rev-parse', '--verify', `${ref}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Detect the repository's default branch from origin/HEAD, falling back to main or master
+   */
+  public async getDefaultBranch(): Promise<string | null> {
+    try {
+      const remoteHead = await this.git.raw([
+        'symbolic-ref',
+        '--short',
+        'refs/remotes/origin/HEAD',
+      ]);
+      if (remoteHead.trim()) {
+        return remoteHead.trim();
+      }
+    } catch {
+      // No remote HEAD, try the conventional names below
+    }
+
+    for (const candidate of ['main', 'master']) {
+      if (await this.refExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Check if current directory is a git repository
    */
@@ -231,8 +647,9 @@ export class GitService {
     try {
       const args = this.buildAuthorsArgs(since);
       const result = await this.git.raw(args);
+      const aliases = await this.loadIdentityAliases();
 
-      return this.extractUniqueAuthors(result);
+      return this.extractUniqueAuthors(result, aliases);
     } catch {
       return [];
     }
@@ -242,10 +659,10 @@ export class GitService {
    * Build arguments for authors query
    */
   private buildAuthorsArgs(since?: string): string[] {
-    const args = ['log', '--pretty=format:%an <%ae>'];
+    const args = ['log', '--pretty=format:%aN <%aE>'];
 
     if (since) {
-      const sinceDate = this.normalizeDate(since, '00:00:00');
+      const sinceDate = toGitDate(since, '00:00:00');
       args.push(`--since=${sinceDate}`);
     }
 
@@ -255,11 +672,15 @@ export class GitService {
   /**
    * Extract unique authors from git log result
    */
-  private extractUniqueAuthors(result: string): readonly string[] {
+  private extractUniqueAuthors(
+    result: string,
+    aliases: ReadonlyMap<string, string>
+  ): readonly string[] {
     return result
       .trim()
       .split('\n')
       .filter(line => line.trim())
+      .map(author => this.resolveIdentity(author, aliases))
       .filter((author, index, array) => array.indexOf(author) === index)
       .sort();
   }
@@ -353,98 +774,89 @@ export class GitService {
    * Validate date string format
    */
   public isValidDate(dateString: string): boolean {
-    // Check for relative dates like 7d, 2w, 1m, 3y
-    if (this.isRelativeDate(dateString)) {
-      return true;
-    }
-
-    // Check for special keywords
-    if (this.isSpecialDate(dateString)) {
-      return true;
-    }
-
-    // Check for ISO dates (YYYY-MM-DD)
-    if (this.isISODate(dateString)) {
-      return this.isValidISODate(dateString);
-    }
-
-    // Check for ISO timestamps
-    if (this.isISOTimestamp(dateString)) {
-      return this.isValidISOTimestamp(dateString);
-    }
-
-    // Check for other common date formats
-    return this.isValidGenericDate(dateString);
+    return parseDateFilter(dateString) !== null;
   }
 
   /**
-   * Check if string is a relative date
+   * Get current user's git config
    */
-  private isRelativeDate(dateString: string): boolean {
-    return /^\d+[dwmy]$/.test(dateString);
+  public async getCurrentUser(): Promise<GitUserConfig> {
+    try {
+      const [name, email] = await Promise.all([
+        this.git.raw(['config', 'user.name']).catch(() => ''),
+        this.git.raw(['config', 'user.email']).catch(() => ''),
+      ]);
+
+      return {
+        name: name.trim() || undefined,
+        email: email.trim() || undefined,
+      };
+    } catch {
+      return {};
+    }
   }
 
   /**
-   * Check if string is a special date keyword
+   * Get the top-level directory of the working tree
    */
-  private isSpecialDate(dateString: string): boolean {
-    return ['yesterday', 'today', 'now'].includes(dateString.toLowerCase());
+  public async getRepoRoot(): Promise<string> {
+    return (await this.git.raw(['rev-parse', '--show-toplevel'])).trim();
   }
 
   /**
-   * Check if string is an ISO date
+   * Get the hooks directory, honouring core.hooksPath and linked worktrees
    */
-  private isISODate(dateString: string): boolean {
-    return /^\d{4}-\d{2}-\d{2}$/.test(dateString);
+  public async getHooksDir(): Promise<string> {
+    return this.getGitPath('hooks');
   }
 
   /**
-   * Check if string is an ISO timestamp
+   * Resolve a path inside the repository's git directory
    */
-  private isISOTimestamp(dateString: string): boolean {
-    return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/.test(dateString);
+  public async getGitPath(name: string): Promise<string> {
+    const result = await this.git.raw(['rev-parse', '--git-path', name]);
+    return path.resolve(this.baseDir, result.trim());
   }
 
   /**
-   * Validate ISO date
+   * Get the subjects of the most recent non-merge commits, newest first
    */
-  private isValidISODate(dateString: string): boolean {
-    const date = new Date(dateString);
-    return !isNaN(date.getTime());
+  public async getRecentSubjects(limit: number): Promise<string[]> {
+    try {
+      const output = await this.git.raw(['log', '--no-merges', '--format=%s', '-n', String(limit)]);
+      return output.split('\n').filter(line => line.trim());
+    } catch {
+      // No commits yet
+      return [];
+    }
   }
 
   /**
-   * Validate ISO timestamp
+   * Read a value from the repository's local git config
+   * @returns The value, or undefined when it is not set
    */
-  private isValidISOTimestamp(dateString: string): boolean {
-    const date = new Date(dateString);
-    return !isNaN(date.getTime());
+  public async getLocalConfig(key: string): Promise<string | undefined> {
+    try {
+      const value = (await this.git.raw(['config', '--local', '--get', key])).trim();
+      return value || undefined;
+    } catch {
+      return undefined;
+    }
   }
 
   /**
-   * Validate generic date
+   * Write a value to the repository's local git config
    */
-  private isValidGenericDate(dateString: string): boolean {
-    const date = new Date(dateString);
-    return !isNaN(date.getTime());
+  public async setLocalConfig(key: string, value: string): Promise<void> {
+    await this.git.raw(['config', '--local', key, value]);
   }
 
   /**
-   * Get current user's git config
+   * Remove a value from the repository's local git config, if present
    */
-  public async getCurrentUser(): Promise<GitUserConfig> {
-    try {
-      const [name, email] = await Promise.all([
-        this.git.raw(['config', 'user.name']).catch(() => ''),
-        this.git.raw(['config', 'user.email']).catch(() => ''),
-      ]);
-
-      return {
-        name: name.trim() || undefined,
-        email: email.trim() || undefined,
-      };
-    } catch {
-      return {};
+  public async unsetLocalConfig(key: string): Promise<void> {
+    if ((await this.getLocalConfig(key)) !== undefined) {
+      await this.git.raw(['config', '--local', '--unset', key]);
     }
   }
 
@@ -520,6 +932,73 @@ export class GitService {
     }
   }
 
+  /**
+   * Get the staged diff as a patch that git apply accepts, binary files included
+   */
+  public async getStagedPatch(): Promise<string> {
+    return this.git.raw([
+      'diff',
+      '--cached',
+      '--binary',
+      '--no-color',
+      '--no-ext-diff',
+      '--src-prefix=a/',
+      '--dst-prefix=b/',
+    ]);
+  }
+
+  /**
+   * Save the current HEAD and index so they can be restored later
+   */
+  public async snapshotIndex(): Promise<IndexSnapshot> {
+    const tree = (await this.git.raw(['write-tree'])).trim();
+    return { head: await this.getHeadCommit(), tree };
+  }
+
+  /**
+   * Replace the index with the tree of a commit, or empty it when there is none yet
+   */
+  public async resetIndexTo(commit: string | undefined): Promise<void> {
+    await this.git.raw(commit ? ['read-tree', commit] : ['read-tree', '--empty']);
+  }
+
+  /**
+   * Apply a patch to the index only, leaving the working tree untouched
+   */
+  public async applyToIndex(patch: string): Promise<void> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'devsum-'));
+    const patchFile = path.join(dir, 'changes.patch');
+    try {
+      await fs.writeFile(patchFile, patch.endsWith('\n') ? patch : `${patch}\n`);
+      await this.git.raw(['apply', '--cached', '--whitespace=nowarn', patchFile]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Move HEAD back to a snapshot (keeping the working tree) and restore its index
+   */
+  public async restoreIndex(snapshot: IndexSnapshot): Promise<void> {
+    if ((await this.getHeadCommit()) !== snapshot.head) {
+      await this.git.raw(
+        snapshot.head ? ['reset', '--soft', snapshot.head] : ['update-ref', '-d', 'HEAD']
+      );
+    }
+    await this.git.raw(['read-tree', snapshot.tree]);
+  }
+
+  /**
+   * Resolve HEAD to a commit hash, or undefined before the first commit
+   */
+  public async getHeadCommit(): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['rev-parse', '--verify', 'HEAD'])).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Get diff content for staged files
    */
@@ -533,6 +1012,19 @@ export class GitService {
     }
   }
 
+  /**
+   * Get the changes of the current branch since it forked from a base branch
+   */
+  public async getBranchDiff(base: string): Promise<string> {
+    try {
+      return await this.git.raw(['diff', `${base}...HEAD`]);
+    } catch (error) {
+      throw new Error(
+        `Failed to get branch diff: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Get file changes summary for AI analysis
    */
@@ -823,6 +1315,52 @@ export class GitService {
     }
   }
 
+  /**
+   * Get the most recent tag reachable from a ref
+   */
+  public async getLatestTag(ref: string = 'HEAD'): Promise<string | null> {
+    try {
+      const result = await this.git.raw(['describe', '--tags', '--abbrev=0', ref]);
+      return result.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a ref names a tag
+   */
+  public async isTag(ref: string): Promise<boolean> {
+    return this.refExists(`refs/tags/${ref}`);
+  }
+
+  /**
+   * Get the committer date of the commit a ref points to
+   */
+  public async getRefDate(ref: string): Promise<string | undefined> {
+    try {
+      const result = await this.git.raw(['log', '--pretty=format:%ci', '--max-count=1', ref]);
+      return result.trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the browsable https URL of the origin remote, if it can be derived
+   */
+  public async getRemoteWebUrl(): Promise<string | undefined> {
+    try {
+      const url = (await this.git.raw(['remote', 'get-url', 'origin'])).trim();
+      const match = url.match(
+        /^(?:https?:\/\/(?:[^@/]+@)?|git@|ssh:\/\/git@)([^/:]+)(?::\d+(?=\/))?[/:](.+?)(?:\.git)?\/?$/
+      );
+      return match ? `https://${match[1]}/${match[2]}` : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Check if remote exists
    */
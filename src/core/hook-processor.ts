@@ -0,0 +1,240 @@
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import { GitService } from './git.js';
+import { CommitProcessor } from './commit-processor.js';
+import { CommitValidator } from './commit-validator.js';
+import { tokenUsage } from './token-usage.js';
+import { HookRunOptions } from '../types/index.js';
+
+/**
+ * Name of the git hook devsum installs
+ */
+const HOOK_NAME = 'prepare-commit-msg';
+
+/**
+ * File an existing hook is moved to so the devsum hook can run it first
+ */
+const CHAINED_HOOK_NAME = `${HOOK_NAME}.devsum-chained`;
+
+/**
+ * Marker identifying a hook script written by devsum
+ */
+const HOOK_MARKER = '# devsum prepare-commit-msg hook';
+
+/**
+ * Per-repo git config keys read by the hook
+ */
+const ENABLED_KEY = 'devsum.hookEnabled';
+const TIMEOUT_KEY = 'devsum.hookTimeout';
+
+/**
+ * Seconds the hook waits for the AI before leaving the message empty
+ */
+const DEFAULT_TIMEOUT_SECONDS = 20;
+
+const HOOK_SCRIPT = `#!/bin/sh
+${HOOK_MARKER}, installed by "devsum hook install"
+# Prefills the commit message with an AI generated one and never blocks the commit.
+
+hook_dir=$(dirname "$0")
+if [ -x "$hook_dir/${CHAINED_HOOK_NAME}" ]; then
+  "$hook_dir/${CHAINED_HOOK_NAME}" "$@" || exit $?
+fi
+
+if command -v devsum >/dev/null 2>&1; then
+  DEVSUM_SKIP_UPDATE_CHECK=true devsum hook run "$@" </dev/null || true
+fi
+exit 0
+`;
+
+/**
+ * Service responsible for the prepare-commit-msg git hook
+ * Installs the hook next to any existing one and prefills messages when git commit runs
+ */
+export class HookProcessor {
+  private readonly gitService: GitService;
+  private readonly validator: CommitValidator;
+
+  constructor() {
+    this.gitService = new GitService();
+    this.validator = new CommitValidator();
+  }
+
+  /**
+   * Install the hook, keeping an existing prepare-commit-msg hook as a chained hook
+   */
+  public async install(): Promise<void> {
+    const hooksDir = await this.getHooksDir();
+    const hookPath = path.join(hooksDir, HOOK_NAME);
+    const chainedPath = path.join(hooksDir, CHAINED_HOOK_NAME);
+
+    const existing = await this.readFile(hookPath);
+    if (existing !== null && !existing.includes(HOOK_MARKER)) {
+      if ((await this.readFile(chainedPath)) !== null) {
+        console.log();
+        console.error(chalk.red(`❌ Both ${HOOK_NAME} and ${CHAINED_HOOK_NAME} already exist`));
+        console.log(chalk.yellow(`Merge them by hand in ${hooksDir} and run this command again`));
+        process.exit(1);
+      }
+      await fs.rename(hookPath, chainedPath);
+      console.log(chalk.gray(`   Existing ${HOOK_NAME} hook will run before devsum`));
+    }
+
+    await fs.mkdir(hooksDir, { recursive: true });
+    await fs.writeFile(hookPath, HOOK_SCRIPT, { mode: 0o755 });
+    await fs.chmod(hookPath, 0o755);
+    await this.gitService.setLocalConfig(ENABLED_KEY, 'true');
+
+    console.log(chalk.green(`✅ Installed ${HOOK_NAME} hook in ${hooksDir}`));
+    console.log(chalk.gray('   "git commit" without -m now opens the editor with an AI message'));
+    console.log(chalk.gray('   Use "devsum hook disable" to pause it for this repository'));
+  }
+
+  /**
+   * Remove the hook and restore the hook it was chained to
+   */
+  public async uninstall(): Promise<void> {
+    const hooksDir = await this.getHooksDir();
+    const hookPath = path.join(hooksDir, HOOK_NAME);
+    const chainedPath = path.join(hooksDir, CHAINED_HOOK_NAME);
+
+    const existing = await this.readFile(hookPath);
+    if (existing === null || !existing.includes(HOOK_MARKER)) {
+      console.log(chalk.yellow(`⚠️  No devsum ${HOOK_NAME} hook installed in ${hooksDir}`));
+      return;
+    }
+
+    await fs.rm(hookPath);
+    if ((await this.readFile(chainedPath)) !== null) {
+      await fs.rename(chainedPath, hookPath);
+      console.log(chalk.gray(`   Restored the previous ${HOOK_NAME} hook`));
+    }
+    await this.gitService.unsetLocalConfig(ENABLED_KEY);
+
+    console.log(chalk.green(`✅ Removed ${HOOK_NAME} hook from ${hooksDir}`));
+  }
+
+  /**
+   * Turn the installed hook on or off for this repository
+   */
+  public async setEnabled(enabled: boolean): Promise<void> {
+    await this.getHooksDir();
+    await this.gitService.setLocalConfig(ENABLED_KEY, String(enabled));
+
+    if (enabled) {
+      console.log(chalk.green('✅ devsum commit hook enabled for this repository'));
+    } else {
+      console.log(chalk.yellow('⚠️  devsum commit hook disabled for this repository'));
+    }
+  }
+
+  /**
+   * Prefill the commit message file; called by the hook with git's arguments
+   * Only plain "git commit" is handled: messages from -m/-F/-t, merges, squashes and
+   * amends are left alone. Any failure or timeout leaves the message untouched.
+   * @param messageFile Path of the commit message file
+   * @param source Where the message came from (message, template, merge, squash or commit)
+   */
+  public async run(
+    messageFile: string,
+    source: string | undefined,
+    options: HookRunOptions
+  ): Promise<void> {
+    if (source || !(await this.isEnabled())) {
+      return;
+    }
+
+    try {
+      const timeoutSeconds = await this.getTimeoutSeconds(options.timeout);
+      process.stderr.write(chalk.gray('devsum: generating commit message...\n'));
+
+      const message = await this.withTimeout(
+        new CommitProcessor().generateStagedCommitMessage({ length: 'medium' }),
+        timeoutSeconds
+      );
+      if (!message) {
+        return;
+      }
+
+      const existing = await fs.readFile(messageFile, 'utf-8');
+      const separator = existing.startsWith('\n') ? '' : '\n';
+      await fs.writeFile(messageFile, `${message.trim()}\n${separator}${existing}`);
+    } catch (error) {
+      process.stderr.write(
+        chalk.yellow(
+          `devsum: skipped message generation (${error instanceof Error ? error.message : 'Unknown error'})\n`
+        )
+      );
+    } finally {
+      // Requests that finished before a failure or timeout were still billed
+      await tokenUsage.finishRun('hook');
+    }
+  }
+
+  /**
+   * Check whether the hook is enabled for this repository
+   */
+  private async isEnabled(): Promise<boolean> {
+    const value = await this.gitService.getLocalConfig(ENABLED_KEY);
+    return value !== undefined && /^(true|yes|on|1)$/i.test(value);
+  }
+
+  /**
+   * Resolve the timeout from the option, the repository config or the default
+   */
+  private async getTimeoutSeconds(option?: string): Promise<number> {
+    const value = option ?? (await this.gitService.getLocalConfig(TIMEOUT_KEY));
+    const seconds = Number(value);
+    return value !== undefined && Number.isFinite(seconds) && seconds > 0
+      ? seconds
+      : DEFAULT_TIMEOUT_SECONDS;
+  }
+
+  /**
+   * Reject when a promise does not settle in time
+   */
+  private async withTimeout<T>(promise: Promise<T>, seconds: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`timed out after ${seconds}s`)), seconds * 1000);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Get the hooks directory, exiting when not in a git repository
+   */
+  private async getHooksDir(): Promise<string> {
+    const gitError = await this.validator.validateGitRepository();
+    if (gitError) {
+      console.log();
+      console.error(chalk.red('❌ Not a git repository'));
+      console.log(chalk.gray(gitError));
+      process.exit(1);
+    }
+
+    const hooksDir = await this.gitService.getHooksDir();
+    const stats = await fs.stat(hooksDir).catch(() => null);
+    if (stats && !stats.isDirectory()) {
+      console.log();
+      console.error(chalk.red(`❌ Hooks path ${hooksDir} is not a directory`));
+      console.log(chalk.yellow('Point core.hooksPath at a directory to install the hook'));
+      process.exit(1);
+    }
+    return hooksDir;
+  }
+
+  private async readFile(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
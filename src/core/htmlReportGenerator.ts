@@ -1,9 +1,14 @@
 import { GitCommit, ReportLength } from '../types/index.js';
+import { getCommitAuthors } from '../utils/commit-authors.js';
+import { escapeHtml } from '../utils/html.js';
 
 export interface HTMLReportMetadata {
   since?: string;
   until?: string;
   author?: string;
+  paths?: string[] | undefined;
+  exclude?: string[] | undefined;
+  range?: string | undefined;
   branch: string;
   generatedAt: string;
   length?: string;
@@ -11,13 +16,16 @@ export interface HTMLReportMetadata {
   authors: number;
   filesModified: number;
   dateRange: string;
+  truncated?: boolean;
+  maxCommits?: number;
+  aiProvider?: string | undefined;
 }
 
 export class HTMLReportGenerator {
   generateReport(report: any, commits: GitCommit[], metadata: HTMLReportMetadata): string {
     const periodDescription = this.getPeriodDescription(metadata);
     const lengthDisplay = this.getLengthDisplay(metadata.length);
-    const authorFilter = metadata.author ? ` (Author: ${metadata.author})` : '';
+    const authorFilter = metadata.author ? ` (Author: ${escapeHtml(metadata.author)})` : '';
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -35,6 +43,8 @@ export class HTMLReportGenerator {
         ${this.generateExecutiveSummary(report)}
         ${this.generateAccomplishments(report)}
         ${this.generateTechnicalImprovements(report)}
+        ${this.generateRecommendations(report)}
+        ${this.generateRisks(report)}
         ${this.generateCommitAnalysis(commits)}
         ${this.generateStatistics(metadata, commits)}
         ${this.generateCharts(commits)}
@@ -640,17 +650,26 @@ export class HTMLReportGenerator {
                 </div>
                 <div class="metadata-item">
                     <div class="metadata-label">🌿 Branch</div>
-                    <div class="metadata-value">${metadata.branch}</div>
+                    <div class="metadata-value">${escapeHtml(metadata.branch)}</div>
                 </div>
                 <div class="metadata-item">
-                    <div class="metadata-label">📊 Period</div>
-                    <div class="metadata-value">${periodDescription}${authorFilter}</div>
+                    <div class="metadata-label">${metadata.range ? '🔀 Range' : '📊 Period'}</div>
+                    <div class="metadata-value">${escapeHtml(metadata.range ?? periodDescription)}${authorFilter}</div>
                 </div>
                 <div class="metadata-item">
                     <div class="metadata-label">📝 Commits</div>
                     <div class="metadata-value">${metadata.commitsAnalyzed}</div>
-                </div>
+                </div>${
+                  metadata.aiProvider
+                    ? `
+                <div class="metadata-item">
+                    <div class="metadata-label">🤖 AI Provider</div>
+                    <div class="metadata-value">${metadata.aiProvider}</div>
+                </div>`
+                    : ''
+                }
                 ${lengthDisplay}
+                ${this.getTruncationDisplay(metadata)}
             </div>
         </div>
     </div>`;
@@ -664,7 +683,7 @@ export class HTMLReportGenerator {
             Executive Summary
         </h2>
         <div class="summary">
-            ${report.summary}
+            ${escapeHtml(report.summary)}
         </div>
     </div>`;
   }
@@ -689,7 +708,7 @@ export class HTMLReportGenerator {
       .map(
         (acc: string) => `
         <div class="accomplishment">
-            <div class="accomplishment-text">${acc}</div>
+            <div class="accomplishment-text">${escapeHtml(acc)}</div>
         </div>
       `
       )
@@ -708,15 +727,27 @@ export class HTMLReportGenerator {
   }
 
   private generateTechnicalImprovements(report: any): string {
-    if (!report.technicalImprovements || report.technicalImprovements.length === 0) {
+    return this.generateListSection(report.technicalImprovements, '⚡', 'Technical Improvements');
+  }
+
+  private generateRecommendations(report: any): string {
+    return this.generateListSection(report.recommendations, '💡', 'Recommendations');
+  }
+
+  private generateRisks(report: any): string {
+    return this.generateListSection(report.risks, '⚠️', 'Risks');
+  }
+
+  private generateListSection(items: string[] | undefined, icon: string, title: string): string {
+    if (!items || items.length === 0) {
       return '';
     }
 
-    const improvements = report.technicalImprovements
+    const listItems = items
       .map(
-        (imp: string) => `
+        (item: string) => `
         <div class="improvement">
-            <div class="accomplishment-text">${imp}</div>
+            <div class="accomplishment-text">${escapeHtml(item)}</div>
         </div>
       `
       )
@@ -725,11 +756,11 @@ export class HTMLReportGenerator {
     return `
     <div class="section">
         <h2 class="section-title">
-            <span class="section-icon">⚡</span>
-            Technical Improvements
+            <span class="section-icon">${icon}</span>
+            ${title}
         </h2>
         <div class="technical-improvements">
-            ${improvements}
+            ${listItems}
         </div>
     </div>`;
   }
@@ -742,7 +773,7 @@ export class HTMLReportGenerator {
       .map(
         commit => `
       <div class="commit">
-          <div class="commit-message">${commit.message}</div>
+          <div class="commit-message">${escapeHtml(commit.message)}</div>
           <div class="commit-meta">
               <div class="commit-meta-item">
                   <span>📅</span>
@@ -750,11 +781,21 @@ export class HTMLReportGenerator {
               </div>
               <div class="commit-meta-item">
                   <span>👤</span>
-                  <span>${commit.author}</span>
+                  <span>${escapeHtml(commit.author)}</span>
+              </div>
+              ${
+                commit.isMerge
+                  ? `
+              <div class="commit-meta-item">
+                  <span>🔀</span>
+                  <span>Merge</span>
               </div>
+              `
+                  : ''
+              }
               <div class="commit-meta-item">
                   <span>📁</span>
-                  <span>${commit.files.slice(0, 3).join(', ')}${commit.files.length > 3 ? '...' : ''}</span>
+                  <span>${escapeHtml(commit.files.slice(0, 3).join(', '))}${commit.files.length > 3 ? '...' : ''}</span>
               </div>
               ${
                 commit.insertions || commit.deletions
@@ -822,7 +863,13 @@ export class HTMLReportGenerator {
   }
 
   private generateFilters(metadata: HTMLReportMetadata): string {
-    if (!metadata.since && !metadata.until && !metadata.author) {
+    if (
+      !metadata.since &&
+      !metadata.until &&
+      !metadata.author &&
+      !metadata.paths &&
+      !metadata.exclude
+    ) {
       return '';
     }
 
@@ -859,7 +906,27 @@ export class HTMLReportGenerator {
                     ? `
                 <div class="filter-item">
                     <div class="filter-label">Author</div>
-                    <div class="filter-value">${metadata.author}</div>
+                    <div class="filter-value">${escapeHtml(metadata.author)}</div>
+                </div>
+                `
+                    : ''
+                }
+                ${
+                  metadata.paths
+                    ? `
+                <div class="filter-item">
+                    <div class="filter-label">Paths</div>
+                    <div class="filter-value">${escapeHtml(metadata.paths.join(', '))}</div>
+                </div>
+                `
+                    : ''
+                }
+                ${
+                  metadata.exclude
+                    ? `
+                <div class="filter-item">
+                    <div class="filter-label">Excluded</div>
+                    <div class="filter-value">${escapeHtml(metadata.exclude.join(', '))}</div>
                 </div>
                 `
                     : ''
@@ -919,9 +986,11 @@ export class HTMLReportGenerator {
     const authorCounts: { [key: string]: number } = {};
 
     commits.forEach(commit => {
-      const author = commit.author.split(' <')[0]; // Remove email part
-      if (author) {
-        authorCounts[author] = (authorCounts[author] || 0) + 1;
+      for (const identity of getCommitAuthors(commit)) {
+        const author = identity.split(' <')[0]; // Remove email part
+        if (author) {
+          authorCounts[author] = (authorCounts[author] || 0) + 1;
+        }
       }
     });
 
@@ -969,7 +1038,7 @@ export class HTMLReportGenerator {
             return `
             <div class="bar" style="height: ${height}%">
                 <div class="bar-value">${item.value}</div>
-                <div class="bar-label">${item.label.length > 10 ? item.label.substring(0, 10) + '...' : item.label}</div>
+                <div class="bar-label">${escapeHtml(item.label.length > 10 ? item.label.substring(0, 10) + '...' : item.label)}</div>
             </div>
           `;
           })
@@ -1023,6 +1092,16 @@ export class HTMLReportGenerator {
     return periodDescription;
   }
 
+  private getTruncationDisplay(metadata: HTMLReportMetadata): string {
+    if (!metadata.truncated) return '';
+
+    return `
+    <div class="metadata-item">
+        <div class="metadata-label">⚠️ Commit Limit Reached</div>
+        <div class="metadata-value">Only the newest ${metadata.maxCommits} matching commits were analyzed</div>
+    </div>`;
+  }
+
   private getLengthDisplay(length?: string): string {
     if (!length || length === 'detailed') return '';
 
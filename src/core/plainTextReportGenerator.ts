@@ -4,6 +4,9 @@ export interface PlainTextReportMetadata {
   since?: string;
   until?: string;
   author?: string;
+  paths?: string[] | undefined;
+  exclude?: string[] | undefined;
+  range?: string | undefined;
   branch: string;
   generatedAt: string;
   length?: string;
@@ -11,6 +14,9 @@ export interface PlainTextReportMetadata {
   authors: number;
   filesModified: number;
   dateRange: string;
+  truncated?: boolean;
+  maxCommits?: number;
+  aiProvider?: string | undefined;
 }
 
 export class PlainTextReportGenerator {
@@ -21,9 +27,9 @@ export class PlainTextReportGenerator {
     return `DEVELOPMENT ACCOMPLISHMENT REPORT
 Generated: ${new Date(metadata.generatedAt).toLocaleString()}
 Branch: ${metadata.branch}
-Period: ${periodDescription}${authorFilter}
+${metadata.range ? `Range: ${metadata.range}` : `Period: ${periodDescription}`}${authorFilter}
 Commits Analyzed: ${metadata.commitsAnalyzed}
-${metadata.length && metadata.length !== 'detailed' ? `Report Length: ${metadata.length.charAt(0).toUpperCase() + metadata.length.slice(1)}` : ''}
+${metadata.aiProvider ? `AI Provider: ${metadata.aiProvider}\n` : ''}${metadata.truncated ? `WARNING: Commit limit reached - only the newest ${metadata.maxCommits} matching commits were analyzed\n` : ''}${metadata.length && metadata.length !== 'detailed' ? `Report Length: ${metadata.length.charAt(0).toUpperCase() + metadata.length.slice(1)}` : ''}
 
 ${'='.repeat(80)}
 
@@ -38,7 +44,7 @@ KEY ACCOMPLISHMENTS
 ${report.accomplishments?.map((acc: string) => `• ${acc.replace(/\*\*(.*?)\*\*/g, '$1')}`).join('\n') || '• No accomplishments identified'}
 
 ${
-  report.technicalImprovements
+  report.technicalImprovements?.length
     ? `${'='.repeat(80)}
 
 TECHNICAL IMPROVEMENTS
@@ -48,13 +54,23 @@ ${report.technicalImprovements.map((imp: string) => `• ${imp.replace(/\*\*(.*?
 `
     : ''
 }${
-      report.recommendations
+      report.recommendations?.length
         ? `${'='.repeat(80)}
 
 RECOMMENDATIONS
 
 ${report.recommendations.map((rec: string) => `• ${rec.replace(/\*\*(.*?)\*\*/g, '$1')}`).join('\n')}
 
+`
+        : ''
+    }${
+      report.risks?.length
+        ? `${'='.repeat(80)}
+
+RISKS
+
+${report.risks.map((risk: string) => `• ${risk.replace(/\*\*(.*?)\*\*/g, '$1')}`).join('\n')}
+
 `
         : ''
     }${'='.repeat(80)}
@@ -65,10 +81,10 @@ ${commits
   .slice(0, 15)
   .map(
     commit =>
-      `COMMIT: ${commit.message}
+      `COMMIT: ${commit.message}${commit.isMerge ? ' (merge)' : ''}
 Date: ${commit.date.split('T')[0]}
 Author: ${commit.author}
-Files: ${commit.files.slice(0, 5).join(', ')}${commit.files.length > 5 ? ` (+${commit.files.length - 5} more)` : ''}
+${commit.committer && commit.committer !== commit.author ? `Committer: ${commit.committer}\n` : ''}Files: ${commit.files.slice(0, 5).join(', ')}${commit.files.length > 5 ? ` (+${commit.files.length - 5} more)` : ''}
 ${commit.insertions || commit.deletions ? `Changes: +${commit.insertions || 0} -${commit.deletions || 0}` : ''}
 
 `
@@ -91,7 +107,7 @@ Files Modified: ${metadata.filesModified}
 Date Range: ${metadata.dateRange}
 
 ${
-  metadata.since || metadata.until || metadata.author
+  metadata.since || metadata.until || metadata.author || metadata.paths || metadata.exclude
     ? `${'='.repeat(80)}
 
 APPLIED FILTERS
@@ -99,6 +115,8 @@ APPLIED FILTERS
 ${metadata.since ? `Since: ${metadata.since.toLowerCase() === 'today' ? `today (${new Date().toISOString().split('T')[0]} 00:00:00 to now)` : metadata.since}` : ''}
 ${metadata.until ? `Until: ${metadata.until.toLowerCase() === 'today' ? `today (${new Date().toISOString().split('T')[0]} 23:59:59)` : metadata.until}` : ''}
 ${metadata.author ? `Author: ${metadata.author}` : ''}
+${metadata.paths ? `Paths: ${metadata.paths.join(', ')}` : ''}
+${metadata.exclude ? `Excluded: ${metadata.exclude.join(', ')}` : ''}
 
 `
     : ''
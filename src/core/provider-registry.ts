@@ -0,0 +1,160 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { geminiProvider } from './providers/gemini-provider.js';
+import { claudeProvider } from './providers/claude-provider.js';
+import { openAICompatibleProvider, openAIProvider } from './providers/openai-provider.js';
+import { ollamaProvider } from './providers/ollama-provider.js';
+import { AIProvider, AIProviderClient, AIProviderPlugin } from '../types/index.js';
+
+/**
+ * Registry of the AI providers AIService can talk to
+ * Holds the built-in providers and any loaded from the packages named in the config
+ */
+export class ProviderRegistry {
+  private readonly plugins = new Map<string, AIProviderPlugin>();
+  private readonly loadedPackages = new Set<string>();
+
+  constructor(plugins: readonly AIProviderPlugin[] = []) {
+    for (const plugin of plugins) {
+      this.register(plugin);
+    }
+  }
+
+  /**
+   * Register a provider under its id
+   * @throws When another provider already uses the id
+   */
+  public register(plugin: AIProviderPlugin): void {
+    if (this.plugins.has(plugin.id)) {
+      throw new Error(`AI provider "${plugin.id}" is already registered`);
+    }
+    this.plugins.set(plugin.id, plugin);
+  }
+
+  /**
+   * Get a registered provider, if there is one with this id
+   */
+  public get(id: string): AIProviderPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  /**
+   * Get a registered provider
+   * @throws When no provider has this id
+   */
+  public resolve(id: string): AIProviderPlugin {
+    const plugin = this.plugins.get(id);
+    if (!plugin) {
+      throw new Error(
+        `Unsupported AI provider: ${id}. Add the package that provides it to "providerPackages" in the config`
+      );
+    }
+    return plugin;
+  }
+
+  /**
+   * Create a client for a configured provider
+   */
+  public create(provider: AIProvider): AIProviderClient {
+    return this.resolve(provider.provider).create(provider);
+  }
+
+  /**
+   * Ids of every registered provider
+   */
+  public getIds(): string[] {
+    return [...this.plugins.keys()];
+  }
+
+  /**
+   * Register the providers exported by npm packages
+   * A package's default export is a provider or an array of providers; packages already
+   * loaded are skipped
+   * @throws When a package cannot be imported or exports no valid provider
+   */
+  public async loadPackages(packages: readonly string[]): Promise<void> {
+    for (const name of packages) {
+      if (this.loadedPackages.has(name)) {
+        continue;
+      }
+
+      let module: { default?: unknown };
+      try {
+        module = await this.importPackage(name);
+      } catch (error) {
+        throw new Error(
+          `Could not load provider package "${name}": ${error instanceof Error ? error.message : error}`,
+          { cause: error }
+        );
+      }
+
+      const exported = module.default;
+      const plugins = Array.isArray(exported) ? exported : [exported];
+      if (plugins.length === 0 || !plugins.every(isProviderPlugin)) {
+        throw new Error(
+          `Provider package "${name}" must export a provider with an id, a defaultModel and create()`
+        );
+      }
+
+      for (const plugin of plugins) {
+        this.register(plugin);
+      }
+      this.loadedPackages.add(name);
+    }
+  }
+
+  /**
+   * Import a package installed next to devsum or in the global npm prefix, or a module given
+   * by absolute path
+   * The current directory is never searched: running devsum inside an untrusted checkout
+   * must not execute that checkout's code
+   */
+  private async importPackage(name: string): Promise<{ default?: unknown }> {
+    if (path.isAbsolute(name)) {
+      return await import(pathToFileURL(name).href);
+    }
+
+    try {
+      // A bare specifier resolves from devsum's own location
+      return await import(name);
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ERR_MODULE_NOT_FOUND') {
+        throw error;
+      }
+      // Resolved as if required from a module in the global prefix
+      const resolved = createRequire(path.join(getGlobalModulesDirectory(), path.sep)).resolve(
+        name
+      );
+      return await import(pathToFileURL(resolved).href);
+    }
+  }
+}
+
+/**
+ * Directory global npm packages are installed in, e.g. /usr/local/lib/node_modules
+ */
+function getGlobalModulesDirectory(): string {
+  const isWindows = process.platform === 'win32';
+  const prefix =
+    process.env.npm_config_prefix ??
+    (isWindows ? path.dirname(process.execPath) : path.resolve(process.execPath, '..', '..'));
+  return isWindows ? path.join(prefix, 'node_modules') : path.join(prefix, 'lib', 'node_modules');
+}
+
+function isProviderPlugin(value: unknown): value is AIProviderPlugin {
+  const plugin = value as Partial<AIProviderPlugin> | null;
+  return (
+    typeof plugin?.id === 'string' &&
+    typeof plugin.defaultModel === 'string' &&
+    typeof plugin.create === 'function'
+  );
+}
+
+export const providerRegistry = new ProviderRegistry([
+  geminiProvider,
+  claudeProvider,
+  openAIProvider,
+  openAICompatibleProvider,
+  ollamaProvider,
+]);
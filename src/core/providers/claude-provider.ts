@@ -0,0 +1,158 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  AIProvider,
+  AIProviderClient,
+  AIProviderPlugin,
+  CompletionOptions,
+  JSONCompletionOptions,
+} from '../../types/index.js';
+
+const CLAUDE_MODELS = [
+  'claude-3-5-sonnet-20241022',
+  'claude-3-5-haiku-20241022',
+  'claude-3-opus-20240229',
+] as const;
+
+/**
+ * Models probed when listing, since this SDK version has no model listing call
+ */
+const KNOWN_CLAUDE_MODELS = [
+  'claude-3-5-sonnet-20241022',
+  'claude-3-5-haiku-20241022',
+  'claude-3-opus-20240229',
+  'claude-3-sonnet-20240229',
+  'claude-3-haiku-20240307',
+] as const;
+
+/**
+ * Anthropic Claude through the Messages API
+ */
+export class ClaudeProvider implements AIProviderClient {
+  private readonly client: Anthropic;
+  private readonly model: string;
+
+  constructor(provider: AIProvider) {
+    this.client = new Anthropic({ apiKey: provider.apiKey });
+    this.model = provider.model || claudeProvider.defaultModel;
+  }
+
+  public async completeText(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const response = await this.send(
+      {
+        model: this.model,
+        max_tokens: options.maxTokens ?? 1000,
+        temperature: options.temperature ?? 0.7,
+        messages: [{ role: 'user', content: prompt }],
+      },
+      options
+    );
+
+    return this.extractText(response);
+  }
+
+  public async completeJSON(prompt: string, options: JSONCompletionOptions = {}): Promise<string> {
+    if (!options.schema) {
+      return this.completeText(prompt, options);
+    }
+
+    const response = await this.send(
+      {
+        model: this.model,
+        max_tokens: options.maxTokens ?? 1000,
+        temperature: options.temperature ?? 0.7,
+        tools: [
+          {
+            name: options.schema.name,
+            description: options.schema.description,
+            input_schema: options.schema.definition as unknown as Anthropic.Tool.InputSchema,
+          },
+        ],
+        tool_choice: { type: 'tool', name: options.schema.name },
+        messages: [{ role: 'user', content: prompt }],
+      },
+      options
+    );
+
+    // Claude answers with the forced tool call; fall back to any text it returned instead
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    return toolUse ? JSON.stringify((toolUse as any).input) : this.extractText(response);
+  }
+
+  public async listModels(): Promise<readonly string[]> {
+    const availableModels: string[] = [];
+
+    for (const modelName of KNOWN_CLAUDE_MODELS) {
+      try {
+        await this.client.messages.create({
+          model: modelName,
+          max_tokens: 10,
+          messages: [{ role: 'user', content: 'test' }],
+        });
+        availableModels.push(modelName);
+      } catch {
+        // Model not available, skip it
+        continue;
+      }
+    }
+
+    return availableModels;
+  }
+
+  public async validateCredentials(): Promise<string | null> {
+    try {
+      await this.client.messages.create({
+        model: this.model,
+        max_tokens: 1,
+        messages: [{ role: 'user', content: 'test' }],
+      });
+      return null;
+    } catch (error) {
+      return `Claude rejected the API key: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  /**
+   * Send a request, streaming it when the caller wants the text as it arrives
+   * Tool input streams as JSON text, so structured answers can be shown while they are written
+   * Token usage is read from the final message either way
+   */
+  private async send(
+    body: Anthropic.MessageCreateParamsNonStreaming,
+    options: CompletionOptions
+  ): Promise<Anthropic.Message> {
+    const { onText, signal } = options;
+    let response: Anthropic.Message;
+    if (!onText) {
+      response = await this.client.messages.create(body, { signal });
+    } else {
+      const stream = this.client.messages.stream(body, { signal });
+      let json = '';
+      stream.on('text', (_delta, snapshot) => onText(snapshot));
+      stream.on('inputJson', partialJson => {
+        json += partialJson;
+        onText(json);
+      });
+      response = await stream.finalMessage();
+    }
+
+    options.onUsage?.({
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    });
+    return response;
+  }
+
+  private extractText(response: Anthropic.Message): string {
+    return response.content
+      .filter(block => block.type === 'text')
+      .map(block => (block as any).text)
+      .join('\n');
+  }
+}
+
+export const claudeProvider: AIProviderPlugin = {
+  id: 'claude',
+  defaultModel: 'claude-3-5-sonnet-20241022',
+  models: CLAUDE_MODELS,
+  create: provider => new ClaudeProvider(provider),
+};
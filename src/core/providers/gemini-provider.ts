@@ -0,0 +1,122 @@
+import {
+  EnhancedGenerateContentResponse,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  ResponseSchema,
+} from '@google/generative-ai';
+import {
+  AIProvider,
+  AIProviderClient,
+  AIProviderPlugin,
+  CompletionOptions,
+  JSONCompletionOptions,
+} from '../../types/index.js';
+
+const GEMINI_MODELS = ['gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro'] as const;
+
+/**
+ * Models probed when listing, since the SDK has no model listing call
+ */
+const KNOWN_GEMINI_MODELS = [
+  'gemini-2.0-flash',
+  'gemini-1.5-flash',
+  'gemini-1.5-pro',
+  'gemini-1.5-flash-8b',
+  'gemini-1.0-pro',
+] as const;
+
+/**
+ * Google Gemini through the Generative AI SDK
+ */
+export class GeminiProvider implements AIProviderClient {
+  private readonly client: GoogleGenerativeAI;
+  private readonly model: string;
+
+  constructor(provider: AIProvider) {
+    this.client = new GoogleGenerativeAI(provider.apiKey);
+    this.model = provider.model || geminiProvider.defaultModel;
+  }
+
+  public completeText(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    return this.generate(this.client.getGenerativeModel({ model: this.model }), prompt, options);
+  }
+
+  public async completeJSON(prompt: string, options: JSONCompletionOptions = {}): Promise<string> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        // Gemini's responseSchema is the OpenAPI subset of JSON schema the prompts use
+        ...(options.schema
+          ? { responseSchema: options.schema.definition as unknown as ResponseSchema }
+          : {}),
+      },
+    });
+    return this.generate(model, prompt, options);
+  }
+
+  public async listModels(): Promise<readonly string[]> {
+    const availableModels: string[] = [];
+
+    for (const modelName of KNOWN_GEMINI_MODELS) {
+      try {
+        const model = this.client.getGenerativeModel({ model: modelName });
+        await model.generateContent('test');
+        availableModels.push(modelName);
+      } catch {
+        // Model not available, skip it
+        continue;
+      }
+    }
+
+    return availableModels;
+  }
+
+  public async validateCredentials(): Promise<string | null> {
+    try {
+      await this.client.getGenerativeModel({ model: this.model }).countTokens('test');
+      return null;
+    } catch (error) {
+      return `Gemini rejected the API key: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private async generate(
+    model: GenerativeModel,
+    prompt: string,
+    options: CompletionOptions
+  ): Promise<string> {
+    const requestOptions = { signal: options.signal };
+    if (!options.onText) {
+      const result = await model.generateContent(prompt, requestOptions);
+      this.reportUsage(result.response, options);
+      return result.response.text();
+    }
+
+    const result = await model.generateContentStream(prompt, requestOptions);
+    let text = '';
+    for await (const chunk of result.stream) {
+      text += chunk.text();
+      options.onText(text);
+    }
+    this.reportUsage(await result.response, options);
+    return text;
+  }
+
+  private reportUsage(response: EnhancedGenerateContentResponse, options: CompletionOptions): void {
+    const { usageMetadata } = response;
+    if (usageMetadata) {
+      options.onUsage?.({
+        inputTokens: usageMetadata.promptTokenCount,
+        outputTokens: usageMetadata.candidatesTokenCount,
+      });
+    }
+  }
+}
+
+export const geminiProvider: AIProviderPlugin = {
+  id: 'gemini',
+  defaultModel: 'gemini-2.0-flash',
+  models: GEMINI_MODELS,
+  create: provider => new GeminiProvider(provider),
+};
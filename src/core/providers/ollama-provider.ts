@@ -0,0 +1,131 @@
+import {
+  AIProvider,
+  AIProviderClient,
+  AIProviderPlugin,
+  CompletionOptions,
+} from '../../types/index.js';
+
+const OLLAMA_MODELS = [
+  'phi3:mini',
+  'llama3.2:1b',
+  'llama3.2:3b',
+  'gemma2:2b',
+  'tinyllama',
+  'llama3.2',
+  'llama3',
+  'mistral',
+  'codellama',
+] as const;
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+/**
+ * Local models served by Ollama, through its HTTP API
+ * Generation keeps each model's own sampling settings, so token limits and temperature are
+ * not sent; token usage is not reported and gets estimated
+ */
+export class OllamaProvider implements AIProviderClient {
+  private readonly baseUrl: string;
+  private readonly model: string;
+
+  constructor(provider: AIProvider) {
+    this.baseUrl = provider.baseUrl || DEFAULT_OLLAMA_URL;
+    this.model = provider.model || ollamaProvider.defaultModel;
+  }
+
+  public completeText(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    return this.generate({ model: this.model, prompt }, options);
+  }
+
+  public completeJSON(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    return this.generate({ model: this.model, prompt, format: 'json' }, options);
+  }
+
+  public async listModels(): Promise<readonly string[]> {
+    const response = await this.request('/api/tags', { method: 'GET' });
+    const data = await response.json();
+    return (data.models || [])
+      .map((model: any) => model.name || model.model)
+      .filter((name: string) => name)
+      .sort();
+  }
+
+  public async validateCredentials(): Promise<string | null> {
+    try {
+      await this.listModels();
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private async generate(
+    body: Record<string, unknown>,
+    { onText, signal }: CompletionOptions
+  ): Promise<string> {
+    const response = await this.request('/api/generate', {
+      method: 'POST',
+      body: JSON.stringify({ ...body, stream: Boolean(onText) }),
+      signal: signal ?? null,
+    });
+    if (!onText) {
+      const data = await response.json();
+      return data.response || '';
+    }
+
+    // Streaming answers arrive as one JSON object per line
+    let text = '';
+    let buffer = '';
+    const decoder = new TextDecoder();
+    const reader = response.body?.getReader();
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines.filter(line => line.trim())) {
+        const data = JSON.parse(line);
+        if (data.error) {
+          throw new Error(`Ollama API error: ${data.error}`);
+        }
+        text += data.response ?? '';
+        onText(text);
+      }
+    }
+    return text;
+  }
+
+  private async request(endpoint: string, init: RequestInit): Promise<Response> {
+    try {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Ollama API error: ${response.statusText}`);
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('fetch')) {
+        throw new Error(
+          `Failed to connect to Ollama at ${this.baseUrl}. Make sure Ollama is running.`
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+export const ollamaProvider: AIProviderPlugin = {
+  id: 'ollama',
+  defaultModel: 'phi3:mini',
+  models: OLLAMA_MODELS,
+  create: provider => new OllamaProvider(provider),
+};
@@ -0,0 +1,165 @@
+import OpenAI from 'openai';
+import {
+  AIProvider,
+  AIProviderClient,
+  AIProviderPlugin,
+  CompletionOptions,
+  JSONCompletionOptions,
+} from '../../types/index.js';
+
+const OPENAI_MODELS = ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'] as const;
+
+/**
+ * OpenAI, or any gateway speaking the OpenAI API (vLLM, LM Studio, OpenRouter, Azure)
+ */
+export class OpenAIProvider implements AIProviderClient {
+  private readonly client: OpenAI;
+  private readonly model: string;
+  private readonly compatible: boolean;
+
+  constructor(provider: AIProvider, compatible = false) {
+    this.compatible = compatible;
+    this.client = compatible
+      ? OpenAIProvider.createCompatibleClient(provider)
+      : new OpenAI({ apiKey: provider.apiKey });
+    this.model =
+      provider.model ||
+      (compatible ? openAICompatibleProvider.defaultModel : openAIProvider.defaultModel);
+  }
+
+  public completeText(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    return this.complete(
+      {
+        model: this.model,
+        max_tokens: options.maxTokens ?? 1000,
+        temperature: options.temperature ?? 0.7,
+        messages: [{ role: 'user', content: prompt }],
+      },
+      options
+    );
+  }
+
+  public completeJSON(prompt: string, options: JSONCompletionOptions = {}): Promise<string> {
+    return this.complete(
+      {
+        model: this.model,
+        max_tokens: options.maxTokens ?? 1000,
+        temperature: options.temperature ?? 0.7,
+        // The original gpt-4 snapshots and many OpenAI-compatible servers reject response_format,
+        // so they rely on the prompt alone
+        ...(this.compatible || /^gpt-4(-0314|-0613)?$/.test(this.model)
+          ? {}
+          : { response_format: { type: 'json_object' as const } }),
+        messages: [{ role: 'user', content: prompt }],
+      },
+      options
+    );
+  }
+
+  public async listModels(): Promise<readonly string[]> {
+    const response = await this.client.models.list();
+    return response.data
+      .filter(
+        model =>
+          // Compatible endpoints serve arbitrary model names, so only filter OpenAI's own list
+          this.compatible ||
+          model.id.includes('gpt-4') ||
+          model.id.includes('gpt-3.5') ||
+          model.id.includes('gpt-4o')
+      )
+      .map(model => model.id)
+      .sort();
+  }
+
+  public async validateCredentials(): Promise<string | null> {
+    try {
+      await this.client.models.list();
+      return null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.compatible
+        ? `The endpoint rejected the request: ${message}`
+        : `OpenAI rejected the API key: ${message}`;
+    }
+  }
+
+  /**
+   * Create an OpenAI SDK client for a gateway speaking the OpenAI API
+   */
+  private static createCompatibleClient(provider: AIProvider): OpenAI {
+    if (!provider.baseUrl) {
+      throw new Error('OpenAI-compatible providers need a baseUrl');
+    }
+
+    const authScheme = provider.authScheme ?? 'bearer';
+    // The SDK always sends "Authorization: Bearer"; a null header removes it for other schemes
+    const authHeaders: Record<string, string | null> =
+      authScheme === 'api-key'
+        ? { Authorization: null, 'api-key': provider.apiKey }
+        : authScheme === 'none'
+          ? { Authorization: null }
+          : {};
+
+    return new OpenAI({
+      apiKey: authScheme === 'bearer' ? provider.apiKey : 'unused',
+      baseURL: provider.baseUrl,
+      defaultHeaders: { ...authHeaders, ...provider.headers },
+    });
+  }
+
+  private async complete(
+    body: OpenAI.ChatCompletionCreateParamsNonStreaming,
+    options: CompletionOptions
+  ): Promise<string> {
+    const { onText, signal } = options;
+    if (!onText) {
+      const response = await this.client.chat.completions.create(body, { signal });
+      this.reportUsage(response.usage, options);
+      return response.choices[0]?.message?.content || '';
+    }
+
+    const stream = await this.client.chat.completions.create(
+      {
+        ...body,
+        stream: true,
+        // Compatible servers may reject stream_options; their usage is estimated instead
+        ...(this.compatible ? {} : { stream_options: { include_usage: true } }),
+      },
+      { signal }
+    );
+    let text = '';
+    for await (const chunk of stream) {
+      text += chunk.choices[0]?.delta?.content ?? '';
+      onText(text);
+      this.reportUsage(chunk.usage, options);
+    }
+    return text;
+  }
+
+  private reportUsage(
+    usage: OpenAI.CompletionUsage | null | undefined,
+    options: CompletionOptions
+  ): void {
+    if (usage) {
+      options.onUsage?.({
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+      });
+    }
+  }
+}
+
+export const openAIProvider: AIProviderPlugin = {
+  id: 'openai',
+  defaultModel: 'gpt-4',
+  models: OPENAI_MODELS,
+  create: provider => new OpenAIProvider(provider),
+};
+
+export const openAICompatibleProvider: AIProviderPlugin = {
+  id: 'openai-compatible',
+  defaultModel: 'gpt-4o-mini',
+  // Whatever the endpoint serves; there is no fixed list
+  models: [],
+  create: provider => new OpenAIProvider(provider, true),
+};
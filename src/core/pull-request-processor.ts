@@ -0,0 +1,200 @@
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import { configManager } from './config.js';
+import { GitService } from './git.js';
+import { FallbackAIService } from './fallback-ai-service.js';
+import { tokenUsage } from './token-usage.js';
+import { DisplayService } from './display-service.js';
+import { CommitValidator } from './commit-validator.js';
+import {
+  PULL_REQUEST_TEMPLATE_PATHS,
+  renderPullRequestDescription,
+} from '../utils/pull-request.js';
+import { extractTicketKey, extractTicketKeys } from '../utils/ticket.js';
+import { redactSecrets, scanDiffForSecrets } from '../utils/secret-scan.js';
+import { GitCommit, PullRequestOptions, SecretScanSettings } from '../types/index.js';
+
+/**
+ * Service responsible for writing pull request descriptions
+ * Compares the current branch with its base and fills the repository's template, without
+ * calling any hosting API
+ */
+export class PullRequestProcessor {
+  private readonly gitService: GitService;
+  private readonly validator: CommitValidator;
+
+  constructor() {
+    this.gitService = new GitService();
+    this.validator = new CommitValidator();
+  }
+
+  /**
+   * Process the pull request description workflow
+   */
+  public async processPullRequest(options: PullRequestOptions): Promise<void> {
+    const startTime = Date.now();
+    // Only the title and description go to stdout so they can be piped; progress, notices
+    // and token usage printed by the shared services go to stderr
+    const log = console.log;
+    console.log = console.error;
+
+    try {
+      const gitError = await this.validator.validateGitRepository();
+      if (gitError) {
+        console.error();
+        console.error(chalk.red('❌ Not a git repository'));
+        console.error(chalk.gray(gitError));
+        process.exit(1);
+      }
+
+      const config = await configManager.loadConfig();
+      const ticketPattern = config?.tickets?.pattern;
+      const ticketError = this.validator.validateTicket(options.ticket, ticketPattern);
+      if (ticketError) {
+        console.error();
+        console.error(chalk.red('❌ Invalid ticket'));
+        console.error(chalk.yellow(ticketError));
+        process.exit(1);
+      }
+
+      const base = options.base ?? (await this.gitService.getDefaultBranch());
+      if (!base || !(await this.gitService.refExists(base))) {
+        console.error();
+        console.error(
+          chalk.red(base ? `❌ Unknown base branch: ${base}` : '❌ No base branch found')
+        );
+        console.error(chalk.blue('💡 Pass the branch to compare with, e.g. --base main'));
+        process.exit(1);
+      }
+
+      const branch = await this.gitService.getCurrentBranch();
+      DisplayService.displayProgress(`Comparing ${branch} with ${base}...`);
+      const commits = (
+        await this.gitService.getCommits(undefined, undefined, undefined, {
+          range: `${base}..HEAD`,
+        })
+      ).filter(commit => !commit.isMerge);
+
+      if (commits.length === 0) {
+        console.error();
+        console.error(chalk.yellow(`⚠️  ${branch} has no commits that are not in ${base}`));
+        process.exit(0);
+      }
+
+      const diff = this.protectSecrets(
+        await this.gitService.getBranchDiff(base),
+        config?.secrets ?? {}
+      );
+      DisplayService.displayProgress(`Found ${commits.length} commits`, true);
+
+      const tickets = this.collectTickets(branch, commits, options.ticket, ticketPattern);
+
+      const provider = await configManager.getProvider(options.provider);
+      if (!provider) {
+        throw new Error('No AI provider configured. Run "devsum setup" first.');
+      }
+
+      DisplayService.displayAIProgress(provider.provider, provider.model || 'default');
+      const aiService = await FallbackAIService.create(provider, options.cache !== false);
+      const description = await aiService.generatePullRequestDescription({
+        branch,
+        base,
+        commits,
+        diff,
+        tickets,
+      });
+      DisplayService.displayProgress('Pull request description generated', true);
+
+      const template = await this.readTemplate();
+      const body = renderPullRequestDescription(
+        {
+          ...description,
+          // Fall back to the commit subjects when the model left the change list empty
+          changes:
+            description.changes.length > 0
+              ? description.changes
+              : commits.map(commit => commit.message),
+        },
+        tickets,
+        template?.content
+      );
+
+      const processingTime = (Date.now() - startTime) / 1000;
+      if (options.output) {
+        await fs.writeFile(options.output, body);
+        console.error();
+        console.error(chalk.green.bold(`✅ Pull request description written to ${options.output}`));
+        console.error(chalk.gray(`   Title: ${description.title}`));
+      } else {
+        process.stdout.write(`${description.title}\n\n${body}\n`);
+      }
+      if (template) {
+        console.error(chalk.gray(`   Template: ${template.path}`));
+      }
+      console.error(chalk.gray(`\n⏱️  Processing time: ${processingTime.toFixed(2)}s`));
+      DisplayService.displayTokenUsage(await tokenUsage.finishRun('pr'));
+    } catch (error) {
+      await tokenUsage.finishRun('pr');
+      DisplayService.displayError(error, 'Pull request description');
+      process.exit(1);
+    } finally {
+      console.log = log;
+    }
+  }
+
+  /**
+   * Ticket keys the pull request refers to: --ticket first, then the branch name, then the
+   * commit messages
+   */
+  private collectTickets(
+    branch: string,
+    commits: readonly GitCommit[],
+    ticket?: string,
+    pattern?: string
+  ): string[] {
+    const keys = [
+      ticket,
+      extractTicketKey(branch, pattern),
+      ...commits.flatMap(commit =>
+        extractTicketKeys(`${commit.message}\n${commit.body ?? ''}`, pattern)
+      ),
+    ];
+    return [...new Set(keys.filter((key): key is string => Boolean(key)))];
+  }
+
+  /**
+   * Apply the secret policy to the branch diff before it is sent to the AI
+   * @throws When secrets are found and the policy is block
+   */
+  private protectSecrets(diff: string, settings: SecretScanSettings): string {
+    const findings = scanDiffForSecrets(diff, settings);
+    const policy = settings.policy ?? 'redact';
+    if (findings.length === 0) {
+      return diff;
+    }
+
+    DisplayService.displaySecretFindings(findings, policy, 'the branch changes');
+    if (policy === 'block') {
+      throw new Error(
+        'Possible secrets found in the branch changes, nothing was sent to the AI. Allow them with "secrets.allowlist" in the config'
+      );
+    }
+    return policy === 'redact' ? redactSecrets(diff, findings) : diff;
+  }
+
+  /**
+   * Read the repository's pull request template, if it has one
+   */
+  private async readTemplate(): Promise<{ path: string; content: string } | null> {
+    const root = await this.gitService.getRepoRoot();
+    for (const candidate of PULL_REQUEST_TEMPLATE_PATHS) {
+      try {
+        return { path: candidate, content: await fs.readFile(path.join(root, candidate), 'utf-8') };
+      } catch {
+        // Not in this location, try the next one
+      }
+    }
+    return null;
+  }
+}
@@ -4,11 +4,39 @@ import chalk from 'chalk';
 import { configManager } from './config.js';
 import { GitService } from './git.js';
 import { AIService } from './ai.js';
+import { FallbackAIService } from './fallback-ai-service.js';
+import { tokenUsage } from './token-usage.js';
+import { providerRegistry } from './provider-registry.js';
 import { HTMLReportGenerator } from './htmlReportGenerator.js';
 import { PlainTextReportGenerator } from './plainTextReportGenerator.js';
 import { DisplayService } from './display-service.js';
 import { CommitValidator } from './commit-validator.js';
-import { ReportOptions, GitCommit, AIProvider } from '../types/index.js';
+import { ReportOptions, GitCommit, AIProvider, AIResponse } from '../types/index.js';
+import { getCommitAuthors } from '../utils/commit-authors.js';
+import { buildHeuristicReport } from '../utils/heuristic-report.js';
+
+/**
+ * Output directory used when --no-ai runs without a saved configuration
+ */
+const DEFAULT_OUTPUT_DIR = './reports';
+
+/**
+ * Metadata shared by every report output format
+ */
+interface ReportFileMetadata {
+  since?: string;
+  until?: string;
+  author?: string;
+  paths?: string[];
+  exclude?: string[];
+  range?: string;
+  branch: string;
+  reportLength: string;
+  truncated?: boolean;
+  maxCommits?: number;
+  /** Provider that wrote the report; undefined when it was built with --no-ai */
+  provider?: AIProvider | undefined;
+}
 
 /**
  * Service responsible for processing report generation
@@ -41,6 +69,8 @@ export class ReportProcessor {
     }
   ): Promise<void> {
     const startTime = Date.now();
+    // Ctrl+C aborts the AI request instead of killing the process mid-stream
+    const cancellation = new AbortController();
 
     try {
       // Handle --list-providers option
@@ -93,25 +123,58 @@ export class ReportProcessor {
         process.exit(1);
       }
 
-      // Load configuration and select provider
-      DisplayService.displayProgress('Loading configuration...');
-      const config = await configManager.loadConfig();
-      if (!config) {
-        this.displayNoConfigError();
+      const chunkByError = this.validator.validateChunkStrategy(options.chunkBy);
+      if (chunkByError) {
+        console.log();
+        console.error(chalk.red('❌ Invalid chunk strategy'));
+        console.log(chalk.yellow(chunkByError));
         process.exit(1);
       }
 
-      // Get the selected provider
-      const selectedProvider = await configManager.getProvider(options.provider);
-      if (!selectedProvider) {
-        this.displayProviderError(options.provider, config);
+      const maxCommitsError = this.validator.validateMaxCommits(options.maxCommits);
+      if (maxCommitsError) {
+        console.log();
+        console.error(chalk.red('❌ Invalid commit limit'));
+        console.log(chalk.yellow(maxCommitsError));
         process.exit(1);
       }
+      const maxCommits = options.maxCommits ? Number(options.maxCommits) : undefined;
 
-      DisplayService.displayProgress(
-        `Using AI provider: ${selectedProvider.name} (${selectedProvider.provider})`,
-        true
-      );
+      const revisionSelection = {
+        range: options.range,
+        fromTag: options.fromTag,
+        to: options.to,
+        branch: options.branch,
+      };
+
+      // Load configuration and select provider
+      DisplayService.displayProgress('Loading configuration...');
+      const config = await configManager.loadConfig();
+      let selectedProvider: AIProvider | undefined;
+      if (options.ai === false) {
+        // --no-ai needs neither a configuration nor a provider, and sends nothing anywhere
+        DisplayService.displayProgress(
+          'AI disabled: building the report from commit metadata',
+          true
+        );
+      } else {
+        if (!config) {
+          this.displayNoConfigError();
+          process.exit(1);
+        }
+
+        // Get the selected provider
+        selectedProvider = (await configManager.getProvider(options.provider)) ?? undefined;
+        if (!selectedProvider) {
+          this.displayProviderError(options.provider, config);
+          process.exit(1);
+        }
+
+        DisplayService.displayProgress(
+          `Using AI provider: ${selectedProvider.name} (${selectedProvider.provider})`,
+          true
+        );
+      }
 
       // Validate git repository
       DisplayService.displayProgress('Checking git repository...');
@@ -125,13 +188,24 @@ export class ReportProcessor {
       }
       DisplayService.displayProgress('Git repository verified', true);
 
+      const rangeError = await this.validator.validateRevisionSelection(revisionSelection);
+      if (rangeError) {
+        console.log();
+        console.error(chalk.red('❌ Invalid revision range'));
+        console.log(chalk.yellow(rangeError));
+        process.exit(1);
+      }
+      const range = await this.gitService.resolveRevisionRange(revisionSelection);
+
       // Get git commits
       DisplayService.displayProgress('Analyzing commit history...');
-      const commits = await this.gitService.getCommits(
+      const history = await this.gitService.getCommitHistory(
         options.since,
         options.until,
-        options.author
+        options.author,
+        { maxCommits, paths: { include: options.path, exclude: options.exclude }, range }
       );
+      const { commits, truncated } = history;
 
       if (commits.length === 0) {
         console.log();
@@ -140,29 +214,59 @@ export class ReportProcessor {
           since: options.since,
           until: options.until,
           author: options.author,
+          paths: options.path,
+          exclude: options.exclude,
+          range,
         });
         process.exit(0);
       }
 
       const branch = await this.gitService.getCurrentBranch();
       DisplayService.displayProgress(`Found ${commits.length} commits`, true);
+      if (truncated) {
+        console.log(
+          chalk.yellow(
+            `⚠️  Commit limit reached: only the newest ${maxCommits} matching commits will be analyzed`
+          )
+        );
+      }
 
       // Pass filters to display function
       DisplayService.displayCommitStats([...commits], branch, {
         since: options.since,
         until: options.until,
         author: options.author,
+        paths: options.path,
+        exclude: options.exclude,
+        range,
       });
 
-      // Generate AI report
-      DisplayService.displayAIProgress(
-        selectedProvider.provider,
-        selectedProvider.model || 'default'
-      );
-      const aiService = AIService.fromProvider(selectedProvider);
       const reportLength = (options.length as 'light' | 'short' | 'detailed') || 'detailed';
-      const report = await aiService.generateReport(commits, reportLength);
-      DisplayService.displayProgress('AI analysis complete', true);
+      let report: AIResponse;
+      let usedProvider: AIProvider | undefined;
+      if (selectedProvider) {
+        // Generate AI report
+        DisplayService.displayAIProgress(
+          selectedProvider.provider,
+          selectedProvider.model || 'default'
+        );
+        const aiService = await FallbackAIService.create(selectedProvider, options.cache !== false);
+        const cancel = () => cancellation.abort();
+        process.once('SIGINT', cancel);
+        report = await aiService
+          .generateReport(commits, reportLength, options.chunkBy, {
+            stream: options.stream !== false,
+            signal: cancellation.signal,
+          })
+          .finally(() => process.off('SIGINT', cancel));
+        DisplayService.displayProgress('AI analysis complete', true);
+        // A fallback provider may have answered instead of the selected one
+        usedProvider = aiService.getUsedProvider() ?? selectedProvider;
+      } else {
+        DisplayService.displayProgress('Summarizing commits...');
+        report = buildHeuristicReport(commits, reportLength);
+        DisplayService.displayProgress('Heuristic summary complete', true);
+      }
 
       // Prepare output with full timestamp
       const now = new Date();
@@ -177,7 +281,8 @@ export class ReportProcessor {
               ? 'txt'
               : 'md';
       const defaultName = `report-${timestamp}${lengthSuffix}.${fileExtension}`;
-      const outputPath = options.output || path.join(config.defaultOutput, defaultName);
+      const outputPath =
+        options.output || path.join(config?.defaultOutput ?? DEFAULT_OUTPUT_DIR, defaultName);
 
       // Ensure output directory exists
       await fs.mkdir(path.dirname(outputPath), { recursive: true });
@@ -186,38 +291,28 @@ export class ReportProcessor {
       DisplayService.displayProgress('Generating report file...');
       let reportContent: string;
 
+      const reportMetadata: ReportFileMetadata = {
+        since: options.since,
+        until: options.until,
+        author: options.author,
+        paths: options.path,
+        exclude: options.exclude,
+        range,
+        branch,
+        reportLength,
+        truncated,
+        maxCommits,
+        provider: usedProvider,
+      };
+
       if (options.format === 'json') {
-        reportContent = this.generateJsonReport(report, commits, {
-          since: options.since,
-          until: options.until,
-          author: options.author,
-          branch,
-          reportLength,
-        });
+        reportContent = this.generateJsonReport(report, commits, reportMetadata);
       } else if (options.format === 'html') {
-        reportContent = this.generateHtmlReport(report, commits, {
-          since: options.since,
-          until: options.until,
-          author: options.author,
-          branch,
-          reportLength,
-        });
+        reportContent = this.generateHtmlReport(report, commits, reportMetadata);
       } else if (options.format === 'txt') {
-        reportContent = this.generatePlainTextReport(report, commits, {
-          since: options.since,
-          until: options.until,
-          author: options.author,
-          branch,
-          reportLength,
-        });
+        reportContent = this.generatePlainTextReport(report, commits, reportMetadata);
       } else {
-        reportContent = this.generateMarkdownReport(report, commits, {
-          since: options.since,
-          until: options.until,
-          author: options.author,
-          branch,
-          reportLength,
-        });
+        reportContent = this.generateMarkdownReport(report, commits, reportMetadata);
       }
 
       // Save report
@@ -225,10 +320,23 @@ export class ReportProcessor {
       DisplayService.displayProgress('Report saved', true);
 
       const processingTime = (Date.now() - startTime) / 1000;
-      DisplayService.displayReportSuccess(outputPath, [...commits], processingTime, reportLength);
+      DisplayService.displayReportSuccess(
+        outputPath,
+        [...commits],
+        processingTime,
+        reportLength,
+        await tokenUsage.finishRun('report')
+      );
     } catch (error) {
+      // Requests that finished before the failure were still billed
+      const usage = await tokenUsage.finishRun('report');
+      if (cancellation.signal.aborted) {
+        DisplayService.displayCancelled('Report generation');
+        process.exit(130);
+      }
       const processingTime = (Date.now() - startTime) / 1000;
       console.log(chalk.gray(`\n⏱️  Processing time: ${processingTime.toFixed(2)}s`));
+      DisplayService.displayTokenUsage(usage);
       DisplayService.displayError(error, 'Report generation');
       process.exit(1);
     }
@@ -249,6 +357,7 @@ export class ReportProcessor {
       );
       return;
     }
+    await providerRegistry.loadPackages(config.providerPackages ?? []);
 
     console.log();
     console.log(chalk.blue('═'.repeat(55)));
@@ -266,7 +375,9 @@ export class ReportProcessor {
         console.log(chalk.blue('      🔍 Fetching available models...'));
         const availableModels = await AIService.fetchAvailableModels(
           provider.provider,
-          provider.apiKey
+          provider.apiKey,
+          provider.baseUrl,
+          { headers: provider.headers, authScheme: provider.authScheme }
         );
         if (availableModels.length > 0) {
           console.log(chalk.gray(`      Available models: ${availableModels.join(', ')}`));
@@ -298,6 +409,7 @@ export class ReportProcessor {
       );
       return;
     }
+    await providerRegistry.loadPackages(config.providerPackages ?? []);
 
     console.log();
     console.log(chalk.blue('═'.repeat(55)));
@@ -315,7 +427,9 @@ export class ReportProcessor {
         console.log(chalk.blue('      🔍 Fetching available models...'));
         const availableModels = await AIService.fetchAvailableModels(
           provider.provider,
-          provider.apiKey
+          provider.apiKey,
+          provider.baseUrl,
+          { headers: provider.headers, authScheme: provider.authScheme }
         );
         if (availableModels.length > 0) {
           console.log(chalk.green(`      ✅ Available models (${availableModels.length}):`));
@@ -345,29 +459,45 @@ export class ReportProcessor {
   private generateJsonReport(
     report: any,
     commits: readonly GitCommit[],
-    metadata: {
-      since?: string;
-      until?: string;
-      author?: string;
-      branch: string;
-      reportLength: string;
-    }
+    metadata: ReportFileMetadata
   ): string {
     return JSON.stringify(
       {
         metadata: {
           generatedAt: new Date().toISOString(),
           branch: metadata.branch,
-          period: metadata.since
-            ? `${metadata.since}${metadata.until ? ` to ${metadata.until}` : ' to present'}`
-            : 'All commits',
+          ...(metadata.range
+            ? { range: metadata.range }
+            : {
+                period: metadata.since
+                  ? `${metadata.since}${metadata.until ? ` to ${metadata.until}` : ' to present'}`
+                  : 'All commits',
+              }),
           commitsAnalyzed: commits.length,
           author: metadata.author || 'All authors',
           reportLength: metadata.reportLength,
+          aiProvider: metadata.provider
+            ? {
+                name: metadata.provider.name,
+                provider: metadata.provider.provider,
+                model:
+                  metadata.provider.model || AIService.getDefaultModel(metadata.provider.provider),
+              }
+            : null,
+          truncated: metadata.truncated ?? false,
+          ...(metadata.truncated
+            ? {
+                warning: `Commit limit reached: only the newest ${metadata.maxCommits} matching commits were analyzed`,
+              }
+            : {}),
           filters: {
             since: metadata.since,
             until: metadata.until,
             author: metadata.author,
+            paths: metadata.paths,
+            exclude: metadata.exclude,
+            range: metadata.range,
+            maxCommits: metadata.maxCommits,
           },
         },
         report,
@@ -384,16 +514,10 @@ export class ReportProcessor {
   private generateHtmlReport(
     report: any,
     commits: readonly GitCommit[],
-    metadata: {
-      since?: string;
-      until?: string;
-      author?: string;
-      branch: string;
-      reportLength: string;
-    }
+    metadata: ReportFileMetadata
   ): string {
     const htmlGenerator = new HTMLReportGenerator();
-    const authors = [...new Set(commits.map(c => c.author))];
+    const authors = [...new Set(commits.flatMap(c => getCommitAuthors(c)))];
     const filesModified = [...new Set(commits.flatMap(c => c.files))].length;
     const dateRange =
       commits.length > 0
@@ -404,6 +528,9 @@ export class ReportProcessor {
       since: metadata.since,
       until: metadata.until,
       author: metadata.author,
+      paths: metadata.paths,
+      exclude: metadata.exclude,
+      range: metadata.range,
       branch: metadata.branch,
       generatedAt: new Date().toISOString(),
       length: metadata.reportLength,
@@ -411,6 +538,9 @@ export class ReportProcessor {
       authors: authors.length,
       filesModified,
       dateRange,
+      truncated: metadata.truncated,
+      maxCommits: metadata.maxCommits,
+      aiProvider: this.describeProvider(metadata),
     });
   }
 
@@ -420,16 +550,10 @@ export class ReportProcessor {
   private generatePlainTextReport(
     report: any,
     commits: readonly GitCommit[],
-    metadata: {
-      since?: string;
-      until?: string;
-      author?: string;
-      branch: string;
-      reportLength: string;
-    }
+    metadata: ReportFileMetadata
   ): string {
     const plainTextGenerator = new PlainTextReportGenerator();
-    const authors = [...new Set(commits.map(c => c.author))];
+    const authors = [...new Set(commits.flatMap(c => getCommitAuthors(c)))];
     const filesModified = [...new Set(commits.flatMap(c => c.files))].length;
     const dateRange =
       commits.length > 0
@@ -440,6 +564,9 @@ export class ReportProcessor {
       since: metadata.since,
       until: metadata.until,
       author: metadata.author,
+      paths: metadata.paths,
+      exclude: metadata.exclude,
+      range: metadata.range,
       branch: metadata.branch,
       generatedAt: new Date().toISOString(),
       length: metadata.reportLength,
@@ -447,6 +574,9 @@ export class ReportProcessor {
       authors: authors.length,
       filesModified,
       dateRange,
+      truncated: metadata.truncated,
+      maxCommits: metadata.maxCommits,
+      aiProvider: this.describeProvider(metadata),
     });
   }
 
@@ -456,13 +586,7 @@ export class ReportProcessor {
   private generateMarkdownReport(
     report: any,
     commits: readonly GitCommit[],
-    metadata: {
-      since?: string;
-      until?: string;
-      author?: string;
-      branch: string;
-      reportLength: string;
-    }
+    metadata: ReportFileMetadata
   ): string {
     const dateRange = metadata.since
       ? `${metadata.since}${metadata.until ? ` to ${metadata.until}` : ' to present'}`
@@ -499,12 +623,17 @@ export class ReportProcessor {
         ? `  \n**Report Length:** ${metadata.reportLength.charAt(0).toUpperCase() + metadata.reportLength.slice(1)}`
         : '';
 
+    const truncationWarning = metadata.truncated
+      ? `\n\n> ⚠️ **Commit limit reached:** only the newest ${metadata.maxCommits} matching commits were analyzed. Raise \`--max-commits\` to include the full history.`
+      : '';
+
     return `# 🚀 Development Accomplishment Report
 
 **Generated:** ${new Date().toISOString().split('T')[0]}  
 **Branch:** \`${metadata.branch}\`  
-**Period:** ${periodDescription}${authorFilter}  
-**Commits Analyzed:** ${commits.length}${lengthDisplay}
+${metadata.range ? `**Range:** \`${metadata.range}\`` : `**Period:** ${periodDescription}`}${authorFilter}  
+**Commits Analyzed:** ${commits.length}  
+**AI Provider:** ${this.describeProvider(metadata)}${lengthDisplay}${truncationWarning}
 
 ---
 
@@ -517,7 +646,7 @@ ${report.summary}
 ${report.accomplishments?.map((acc: string) => `- ${acc}`).join('\n') || '- No accomplishments identified'}
 
 ${
-  report.technicalImprovements
+  report.technicalImprovements?.length
     ? `## ⚡ Technical Improvements
 
 ${report.technicalImprovements.map((imp: string) => `- ${imp}`).join('\n')}
@@ -525,11 +654,19 @@ ${report.technicalImprovements.map((imp: string) => `- ${imp}`).join('\n')}
 `
     : ''
 }${
-      report.recommendations
+      report.recommendations?.length
         ? `## 💡 Recommendations
 
 ${report.recommendations.map((rec: string) => `- ${rec}`).join('\n')}
 
+`
+        : ''
+    }${
+      report.risks?.length
+        ? `## ⚠️ Risks
+
+${report.risks.map((risk: string) => `- ${risk}`).join('\n')}
+
 `
         : ''
     }---
@@ -540,10 +677,10 @@ ${commits
   .slice(0, 15)
   .map(
     commit =>
-      `### 📝 ${commit.message}
+      `### 📝 ${commit.message}${commit.isMerge ? ' (merge)' : ''}
 **📅 Date:** ${commit.date.split('T')[0]}  
 **👤 Author:** ${commit.author}  
-**📁 Files:** ${commit.files.slice(0, 5).join(', ')}${commit.files.length > 5 ? ` (+${commit.files.length - 5} more)` : ''}
+${commit.committer && commit.committer !== commit.author ? `**🧾 Committer:** ${commit.committer}  \n` : ''}**📁 Files:** ${commit.files.slice(0, 5).join(', ')}${commit.files.length > 5 ? ` (+${commit.files.length - 5} more)` : ''}
 ${commit.insertions || commit.deletions ? `**📈 Changes:** +${commit.insertions || 0} -${commit.deletions || 0}` : ''}
 
 `
@@ -557,17 +694,19 @@ ${commits.length > 15 ? `📎 *... and ${commits.length - 15} more commits*\n\n`
 ## 📈 Statistics
 
 - **Total Commits:** ${commits.length}
-- **Authors:** ${[...new Set(commits.map(c => c.author))].length}
+- **Authors:** ${[...new Set(commits.flatMap(c => getCommitAuthors(c)))].length}
 - **Files Modified:** ${[...new Set(commits.flatMap(c => c.files))].length}
 - **Date Range:** ${commits.length > 0 ? `${commits[commits.length - 1]?.date?.split('T')[0] ?? 'Unknown'} → ${commits[0]?.date?.split('T')[0] ?? 'Unknown'}` : 'N/A'}
 ${
-  metadata.since || metadata.until || metadata.author
+  metadata.since || metadata.until || metadata.author || metadata.paths || metadata.exclude
     ? `
 ## 🔍 Applied Filters
 
 ${metadata.since ? `- **Since:** ${metadata.since.toLowerCase() === 'today' ? `today (${new Date().toISOString().split('T')[0]} 00:00:00 to now)` : metadata.since}` : ''}
 ${metadata.until ? `- **Until:** ${metadata.until.toLowerCase() === 'today' ? `today (${new Date().toISOString().split('T')[0]} 23:59:59)` : metadata.until}` : ''}
 ${metadata.author ? `- **Author:** ${metadata.author}` : ''}
+${metadata.paths ? `- **Paths:** ${metadata.paths.map(p => `\`${p}\``).join(', ')}` : ''}
+${metadata.exclude ? `- **Excluded:** ${metadata.exclude.map(p => `\`${p}\``).join(', ')}` : ''}
 `
     : ''
 }
@@ -580,6 +719,15 @@ ${metadata.author ? `- **Author:** ${metadata.author}` : ''}
 `;
   }
 
+  /**
+   * Name the provider that wrote the report, for the report header
+   */
+  private describeProvider(metadata: ReportFileMetadata): string {
+    return metadata.provider
+      ? FallbackAIService.describeProvider(metadata.provider)
+      : 'None (heuristic summary, --no-ai)';
+  }
+
   /**
    * Display no configuration error
    */
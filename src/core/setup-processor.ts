@@ -1,7 +1,7 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import { configManager } from './config.js';
-import { Config, AIProvider, AIProviderType } from '../types/index.js';
+import { Config, AIProvider, AIProviderType, ProviderAuthScheme } from '../types/index.js';
 import { getVersion } from '../utils/version.js';
 import { AIService } from './ai.js';
 import { authManager } from './auth.js';
@@ -191,6 +191,7 @@ export class SetupProcessor {
    */
   private async handleAddProvider(config: Config): Promise<void> {
     const newProvider = await this.addProvider();
+    await this.checkCredentials(newProvider);
     await configManager.addProvider(newProvider);
     const updatedConfig = await configManager.loadConfig();
     if (!updatedConfig) throw new Error('Failed to load updated config');
@@ -215,6 +216,7 @@ export class SetupProcessor {
 
     const newProvider = await this.addProvider();
     newProvider.name = providerName; // Keep the same name
+    await this.checkCredentials(newProvider);
     await configManager.addProvider(newProvider);
     const updatedConfig = await configManager.loadConfig();
     if (!updatedConfig) throw new Error('Failed to load updated config');
@@ -289,6 +291,7 @@ export class SetupProcessor {
     // Add first provider
     const firstProvider = await this.addProvider();
     firstProvider.isDefault = true; // First provider is always default
+    await this.checkCredentials(firstProvider);
     config.providers = [firstProvider];
     config.defaultProvider = firstProvider.name;
   }
@@ -333,6 +336,12 @@ export class SetupProcessor {
             name: chalk.yellow('🦙 Ollama (Local)') + chalk.gray(' - Run models locally'),
             value: 'ollama',
           },
+          {
+            name:
+              chalk.white('🔌 OpenAI-compatible') +
+              chalk.gray(' - vLLM, LM Studio, OpenRouter, Azure and other gateways'),
+            value: 'openai-compatible',
+          },
           {
             name: chalk.magenta('☁️  DevSum Cloud') + chalk.gray(' - No API keys needed'),
             value: 'devsum-cloud',
@@ -354,6 +363,11 @@ export class SetupProcessor {
       return await this.setupOllamaProviderInteractive(answers.name);
     }
 
+    // OpenAI-compatible endpoints need a base URL, auth scheme and optional headers
+    if (provider === 'openai-compatible') {
+      return await this.setupOpenAICompatibleProviderInteractive(answers.name);
+    }
+
     const configAnswers = await inquirer.prompt([
       {
         type: 'password',
@@ -415,6 +429,25 @@ export class SetupProcessor {
     };
   }
 
+  /**
+   * Check a new provider's credentials against its backend
+   * Only warns, so a provider can still be set up while offline
+   */
+  private async checkCredentials(provider: AIProvider): Promise<void> {
+    if (provider.provider === 'devsum-cloud') {
+      return;
+    }
+
+    console.log(chalk.blue('🔐 Checking credentials...'));
+    const error = await AIService.validateCredentials(provider);
+    if (error) {
+      console.log(chalk.yellow(`⚠️  ${error}`));
+      console.log(chalk.gray('   Keeping the provider anyway; run "devsum setup" to change it'));
+    } else {
+      console.log(chalk.green('✅ Credentials work'));
+    }
+  }
+
   /**
    * Display provider information
    */
@@ -455,6 +488,16 @@ export class SetupProcessor {
       console.log(chalk.gray('   • Ollama server running (default: http://localhost:11434)'));
       console.log(chalk.gray('   • Models: Will fetch available models from your local Ollama'));
       console.log(chalk.gray('   • Free: No API costs, runs entirely locally'));
+    } else if (provider === 'openai-compatible') {
+      console.log(chalk.white.bold('🔌 OpenAI-compatible Endpoint Configuration'));
+      console.log(chalk.gray('   Any server implementing the OpenAI chat completions API'));
+      console.log();
+      console.log(chalk.yellow('📋 Setup Requirements:'));
+      console.log(
+        chalk.gray('   • Base URL, e.g. http://localhost:1234/v1 or https://openrouter.ai/api/v1')
+      );
+      console.log(chalk.gray('   • Auth: Bearer token, Azure-style api-key header, or none'));
+      console.log(chalk.gray('   • Models: Will fetch available models from the endpoint'));
     }
     console.log();
   }
@@ -495,6 +538,11 @@ export class SetupProcessor {
       if (apiKey.length < 40) {
         return '❌ OpenAI API key seems too short';
       }
+    } else if (provider === 'openai-compatible') {
+      // Gateways issue keys in any format, so only reject keys that cannot be sent in a header
+      if (/\s/.test(apiKey.trim())) {
+        return '❌ API key should not contain spaces';
+      }
     } else if (provider === 'ollama' || provider === 'devsum-cloud') {
       // Ollama and cloud providers don't use API keys in the traditional sense
       return true;
@@ -713,6 +761,139 @@ export class SetupProcessor {
     };
   }
 
+  /**
+   * Setup OpenAI-compatible provider interactively
+   */
+  private async setupOpenAICompatibleProviderInteractive(name: string): Promise<AIProvider> {
+    console.log();
+    console.log(chalk.white('🔌 Setting up OpenAI-compatible endpoint...'));
+
+    const connectionAnswers = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'baseUrl',
+        message: '🌐 Base URL (including /v1 if the server uses it):',
+        validate: input => {
+          if (!input.trim()) {
+            return '❌ Base URL is required';
+          }
+          try {
+            new URL(input);
+            return true;
+          } catch {
+            return '❌ Invalid URL format';
+          }
+        },
+      },
+      {
+        type: 'list',
+        name: 'authScheme',
+        message: '🔐 How does the endpoint authenticate?',
+        choices: [
+          { name: 'Bearer token (Authorization: Bearer <key>)', value: 'bearer' },
+          { name: 'api-key header (Azure OpenAI style)', value: 'api-key' },
+          { name: 'No authentication', value: 'none' },
+        ],
+      },
+      {
+        type: 'password',
+        name: 'apiKey',
+        message: '🔑 Enter your API key:',
+        when: answers => answers.authScheme !== 'none',
+        validate: input => this.validateApiKey(input, 'openai-compatible'),
+      },
+      {
+        type: 'input',
+        name: 'headers',
+        message:
+          '📨 Extra headers (optional, e.g. "HTTP-Referer: https://example.com; X-Title: devsum"):',
+        validate: input => {
+          try {
+            this.parseHeaders(input);
+            return true;
+          } catch (error) {
+            return `❌ ${error instanceof Error ? error.message : 'Invalid headers'}`;
+          }
+        },
+      },
+    ]);
+
+    const baseUrl = connectionAnswers.baseUrl.trim().replace(/\/+$/, '');
+    const apiKey = connectionAnswers.apiKey ?? '';
+    const headers = this.parseHeaders(connectionAnswers.headers);
+    const authScheme = connectionAnswers.authScheme as ProviderAuthScheme;
+
+    // Test connection and fetch available models
+    console.log();
+    console.log(chalk.blue('🔍 Testing connection and fetching available models...'));
+
+    const availableModels = await AIService.fetchAvailableModels(
+      'openai-compatible',
+      apiKey,
+      baseUrl,
+      { headers, authScheme }
+    );
+
+    if (availableModels.length === 0) {
+      console.log(chalk.yellow('⚠️  Could not list models, enter the model name manually'));
+    } else {
+      console.log(chalk.green(`✅ Found ${availableModels.length} available models`));
+    }
+
+    const modelAnswers = await inquirer.prompt([
+      availableModels.length > 0
+        ? {
+            type: 'list',
+            name: 'model',
+            message: '⚙️  Choose AI Model:',
+            choices: availableModels.map(model => ({ name: model, value: model })),
+          }
+        : {
+            type: 'input',
+            name: 'model',
+            message: '⚙️  Model name:',
+            validate: (input: string) => (input.trim() ? true : '❌ Model name is required'),
+          },
+      {
+        type: 'confirm',
+        name: 'isDefault',
+        message: '⭐ Set as default provider?',
+        default: false,
+      },
+    ]);
+
+    return {
+      name,
+      provider: 'openai-compatible',
+      apiKey,
+      model: modelAnswers.model.trim(),
+      baseUrl,
+      ...(headers ? { headers } : {}),
+      authScheme,
+      isDefault: modelAnswers.isDefault,
+    };
+  }
+
+  /**
+   * Parse "Name: value; Other: value" into a header map
+   */
+  private parseHeaders(input: string | undefined): Record<string, string> | undefined {
+    const entries = (input ?? '')
+      .split(';')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.indexOf(':');
+        const key = entry.slice(0, separator).trim();
+        if (separator <= 0 || !/^[A-Za-z0-9-]+$/.test(key)) {
+          throw new Error(`Invalid header "${entry}". Use "Name: value"`);
+        }
+        return [key, entry.slice(separator + 1).trim()] as const;
+      });
+
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
   /**
    * Setup cloud provider interactively
    */
@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { TokenUsage, UsageLedgerEntry, UsageRecord } from '../types/index.js';
+import { calculateCost, getModelPrice } from '../utils/token-pricing.js';
+import { configManager } from './config.js';
+
+const LEDGER_FILE = path.join(os.homedir(), '.config', 'devsum', 'usage-ledger.jsonl');
+
+/**
+ * Tokens counted for one provider and model so far in this run
+ */
+interface UsageCount {
+  provider: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+}
+
+/**
+ * Token usage manager
+ * Adds up the tokens of every AI request in a run, prices them, and appends them to the
+ * usage ledger at ~/.config/devsum/usage-ledger.jsonl when the run ends
+ */
+export class TokenUsageManager {
+  private readonly counts = new Map<string, UsageCount>();
+
+  /**
+   * Count the tokens of a request
+   * @param estimated Whether the counts were estimated instead of reported by the provider
+   */
+  public record(provider: string, model: string, usage: TokenUsage, estimated = false): void {
+    const key = `${provider}\0${model}`;
+    const count = this.counts.get(key) ?? {
+      provider,
+      model,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimated: false,
+    };
+    count.requests++;
+    count.inputTokens += usage.inputTokens;
+    count.outputTokens += usage.outputTokens;
+    count.estimated ||= estimated;
+    this.counts.set(key, count);
+  }
+
+  /**
+   * Price the usage of the run, append it to the ledger and start counting from zero
+   * Failing to write the ledger never fails the command
+   * @param command Command the usage is recorded under, e.g. "report"
+   * @returns The usage of the run by provider and model; empty when nothing was requested
+   */
+  public async finishRun(command: string): Promise<UsageRecord[]> {
+    if (this.counts.size === 0) {
+      return [];
+    }
+
+    const config = await configManager.loadConfig();
+    const records = [...this.counts.values()].map((count): UsageRecord => {
+      const price = getModelPrice(count.provider, count.model, config?.pricing);
+      return { ...count, cost: price ? calculateCost(count, price) : undefined };
+    });
+    this.counts.clear();
+
+    const date = new Date().toISOString();
+    const lines = records.map(record => JSON.stringify({ date, command, ...record }));
+    try {
+      await fs.mkdir(path.dirname(LEDGER_FILE), { recursive: true });
+      await fs.appendFile(LEDGER_FILE, `${lines.join('\n')}\n`);
+    } catch {
+      // The ledger is informational; the command itself succeeded
+    }
+    return records;
+  }
+
+  /**
+   * Read the ledger entries recorded since a date, oldest first
+   */
+  public async readLedger(since?: Date): Promise<UsageLedgerEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(LEDGER_FILE, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: UsageLedgerEntry[] = [];
+    for (const line of content.split('\n').filter(line => line.trim())) {
+      try {
+        const entry = JSON.parse(line) as UsageLedgerEntry;
+        if (!since || new Date(entry.date) >= since) {
+          entries.push(entry);
+        }
+      } catch {
+        // Skip a line cut short by an interrupted write
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Get ledger file path
+   */
+  public getLedgerPath(): string {
+    return LEDGER_FILE;
+  }
+}
+
+export const tokenUsage = new TokenUsageManager();
@@ -0,0 +1,36 @@
+import chalk from 'chalk';
+import { tokenUsage } from './token-usage.js';
+import { DisplayService } from './display-service.js';
+import { parseDateFilter } from '../utils/date-filter.js';
+import { UsageOptions } from '../types/index.js';
+
+/**
+ * Period shown when --since is not given
+ */
+const DEFAULT_SINCE = '30d';
+
+/**
+ * Service responsible for summarizing the token usage ledger
+ */
+export class UsageProcessor {
+  /**
+   * Show the tokens and cost recorded since a date, by command, provider and model
+   */
+  public async processUsage(options: UsageOptions): Promise<void> {
+    const since = options.since ?? DEFAULT_SINCE;
+    const sinceDate = parseDateFilter(since);
+    if (!sinceDate) {
+      console.log();
+      console.error(chalk.red(`❌ Invalid date: ${since}`));
+      console.log(
+        chalk.blue('💡 Use YYYY-MM-DD, "today", "yesterday" or a relative date like 30d')
+      );
+      process.exit(1);
+    }
+
+    const entries = await tokenUsage.readLedger(sinceDate);
+    DisplayService.displayUsageBreakdown(entries, `since ${sinceDate.toLocaleDateString()}`);
+    console.log();
+    console.log(chalk.gray(`Ledger: ${tokenUsage.getLedgerPath()}`));
+  }
+}
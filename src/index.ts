@@ -9,6 +9,11 @@ import { updateCommand } from './commands/update.js';
 import { commitCommand } from './commands/commit.js';
 import { analyticsCommand } from './commands/analytics.js';
 import { telemetryCommand } from './commands/telemetry.js';
+import { changelogCommand } from './commands/changelog.js';
+import { hookCommand } from './commands/hook.js';
+import { prCommand } from './commands/pr.js';
+import { cacheCommand } from './commands/cache.js';
+import { usageCommand } from './commands/usage.js';
 import { UpdateChecker } from './core/updateChecker.js';
 import { forcedUpdate } from './core/forced-update.js';
 import { getVersion } from './utils/version.js';
@@ -35,6 +40,11 @@ program.addCommand(analyticsCommand);
 program.addCommand(updateCommand);
 program.addCommand(commitCommand);
 program.addCommand(telemetryCommand);
+program.addCommand(changelogCommand);
+program.addCommand(hookCommand);
+program.addCommand(prCommand);
+program.addCommand(cacheCommand);
+program.addCommand(usageCommand);
 
 // Custom help
 program.on('--help', () => {
@@ -44,6 +54,11 @@ program.on('--help', () => {
   console.log(chalk.gray('  $ devsum analyze --since 7d       # Analyze commits for last 7 days'));
   console.log(chalk.gray('  $ devsum analyze --format=pdf     # Export to PDF'));
   console.log(chalk.gray('  $ devsum commit --auto            # Generate and commit with AI'));
+  console.log(chalk.gray('  $ devsum changelog --release 1.2.0 # Update CHANGELOG.md'));
+  console.log(chalk.gray('  $ devsum hook install             # AI messages for plain git commit'));
+  console.log(chalk.gray('  $ devsum pr --base main           # Pull request description'));
+  console.log(chalk.gray('  $ devsum cache stats              # Cached AI responses'));
+  console.log(chalk.gray('  $ devsum usage --since 30d        # AI tokens and cost'));
   console.log(chalk.gray('  $ devsum update                   # Check for updates'));
   console.log(chalk.gray('  $ devsum login                    # View free mode info'));
   console.log(chalk.gray('  $ devsum telemetry --status       # Manage usage tracking'));
@@ -74,6 +89,11 @@ program.on('command:*', operands => {
   console.log(chalk.gray('  report    - Generate accomplishment reports (alias for analyze)'));
   console.log(chalk.gray('  analytics - Interactive analytics dashboard'));
   console.log(chalk.gray('  commit    - Generate AI commit messages'));
+  console.log(chalk.gray('  changelog - Generate release notes into CHANGELOG.md'));
+  console.log(chalk.gray('  hook      - Install the prepare-commit-msg git hook'));
+  console.log(chalk.gray('  pr        - Generate a pull request description'));
+  console.log(chalk.gray('  cache     - Inspect or clear cached AI responses'));
+  console.log(chalk.gray('  usage     - Show AI token usage and cost'));
   console.log(chalk.gray('  update    - Check for DevSum updates'));
   console.log(chalk.gray('  login     - View free mode information'));
   console.log(chalk.gray('  telemetry - Manage usage tracking settings'));
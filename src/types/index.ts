@@ -9,8 +9,16 @@ export interface AIProvider {
   model?: string;
   isDefault?: boolean;
   baseUrl?: string; // For local LLMs like Ollama
+  headers?: Record<string, string> | undefined; // Extra headers for OpenAI-compatible endpoints
+  authScheme?: ProviderAuthScheme | undefined;
 }
 
+/**
+ * How the API key is sent to an OpenAI-compatible endpoint
+ * bearer: Authorization: Bearer <key>, api-key: Azure-style api-key header, none: no credentials
+ */
+export type ProviderAuthScheme = 'bearer' | 'api-key' | 'none';
+
 /**
  * Cloud AI Provider interface
  * Extends AIProvider for cloud-based authentication
@@ -22,9 +30,106 @@ export interface CloudAIProvider extends AIProvider {
 }
 
 /**
- * Supported AI provider types
+ * AI provider types built into devsum
+ */
+export type BuiltInProviderType =
+  | 'claude'
+  | 'openai'
+  | 'gemini'
+  | 'devsum-cloud'
+  | 'ollama'
+  | 'openai-compatible';
+
+/**
+ * Supported AI provider types: a built-in one, or the id of a provider from a package
+ * listed in providerPackages
  */
-export type AIProviderType = 'claude' | 'openai' | 'gemini' | 'devsum-cloud' | 'ollama';
+export type AIProviderType = BuiltInProviderType | (string & {});
+
+/**
+ * Settings for a single completion request
+ */
+export interface CompletionOptions {
+  maxTokens?: number | undefined;
+  temperature?: number | undefined;
+  /**
+   * Streams the answer: called with the text received so far each time more arrives
+   * Providers that cannot stream return the whole answer without calling it
+   */
+  onText?: ((text: string) => void) | undefined;
+  /**
+   * Aborts the request, e.g. when the user presses Ctrl+C
+   */
+  signal?: AbortSignal | undefined;
+  /**
+   * Called with the tokens the request used, as reported by the provider
+   * Providers that do not report usage skip it, and the usage is estimated instead
+   */
+  onUsage?: ((usage: TokenUsage) => void) | undefined;
+}
+
+/**
+ * Tokens sent to and generated by the model for one request
+ */
+export interface TokenUsage {
+  readonly inputTokens: number;
+  readonly outputTokens: number;
+}
+
+/**
+ * Settings for a completion whose answer must be a JSON object
+ * schema describes the object for providers that can enforce it, e.g. through tool calls
+ */
+export interface JSONCompletionOptions extends CompletionOptions {
+  schema?:
+    | {
+        name: string;
+        description: string;
+        definition: Record<string, unknown>;
+      }
+    | undefined;
+}
+
+/**
+ * Connection to one AI backend, created from a configured provider
+ * AIService builds the prompts and parses the answers; a client only sends them
+ */
+export interface AIProviderClient {
+  /**
+   * Complete a prompt with free text
+   */
+  completeText(prompt: string, options?: CompletionOptions): Promise<string>;
+  /**
+   * Complete a prompt with a JSON object, returned as text
+   */
+  completeJSON(prompt: string, options?: JSONCompletionOptions): Promise<string>;
+  /**
+   * Models the account or server can use
+   */
+  listModels(): Promise<readonly string[]>;
+  /**
+   * Check that the backend accepts the configured credentials
+   * @returns An error message, or null when they work
+   */
+  validateCredentials(): Promise<string | null>;
+}
+
+/**
+ * An AI provider that can be registered with the provider registry
+ * Third-party packages export one of these (or an array) as their default export
+ */
+export interface AIProviderPlugin {
+  /**
+   * Value of "provider" in a configured provider, e.g. "mistral"
+   */
+  readonly id: string;
+  readonly defaultModel: string;
+  /**
+   * Models offered when they cannot be listed from the backend
+   */
+  readonly models?: readonly string[] | undefined;
+  create(provider: AIProvider): AIProviderClient;
+}
 
 /**
  * Authentication configuration interface
@@ -50,6 +155,169 @@ export interface Config {
     enabled: boolean;
   };
   auth?: AuthConfig;
+  identities?: IdentityAlias[] | undefined;
+  commitlint?: CommitLintSettings | undefined;
+  tickets?: TicketSettings | undefined;
+  secrets?: SecretScanSettings | undefined;
+  fallbackProviders?: string[] | undefined;
+  retry?: RetrySettings | undefined;
+  providerPackages?: string[] | undefined;
+  cache?: CacheSettings | undefined;
+  pricing?: Record<string, ModelPrice> | undefined;
+}
+
+/**
+ * How often and how patiently a failed AI request is retried on rate limits, server
+ * errors and timeouts before the next provider is tried
+ */
+export interface RetrySettings {
+  retries?: number | undefined;
+  baseDelayMs?: number | undefined;
+  maxDelayMs?: number | undefined;
+}
+
+/**
+ * Local cache of AI responses, so an identical request is not sent and billed again
+ * Entries older than ttlDays are ignored; the oldest go once the cache outgrows maxSizeMb
+ */
+export interface CacheSettings {
+  enabled?: boolean | undefined;
+  ttlDays?: number | undefined;
+  maxSizeMb?: number | undefined;
+}
+
+/**
+ * What identifies a cached AI response; the options are those that change the answer
+ */
+export interface CacheKey {
+  readonly provider: string;
+  readonly model: string;
+  readonly operation: string;
+  readonly prompt: string;
+  readonly options?: Readonly<Record<string, unknown>> | undefined;
+}
+
+/**
+ * Contents of the response cache, for "devsum cache stats"
+ */
+export interface CacheStats {
+  readonly directory: string;
+  readonly entries: number;
+  readonly expiredEntries: number;
+  readonly sizeBytes: number;
+  readonly oldest?: Date | undefined;
+  readonly newest?: Date | undefined;
+  readonly settings: Required<CacheSettings>;
+}
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+  readonly input: number;
+  readonly output: number;
+}
+
+/**
+ * Tokens used with one provider and model during a run, and what they cost
+ * cost is left out when the model has no known price; estimated is set when any of the
+ * counts was estimated rather than reported by the provider
+ */
+export interface UsageRecord {
+  readonly provider: string;
+  readonly model: string;
+  readonly requests: number;
+  readonly inputTokens: number;
+  readonly outputTokens: number;
+  readonly cost?: number | undefined;
+  readonly estimated: boolean;
+}
+
+/**
+ * A line of the usage ledger: the usage of one provider and model by one command run
+ */
+export interface UsageLedgerEntry extends UsageRecord {
+  readonly date: string;
+  readonly command: string;
+}
+
+/**
+ * Options for the usage command
+ */
+export interface UsageOptions {
+  since?: string | undefined;
+}
+
+/**
+ * What happens when the staged changes contain possible secrets:
+ * redact them from AI prompts, refuse to continue, or only warn
+ */
+export type SecretPolicy = 'redact' | 'block' | 'warn';
+
+/**
+ * A pattern for a kind of secret; a capture group, if any, marks the secret itself
+ */
+export interface SecretRule {
+  id: string;
+  description: string;
+  pattern: string;
+}
+
+/**
+ * Secret scanning settings
+ * Allowlist entries are regular expressions matched against found values, allowPaths
+ * against file paths
+ */
+export interface SecretScanSettings {
+  policy?: SecretPolicy | undefined;
+  rules?: SecretRule[] | undefined;
+  disabledRules?: string[] | undefined;
+  allowlist?: string[] | undefined;
+  allowPaths?: string[] | undefined;
+  entropy?: boolean | undefined;
+}
+
+/**
+ * A possible secret in an added line of the staged diff
+ */
+export interface SecretFinding {
+  readonly rule: string;
+  readonly description: string;
+  readonly path: string;
+  readonly line: number;
+  readonly secret: string;
+}
+
+/**
+ * Where a ticket key goes in a commit message: before the subject or in a "Refs:" trailer
+ */
+export type TicketPlacement = 'prefix' | 'trailer';
+
+/**
+ * How ticket keys are found in branch names and added to commit messages
+ */
+export interface TicketSettings {
+  pattern?: string | undefined;
+  placement?: TicketPlacement | undefined;
+}
+
+/**
+ * Commit rules in the devsum config, used when the repository has no commitlint config
+ * Same shape as a commitlint config
+ */
+export interface CommitLintSettings {
+  extends?: string | string[] | undefined;
+  rules?: CommitLintRules | undefined;
+}
+
+/**
+ * Identity alias configuration
+ * Credits every email a person commits with to one canonical identity
+ */
+export interface IdentityAlias {
+  name: string;
+  email: string;
+  aliases?: string[] | undefined;
 }
 
 /**
@@ -64,6 +332,70 @@ export interface GitCommit {
   files: string[];
   insertions?: number;
   deletions?: number;
+  fileStats?: readonly CommitFileStat[];
+  body?: string;
+  committer?: string;
+  parents?: readonly string[];
+  isMerge?: boolean;
+  trailers?: readonly CommitTrailer[];
+  coAuthors?: readonly string[];
+}
+
+/**
+ * Git trailer parsed from the end of a commit body (e.g. "Signed-off-by: Name <email>")
+ */
+export interface CommitTrailer {
+  readonly key: string;
+  readonly value: string;
+}
+
+/**
+ * Per-file change statistics for a single commit
+ */
+export interface CommitFileStat {
+  readonly path: string;
+  readonly insertions: number;
+  readonly deletions: number;
+  readonly status: FileChangeType;
+  readonly previousPath?: string | undefined;
+  readonly binary?: boolean | undefined;
+}
+
+/**
+ * Commit history query options
+ */
+export interface CommitQueryOptions {
+  maxCommits?: number | undefined;
+  paths?: PathFilters | undefined;
+  range?: string | undefined;
+}
+
+/**
+ * Revision selection for reports scoped by refs instead of dates
+ */
+export interface RevisionSelection {
+  range?: string | undefined;
+  fromTag?: string | undefined;
+  to?: string | undefined;
+  branch?: string | undefined;
+}
+
+/**
+ * Pathspec filters limiting which commits and files are counted
+ */
+export interface PathFilters {
+  include?: readonly string[] | undefined;
+  exclude?: readonly string[] | undefined;
+}
+
+/**
+ * Commit history result interface
+ * Carries the commits together with whether a limit cut the history short
+ */
+export interface CommitHistory {
+  readonly commits: readonly GitCommit[];
+  readonly truncated: boolean;
+  readonly maxCommits?: number | undefined;
 }
 
 /**
@@ -89,6 +421,55 @@ export interface ReportOptions {
   detailed?: boolean | undefined;
   listProviders?: boolean | undefined;
   listModels?: boolean | undefined;
+  maxCommits?: string | undefined;
+  path?: string[] | undefined;
+  exclude?: string[] | undefined;
+  range?: string | undefined;
+  fromTag?: string | undefined;
+  to?: string | undefined;
+  branch?: string | undefined;
+  chunkBy?: ReportChunkStrategy | undefined;
+  stream?: boolean | undefined;
+  cache?: boolean | undefined;
+  ai?: boolean | undefined;
+}
+
+/**
+ * How a report request runs
+ * stream shows the report while it is written; signal cancels every request of the report
+ */
+export interface ReportGenerationOptions {
+  stream?: boolean | undefined;
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * What a streaming report shows before it is complete
+ */
+export interface ReportPreview {
+  readonly summary: string;
+  readonly accomplishments: readonly string[];
+}
+
+/**
+ * How large commit sets are split before being summarized chunk by chunk
+ */
+export type ReportChunkStrategy = 'week' | 'author' | 'directory';
+
+/**
+ * A slice of the commit history summarized on its own before the partial reports are merged
+ */
+export interface CommitChunk {
+  readonly label: string;
+  readonly commits: readonly GitCommit[];
+}
+
+/**
+ * Partial report produced for one chunk (or a batch of merged chunks)
+ */
+export interface PartialReport {
+  readonly label: string;
+  readonly response: AIResponse;
 }
 
 /**
@@ -103,7 +484,9 @@ export type ReportFormat = 'markdown' | 'json' | 'html' | 'txt';
 export interface AIResponse {
   readonly summary: string;
   readonly accomplishments: readonly string[];
+  readonly technicalImprovements?: readonly string[];
   readonly recommendations?: readonly string[];
+  readonly risks?: readonly string[];
 }
 
 /**
@@ -146,6 +529,11 @@ export interface CommitOptions {
   autoPush?: boolean | undefined;
   report?: boolean | undefined;
   generatedBranchName?: string | undefined;
+  candidates?: string | undefined;
+  split?: boolean | undefined;
+  style?: boolean | undefined;
+  ticket?: string | undefined;
+  cache?: boolean | undefined;
 }
 
 /**
@@ -160,6 +548,67 @@ export interface CommitMessageOptions {
   readonly conventional: boolean;
   readonly emoji: boolean;
   readonly length: CommitLength;
+  readonly guidance?: string | undefined;
+  readonly rules?: CommitLintRules | undefined;
+  readonly feedback?: CommitMessageFeedback | undefined;
+  readonly style?: CommitStyleProfile | undefined;
+  readonly candidate?: number | undefined; // Each of several candidates is cached on its own
+}
+
+/**
+ * How a repository writes its commit subjects, learned from recent history
+ * Ratios are the share of sampled subjects (0-1) showing the trait
+ */
+export interface CommitStyleProfile {
+  readonly createdAt: string;
+  readonly sampleSize: number;
+  readonly conventionalRatio: number;
+  readonly types: readonly string[];
+  readonly scopes: readonly string[];
+  readonly emojiRatio: number;
+  readonly emojis: readonly string[];
+  readonly ticketRatio: number;
+  readonly ticketPrefix?: string | undefined;
+  readonly casing: 'lower' | 'capitalized' | 'mixed';
+  readonly tense: 'imperative' | 'past' | 'present' | 'mixed';
+  readonly typicalLength: number;
+  readonly examples: readonly string[];
+}
+
+/**
+ * A commitlint rule as written in commitlint configs, e.g. [2, 'always', 72]
+ * Level 0 disables the rule, 1 makes it a warning and 2 an error
+ */
+export type CommitLintRuleConfig = readonly [0 | 1 | 2, ('always' | 'never')?, unknown?];
+
+/**
+ * Commitlint rules keyed by rule name (type-enum, header-max-length, ...)
+ */
+export type CommitLintRules = Readonly<Record<string, CommitLintRuleConfig>>;
+
+/**
+ * Commit rules together with the file or setting they were loaded from
+ */
+export interface CommitRuleSet {
+  readonly source: string;
+  readonly rules: CommitLintRules;
+}
+
+/**
+ * A commit message rule that was broken
+ */
+export interface CommitLintViolation {
+  readonly rule: string;
+  readonly level: 1 | 2;
+  readonly message: string;
+}
+
+/**
+ * A rejected commit message and why, sent back to the AI when retrying
+ */
+export interface CommitMessageFeedback {
+  readonly message: string;
+  readonly violations: readonly CommitLintViolation[];
 }
 
 /**
@@ -196,7 +645,7 @@ export interface FileChangeInfo {
 /**
  * File change types
  */
-export type FileChangeType = 'added' | 'modified' | 'deleted' | 'unknown';
+export type FileChangeType = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'unknown';
 
 /**
  * Changes summary interface
@@ -258,6 +707,8 @@ export interface HTMLReportMetadata {
   authors: number;
   filesModified: number;
   dateRange: string;
+  truncated?: boolean | undefined;
+  maxCommits?: number | undefined;
 }
 
 /**
@@ -274,6 +725,8 @@ export interface PlainTextReportMetadata {
   authors: number;
   filesModified: number;
   dateRange: string;
+  truncated?: boolean | undefined;
+  maxCommits?: number | undefined;
 }
 
 /**
@@ -291,6 +744,9 @@ export interface AnalyticsOptions {
   provider?: string | undefined;
   interactive?: boolean | undefined;
   export?: AnalyticsExportFormat | undefined;
+  maxCommits?: string | undefined;
+  path?: string[] | undefined;
+  exclude?: string[] | undefined;
 }
 
 /**
@@ -404,6 +860,9 @@ export interface AnalyticsData {
     focus: AnalyticsFocus;
     format: AnalyticsFormat;
     provider: string;
+    truncated?: boolean | undefined;
+    maxCommits?: number | undefined;
+    paths?: PathFilters | undefined;
   };
 }
 
@@ -423,3 +882,142 @@ export interface DashboardConfig {
   readonly exportable: boolean;
   readonly responsive: boolean;
 }
+
+/**
+ * Conventional commit parsed from a commit subject and body
+ */
+export interface ConventionalCommit {
+  readonly type: string;
+  readonly scope?: string | undefined;
+  readonly description: string;
+  readonly breaking: boolean;
+  readonly breakingNote?: string | undefined;
+}
+
+/**
+ * Changelog generation options
+ */
+export interface ChangelogOptions {
+  from?: string | undefined;
+  to?: string | undefined;
+  release?: string | undefined;
+  output?: string | undefined;
+  style?: ChangelogStyle | undefined;
+  ai?: boolean | undefined;
+  provider?: string | undefined;
+  dryRun?: boolean | undefined;
+}
+
+/**
+ * Supported CHANGELOG.md layouts
+ */
+export type ChangelogStyle = 'keep-a-changelog' | 'standard-version';
+
+/**
+ * Changelog group types, in the order they are rendered
+ */
+export type ChangelogGroupType = 'breaking' | 'feat' | 'fix' | 'perf';
+
+/**
+ * Single changelog line derived from a commit
+ */
+export interface ChangelogEntry {
+  readonly scope?: string | undefined;
+  readonly description: string;
+  readonly hash: string;
+}
+
+/**
+ * Changelog entries sharing a conventional commit type
+ */
+export interface ChangelogGroup {
+  readonly type: ChangelogGroupType;
+  readonly entries: readonly ChangelogEntry[];
+}
+
+/**
+ * A changelog version section ready to be rendered
+ */
+export interface ChangelogRelease {
+  readonly version: string;
+  readonly date: string;
+  readonly groups: readonly ChangelogGroup[];
+  readonly previousTag?: string | undefined;
+  readonly currentRef: string;
+  readonly repositoryUrl?: string | undefined;
+}
+
+/**
+ * Options for the prepare-commit-msg hook run
+ */
+export interface HookRunOptions {
+  timeout?: string | undefined;
+}
+
+/**
+ * A staged change that can be committed on its own: a whole file or one hunk of it
+ */
+export interface SplitChange {
+  readonly id: string;
+  readonly path: string;
+  readonly patch: string;
+  readonly insertions: number;
+  readonly deletions: number;
+}
+
+/**
+ * One commit of a split plan
+ */
+export interface CommitPlanGroup {
+  readonly message: string;
+  readonly changes: readonly string[];
+}
+
+/**
+ * Commits proposed for the staged changes, in the order they will be made
+ */
+export interface CommitPlan {
+  readonly groups: readonly CommitPlanGroup[];
+  readonly unassigned: readonly string[];
+}
+
+/**
+ * Index state saved before rewriting it, used to roll back on failure
+ */
+export interface IndexSnapshot {
+  readonly head?: string | undefined;
+  readonly tree: string;
+}
+
+/**
+ * Pull request description options
+ */
+export interface PullRequestOptions {
+  base?: string | undefined;
+  output?: string | undefined;
+  provider?: string | undefined;
+  ticket?: string | undefined;
+  cache?: boolean | undefined;
+}
+
+/**
+ * What a branch changes compared to its base, as sent to the AI
+ */
+export interface PullRequestContext {
+  readonly branch: string;
+  readonly base: string;
+  readonly commits: readonly GitCommit[];
+  readonly diff: string;
+  readonly tickets: readonly string[];
+}
+
+/**
+ * Generated pull request title and description parts
+ */
+export interface PullRequestDescription {
+  readonly title: string;
+  readonly summary: string;
+  readonly changes: readonly string[];
+  readonly testing: readonly string[];
+  readonly risks: readonly string[];
+}
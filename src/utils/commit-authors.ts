@@ -0,0 +1,10 @@
+import { GitCommit } from '../types/index.js';
+
+/**
+ * Get everyone credited with a commit: the author followed by any co-authors
+ * @param commit Commit with identities already resolved by GitService
+ * @returns Unique author identities like 'Name <email>'
+ */
+export function getCommitAuthors(commit: GitCommit): string[] {
+  return [...new Set([commit.author, ...(commit.coAuthors ?? [])])];
+}
@@ -0,0 +1,238 @@
+import {
+  AIProviderType,
+  BuiltInProviderType,
+  CommitChunk,
+  GitCommit,
+  ReportChunkStrategy,
+} from '../types/index.js';
+
+/**
+ * Rough characters-per-token ratio; close enough for English text and commit subjects
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Upper bound for a single chunk so huge context windows still get focused summaries
+ */
+const MAX_CHUNK_TOKENS = 24000;
+
+/**
+ * Tokens kept free for the report instructions wrapped around the commit list
+ */
+const PROMPT_OVERHEAD_TOKENS = 600;
+
+/**
+ * Tokens kept free for the model's answer
+ */
+const RESPONSE_TOKENS = 4000;
+
+/**
+ * Context window sizes by model prefix; the first matching prefix wins
+ */
+const CONTEXT_WINDOWS: Record<
+  BuiltInProviderType,
+  { models: [string, number][]; fallback: number }
+> = {
+  claude: { models: [], fallback: 200000 },
+  openai: {
+    models: [
+      ['gpt-4o', 128000],
+      ['gpt-4.1', 1000000],
+      ['gpt-4-turbo', 128000],
+      ['gpt-4', 8192],
+      ['gpt-3.5-turbo', 16385],
+    ],
+    fallback: 128000,
+  },
+  gemini: { models: [['gemini-pro', 32768]], fallback: 1000000 },
+  // Ollama defaults to a small context unless num_ctx is raised
+  ollama: { models: [], fallback: 4096 },
+  'devsum-cloud': { models: [], fallback: 128000 },
+  // Self-hosted gateways vary widely; assume a modest window
+  'openai-compatible': { models: [], fallback: 32768 },
+};
+
+/**
+ * Window assumed for providers loaded from packages
+ */
+const UNKNOWN_PROVIDER_WINDOW = { models: [], fallback: 32768 };
+
+/**
+ * Estimate how many tokens a piece of text uses
+ * @param text Prompt text
+ * @returns Approximate token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Get the context window of a provider's model
+ * @param provider Provider type
+ * @param model Model name, if configured
+ * @returns Context window size in tokens
+ */
+export function getContextWindow(provider: AIProviderType, model?: string): number {
+  const windows = CONTEXT_WINDOWS[provider as BuiltInProviderType] ?? UNKNOWN_PROVIDER_WINDOW;
+  const match = windows.models.find(([prefix]) => model?.startsWith(prefix));
+  return match ? match[1] : windows.fallback;
+}
+
+/**
+ * Get how many tokens of commit data fit in one report prompt
+ * @param provider Provider type
+ * @param model Model name, if configured
+ * @returns Token budget for the commit list of a single prompt
+ */
+export function getChunkTokenBudget(provider: AIProviderType, model?: string): number {
+  const window = getContextWindow(provider, model);
+  const responseTokens = Math.min(RESPONSE_TOKENS, Math.floor(window / 4));
+  return Math.min(MAX_CHUNK_TOKENS, window - responseTokens - PROMPT_OVERHEAD_TOKENS);
+}
+
+/**
+ * Pack items into consecutive batches that each stay within a token budget
+ * An item larger than the budget gets a batch of its own
+ * @param items Items in the order they should be kept
+ * @param tokensOf Token estimate for one item
+ * @param budget Token budget per batch
+ * @returns Batches of items
+ */
+export function packByTokens<T>(
+  items: readonly T[],
+  tokensOf: (item: T) => number,
+  budget: number
+): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+
+  for (const item of items) {
+    const tokens = tokensOf(item);
+    if (current.length > 0 && currentTokens + tokens > budget) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(item);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Split commits into chunks that fit the token budget
+ * Commits are grouped by week, author or top-level directory first, so each chunk covers
+ * related work; small neighbouring groups share a chunk and oversized groups are split
+ * @param commits Commits to summarize, newest first
+ * @param strategy How related commits are grouped
+ * @param budget Token budget for the commit list of one chunk
+ * @param formatCommit Formats a commit the way it appears in the prompt
+ * @returns A single chunk when everything fits, otherwise one chunk per batch
+ */
+export function chunkCommits(
+  commits: readonly GitCommit[],
+  strategy: ReportChunkStrategy,
+  budget: number,
+  formatCommit: (commit: GitCommit) => string
+): CommitChunk[] {
+  const tokensOf = (commit: GitCommit): number => estimateTokens(formatCommit(commit)) + 1;
+  const totalTokens = commits.reduce((total, commit) => total + tokensOf(commit), 0);
+  if (totalTokens <= budget) {
+    return [{ label: 'all commits', commits }];
+  }
+
+  const groups = groupCommits(commits, strategy).flatMap(group => {
+    const parts = packByTokens(group.commits, tokensOf, budget);
+    return parts.map((part, index) => ({
+      label: parts.length > 1 ? `${group.label} (part ${index + 1})` : group.label,
+      commits: part,
+    }));
+  });
+
+  const groupTokens = (group: CommitChunk): number =>
+    group.commits.reduce((total, commit) => total + tokensOf(commit), 0);
+
+  return packByTokens(groups, groupTokens, budget).map(batch => ({
+    label: describeBatch(batch.map(group => group.label)),
+    commits: batch.flatMap(group => [...group.commits]),
+  }));
+}
+
+/**
+ * Group commits by the chunking strategy, keeping groups in a stable order
+ */
+function groupCommits(commits: readonly GitCommit[], strategy: ReportChunkStrategy): CommitChunk[] {
+  const groups = new Map<string, GitCommit[]>();
+
+  for (const commit of commits) {
+    const key = getGroupKey(commit, strategy);
+    const group = groups.get(key);
+    if (group) {
+      group.push(commit);
+    } else {
+      groups.set(key, [commit]);
+    }
+  }
+
+  const entries = [...groups].map(([label, groupCommits]) => ({ label, commits: groupCommits }));
+
+  // Weeks read oldest to newest; authors and directories biggest first
+  return strategy === 'week'
+    ? entries.sort((a, b) => a.label.localeCompare(b.label))
+    : entries.sort((a, b) => b.commits.length - a.commits.length);
+}
+
+/**
+ * Label a chunk holding several groups without listing dozens of names
+ */
+function describeBatch(labels: readonly string[]): string {
+  if (labels.length <= 3) {
+    return labels.join(', ');
+  }
+  return `${labels.slice(0, 2).join(', ')} and ${labels.length - 2} more`;
+}
+
+function getGroupKey(commit: GitCommit, strategy: ReportChunkStrategy): string {
+  switch (strategy) {
+    case 'author':
+      return commit.author;
+    case 'directory':
+      return getMainDirectory(commit.files);
+    case 'week':
+    default:
+      return `week of ${getWeekStart(commit.date)}`;
+  }
+}
+
+/**
+ * Get the Monday of the week a commit date falls in, as YYYY-MM-DD
+ */
+function getWeekStart(date: string): string {
+  const day = new Date(`${date.substring(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(day.getTime())) {
+    return 'unknown';
+  }
+
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  day.setUTCDate(day.getUTCDate() - daysSinceMonday);
+  return day.toISOString().substring(0, 10);
+}
+
+/**
+ * Get the top-level directory most of a commit's files live in
+ */
+function getMainDirectory(files: readonly string[]): string {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const directory = file.includes('/') ? `${file.split('/')[0]}/` : '(root)';
+    counts.set(directory, (counts.get(directory) ?? 0) + 1);
+  }
+
+  const [top] = [...counts].sort((a, b) => b[1] - a[1]);
+  return top ? top[0] : '(no files)';
+}
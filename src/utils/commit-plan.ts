@@ -0,0 +1,37 @@
+import { CommitPlanGroup } from '../types/index.js';
+
+/**
+ * Parse the commit plan a provider returned, tolerating code fences or prose around the JSON
+ * Expected shape: {"commits": [{"message": "...", "changes": ["path", "path#2"]}]}
+ * @param text Raw model output
+ * @returns The proposed groups, or null when no usable plan is found
+ */
+export function parseCommitPlanJson(text: string): CommitPlanGroup[] | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const commits = (value as { commits?: unknown } | null)?.commits;
+  if (!Array.isArray(commits)) {
+    return null;
+  }
+
+  const groups = commits.flatMap(commit => {
+    const message = typeof commit?.message === 'string' ? commit.message.trim() : '';
+    const changes = Array.isArray(commit?.changes)
+      ? commit.changes.filter((id: unknown): id is string => typeof id === 'string')
+      : [];
+    return message && changes.length > 0 ? [{ message, changes }] : [];
+  });
+
+  return groups.length > 0 ? groups : null;
+}
@@ -0,0 +1,171 @@
+import { parseCommitHeader } from './conventional-commit.js';
+import { CommitStyleProfile } from '../types/index.js';
+
+/**
+ * Fewest commits needed before a style is worth learning
+ */
+export const MIN_STYLE_SAMPLE = 5;
+
+/**
+ * Share of subjects a trait needs before it counts as the repository's style
+ */
+const MAJORITY = 0.6;
+
+/**
+ * Share of subjects below which a trait counts as avoided
+ */
+const MINORITY = 0.2;
+
+const EMOJI_PATTERN = /^(\p{Extended_Pictographic}️?|:[a-z0-9_+-]+:)\s*/u;
+const TICKET_PATTERN = /^(\[?[A-Z][A-Z0-9]+-\d+\]?:?\s+)/;
+const MAX_EXAMPLES = 6;
+
+/**
+ * Learn a style profile from commit subjects, newest first
+ * @returns The profile, or null when there are too few subjects to learn from
+ */
+export function deriveCommitStyle(subjects: readonly string[]): CommitStyleProfile | null {
+  const sample = subjects.map(subject => subject.trim()).filter(Boolean);
+  if (sample.length < MIN_STYLE_SAMPLE) {
+    return null;
+  }
+
+  const emojis: string[] = [];
+  const tickets: string[] = [];
+  const types: string[] = [];
+  const scopes: string[] = [];
+  const casings: string[] = [];
+  const tenses: string[] = [];
+  let conventional = 0;
+
+  for (const subject of sample) {
+    let rest = subject;
+
+    const emoji = rest.match(EMOJI_PATTERN);
+    if (emoji?.[1]) {
+      emojis.push(emoji[1]);
+      rest = rest.slice(emoji[0].length);
+    }
+
+    const ticket = rest.match(TICKET_PATTERN);
+    if (ticket?.[1]) {
+      tickets.push(ticket[1]);
+      rest = rest.slice(ticket[1].length);
+    }
+
+    const header = parseCommitHeader(rest);
+    if (header && /^[a-z]+$/i.test(header.type)) {
+      conventional++;
+      types.push(header.type);
+      if (header.scope?.trim()) {
+        scopes.push(header.scope.trim());
+      }
+      rest = header.subject;
+    }
+
+    const firstWord = rest.trim().split(/\s+/)[0] ?? '';
+    if (/^[A-Z]/.test(firstWord)) casings.push('capitalized');
+    else if (/^[a-z]/.test(firstWord)) casings.push('lower');
+
+    const word = firstWord.toLowerCase();
+    if (/^[a-z]{3,}ed$/.test(word)) tenses.push('past');
+    else if (/^[a-z]+[^s]s$/.test(word)) tenses.push('present');
+    else if (/^[a-z]+$/.test(word)) tenses.push('imperative');
+  }
+
+  const lengths = sample.map(subject => subject.length).sort((a, b) => a - b);
+
+  return {
+    createdAt: new Date().toISOString(),
+    sampleSize: sample.length,
+    conventionalRatio: conventional / sample.length,
+    types: mostCommon(types, 8),
+    scopes: mostCommon(scopes, 10),
+    emojiRatio: emojis.length / sample.length,
+    emojis: mostCommon(emojis, 6),
+    ticketRatio: tickets.length / sample.length,
+    ticketPrefix: tickets[0],
+    casing: majority(casings, ['lower', 'capitalized'] as const),
+    tense: majority(tenses, ['imperative', 'past', 'present'] as const),
+    typicalLength: lengths[Math.floor(lengths.length / 2)] ?? 0,
+    examples: [...new Set(sample.filter(subject => subject.length <= 100))].slice(0, MAX_EXAMPLES),
+  };
+}
+
+/**
+ * Whether most subjects of a profile use conventional commit headers and emojis
+ */
+export function getStyleFormat(profile: CommitStyleProfile): {
+  conventional: boolean;
+  emoji: boolean;
+} {
+  return {
+    conventional: profile.conventionalRatio >= MAJORITY,
+    emoji: profile.emojiRatio >= MAJORITY,
+  };
+}
+
+/**
+ * Describe a style profile as prompt instructions, with example subjects
+ */
+export function describeCommitStyle(profile: CommitStyleProfile): string {
+  const traits: string[] = [];
+
+  if (profile.conventionalRatio >= MAJORITY) {
+    const scopes = profile.scopes.length > 0 ? `; scopes in use: ${profile.scopes.join(', ')}` : '';
+    traits.push(
+      `Subjects use conventional commit headers "type(scope): subject"; types in use: ${profile.types.join(', ')}${scopes}`
+    );
+  } else if (profile.conventionalRatio < MINORITY) {
+    traits.push('Subjects do not use conventional commit prefixes such as "feat:"');
+  }
+
+  if (profile.emojiRatio >= MAJORITY) {
+    traits.push(`Subjects start with an emoji, such as ${profile.emojis.join(' ')}`);
+  } else if (profile.emojiRatio < MINORITY) {
+    traits.push('Subjects do not use emojis');
+  }
+
+  if (profile.ticketRatio >= MAJORITY && profile.ticketPrefix) {
+    traits.push(`Subjects start with a ticket key, like "${profile.ticketPrefix.trim()}"`);
+  }
+
+  if (profile.casing !== 'mixed') {
+    traits.push(
+      `The description starts with a ${profile.casing === 'lower' ? 'lower case' : 'capital'} letter`
+    );
+  }
+
+  const tenses = {
+    imperative: 'the imperative mood ("Add", "Fix")',
+    past: 'the past tense ("Added", "Fixed")',
+    present: 'the present tense ("Adds", "Fixes")',
+  };
+  if (profile.tense !== 'mixed') {
+    traits.push(`The description is written in ${tenses[profile.tense]}`);
+  }
+
+  traits.push(`Subjects are typically about ${profile.typicalLength} characters long`);
+
+  return `Match the style of this repository's commit messages, learned from its last ${profile.sampleSize} commits. Where it differs from the general format guidance, this style wins for the subject line and the wording of the bullets:
+${traits.map(trait => `- ${trait}`).join('\n')}
+
+Recent subjects from this repository:
+${profile.examples.map(example => `- ${example}`).join('\n')}`;
+}
+
+function mostCommon(values: readonly string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+function majority<T extends string>(values: readonly string[], options: readonly T[]): T | 'mixed' {
+  const winner = options.find(
+    option => values.filter(value => value === option).length / (values.length || 1) >= MAJORITY
+  );
+  return winner ?? 'mixed';
+}
@@ -0,0 +1,192 @@
+import { parseCommitHeader } from './conventional-commit.js';
+import { CommitLintRules, CommitLintViolation, CommitMessageFeedback } from '../types/index.js';
+
+/**
+ * Rules of @commitlint/config-conventional, used when a config extends it but the
+ * package is not installed in the repository
+ */
+export const CONVENTIONAL_PRESET: CommitLintRules = {
+  'body-max-line-length': [2, 'always', 100],
+  'header-max-length': [2, 'always', 100],
+  'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+  'subject-empty': [2, 'never'],
+  'subject-full-stop': [2, 'never', '.'],
+  'type-empty': [2, 'never'],
+  'type-enum': [
+    2,
+    'always',
+    ['build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test'],
+  ],
+};
+
+interface ParsedMessage {
+  readonly header: string;
+  readonly type: string;
+  readonly scopes: readonly string[];
+  readonly subject: string;
+  readonly bodyLines: readonly string[];
+}
+
+type RuleCheck = (message: ParsedMessage, always: boolean, value: unknown) => string | null;
+
+const CASE_CHECKS: Record<string, (text: string) => boolean> = {
+  'lower-case': text => text === text.toLowerCase(),
+  'upper-case': text => text === text.toUpperCase(),
+  'sentence-case': text => text === text.charAt(0).toUpperCase() + text.slice(1).toLowerCase(),
+  'start-case': text => text.split(/\s+/).every(word => /^[^a-z]/.test(word)),
+  'pascal-case': text => /^[A-Z][a-zA-Z0-9]*$/.test(text),
+  'camel-case': text => /^[a-z][a-zA-Z0-9]*$/.test(text),
+  'kebab-case': text => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text),
+  'snake-case': text => /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text),
+};
+
+const RULE_CHECKS: Record<string, RuleCheck> = {
+  'type-enum': ({ type }, always, value) => {
+    if (!type || !Array.isArray(value) || value.includes(type) === always) {
+      return null;
+    }
+    return `type must ${always ? '' : 'not '}be one of [${value.join(', ')}]`;
+  },
+  'type-empty': ({ type }, always) => checkEmpty('type', type, always),
+  'scope-enum': ({ scopes }, always, value) => {
+    if (!Array.isArray(value) || scopes.every(scope => value.includes(scope) === always)) {
+      return null;
+    }
+    return `scope must ${always ? '' : 'not '}be one of [${value.join(', ')}]`;
+  },
+  'scope-empty': ({ scopes }, always) => checkEmpty('scope', scopes.join(','), always),
+  'subject-empty': ({ subject }, always) => checkEmpty('subject', subject, always),
+  'subject-case': ({ subject }, always, value) => {
+    const cases = (Array.isArray(value) ? value : [value]).filter(
+      (name): name is string => typeof name === 'string' && name in CASE_CHECKS
+    );
+    if (!subject || cases.length === 0) {
+      return null;
+    }
+    const matches = cases.some(name => CASE_CHECKS[name]?.(subject));
+    return matches === always ? null : `subject must ${always ? '' : 'not '}be ${cases.join(', ')}`;
+  },
+  'subject-full-stop': ({ subject }, always, value) => {
+    const stop = typeof value === 'string' ? value : '.';
+    if (!subject || subject.endsWith(stop) === always) {
+      return null;
+    }
+    return `subject must ${always ? '' : 'not '}end with "${stop}"`;
+  },
+  'header-max-length': ({ header }, _always, value) =>
+    typeof value === 'number' && header.length > value
+      ? `header must not be longer than ${value} characters, current length is ${header.length}`
+      : null,
+  'body-max-line-length': ({ bodyLines }, _always, value) =>
+    typeof value === 'number' && bodyLines.some(line => line.length > value)
+      ? `body's lines must not be longer than ${value} characters`
+      : null,
+};
+
+function checkEmpty(part: string, text: string, always: boolean): string | null {
+  if (Boolean(text) !== always) {
+    return null;
+  }
+  return always ? `${part} must be empty` : `${part} may not be empty`;
+}
+
+function parseMessage(message: string): ParsedMessage {
+  const [header = '', ...body] = message.trim().split('\n');
+  const parsed = parseCommitHeader(header.trim());
+
+  return {
+    header: header.trim(),
+    type: parsed?.type ?? '',
+    scopes: (parsed?.scope ?? '')
+      .split(/[,/\\]/)
+      .map(scope => scope.trim())
+      .filter(Boolean),
+    subject: parsed?.subject.trim() ?? '',
+    bodyLines: body,
+  };
+}
+
+/**
+ * Check a commit message against commitlint rules
+ * Only the rules listed in RULE_CHECKS are enforced; other rules are ignored
+ * @param message Full commit message, header first
+ * @param rules Rules in commitlint format
+ * @returns Broken rules, errors first
+ */
+export function lintCommitMessage(message: string, rules: CommitLintRules): CommitLintViolation[] {
+  const parsed = parseMessage(message);
+
+  const violations = Object.entries(rules).flatMap(([rule, [level, when, value]]) => {
+    const check = RULE_CHECKS[rule];
+    if (level === 0 || !check) {
+      return [];
+    }
+    const problem = check(parsed, when !== 'never', value);
+    return problem ? [{ rule, level, message: problem }] : [];
+  });
+
+  return violations.sort((a, b) => b.level - a.level);
+}
+
+/**
+ * Describe the enabled rules as plain instructions for a commit message prompt
+ */
+export function describeCommitRules(rules: CommitLintRules): string[] {
+  return Object.entries(rules).flatMap(([rule, [level, when, value]]) => {
+    if (level === 0) {
+      return [];
+    }
+    const always = when !== 'never';
+    const list = Array.isArray(value) ? value.join(', ') : String(value);
+
+    switch (rule) {
+      case 'type-enum':
+        return [`The type must ${always ? '' : 'not '}be one of: ${list}`];
+      case 'type-empty':
+        return [always ? 'Do not use a type' : 'A type is required'];
+      case 'scope-enum':
+        return [`The scope must ${always ? '' : 'not '}be one of: ${list}`];
+      case 'scope-empty':
+        return [always ? 'Do not use a scope' : 'A scope is required'];
+      case 'subject-case':
+        return [`The subject must ${always ? '' : 'not '}be ${list}`];
+      case 'subject-full-stop':
+        return always ? [] : [`The subject must not end with "${value ?? '.'}"`];
+      case 'header-max-length':
+        return [`The header (first line) must be at most ${value} characters`];
+      case 'body-max-line-length':
+        return [`Body lines must be at most ${value} characters`];
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Build the prompt section asking for a message that follows the rules, including what
+ * was wrong with the previous attempt when retrying
+ */
+export function buildCommitRulesInstructions(
+  rules: CommitLintRules,
+  feedback?: CommitMessageFeedback
+): string {
+  const ruleLines = describeCommitRules(rules).map(line => `- ${line}`);
+
+  let instructions = `The message is checked against the repository's commit rules:
+${ruleLines.join('\n')}
+Write the header on the first line as <type>(<scope>): <subject>, then a blank line, then the bullet points.`;
+
+  if (feedback) {
+    instructions += `
+
+Your previous message broke these rules:
+${feedback.violations.map(violation => `- ${violation.message}`).join('\n')}
+
+Previous message:
+${feedback.message}
+
+Fix every violation while keeping the content.`;
+  }
+
+  return instructions;
+}
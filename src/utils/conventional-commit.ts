@@ -0,0 +1,43 @@
+import { ConventionalCommit, GitCommit } from '../types/index.js';
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^()]*)\))?(!)?:\s*(.+)$/;
+const BREAKING_PATTERN = /(?:^|\n)BREAKING[ -]CHANGE:[ \t]*([^\n]*(?:\n(?![ \t]*\n)[^\n]*)*)/;
+
+/**
+ * Parse a commit as a conventional commit ("type(scope)!: description")
+ * @param commit Commit whose subject and body are inspected
+ * @returns Parsed commit, or null when the subject does not follow the convention
+ */
+export function parseConventionalCommit(commit: GitCommit): ConventionalCommit | null {
+  const header = parseCommitHeader(commit.message.trim());
+  if (!header) {
+    return null;
+  }
+
+  const breakingNote = commit.body?.match(BREAKING_PATTERN)?.[1]?.trim();
+
+  return {
+    type: header.type.toLowerCase(),
+    scope: header.scope?.trim() || undefined,
+    description: header.subject.trim(),
+    breaking: header.breaking || breakingNote !== undefined,
+    breakingNote: breakingNote || undefined,
+  };
+}
+
+/**
+ * Split a commit header into its parts, keeping the type and scope as written
+ * @param header First line of a commit message
+ * @returns The parts, or null when the header does not follow the convention
+ */
+export function parseCommitHeader(
+  header: string
+): { type: string; scope?: string | undefined; breaking: boolean; subject: string } | null {
+  const match = header.match(HEADER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, type = '', scope, bang, subject = ''] = match;
+  return { type, scope, breaking: Boolean(bang), subject };
+}
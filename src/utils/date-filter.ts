@@ -0,0 +1,83 @@
+/**
+ * Relative dates like 30d, 2w, 6m or 1y
+ */
+const RELATIVE_DATE_PATTERN = /^(\d+)([dwmy])$/;
+
+/**
+ * Dates without a time of day, which git would otherwise read at the current time
+ */
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check whether a filter names a whole day rather than a moment
+ */
+function isDayFilter(keyword: string): boolean {
+  return (
+    RELATIVE_DATE_PATTERN.test(keyword) ||
+    DAY_PATTERN.test(keyword) ||
+    keyword === 'today' ||
+    keyword === 'yesterday'
+  );
+}
+
+/**
+ * Parse a --since or --until value: a relative date like 30d, 2w, 6m or 1y, "today",
+ * "yesterday", "now", YYYY-MM-DD or a timestamp
+ * Relative dates, "today", "yesterday" and plain days start at local midnight
+ * @returns The date, or null when it cannot be parsed
+ */
+export function parseDateFilter(value: string): Date | null {
+  const keyword = value.trim().toLowerCase();
+  const date = new Date();
+  if (keyword === 'now') {
+    return date;
+  }
+  date.setHours(0, 0, 0, 0);
+
+  const relative = RELATIVE_DATE_PATTERN.exec(keyword);
+  if (relative) {
+    const amount = Number(relative[1]);
+    switch (relative[2]) {
+      case 'd':
+        date.setDate(date.getDate() - amount);
+        break;
+      case 'w':
+        date.setDate(date.getDate() - amount * 7);
+        break;
+      case 'm':
+        date.setMonth(date.getMonth() - amount);
+        break;
+      default:
+        date.setFullYear(date.getFullYear() - amount);
+    }
+    return date;
+  }
+
+  if (keyword === 'today') {
+    return date;
+  }
+  if (keyword === 'yesterday') {
+    date.setDate(date.getDate() - 1);
+    return date;
+  }
+
+  const absolute = new Date(DAY_PATTERN.test(keyword) ? `${keyword}T00:00:00` : value);
+  return Number.isNaN(absolute.getTime()) ? null : absolute;
+}
+
+/**
+ * Format a date filter for git log; git does not understand relative dates like 7d, so
+ * every value naming a day is passed as that local day at the given time
+ * @param time Time of day, e.g. 00:00:00 for --since and 23:59:59 for --until
+ */
+export function toGitDate(value: string, time: string): string {
+  const date = parseDateFilter(value);
+  if (!date || !isDayFilter(value.trim().toLowerCase())) {
+    return value;
+  }
+
+  const day = [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('-');
+  return `${day} ${time}`;
+}
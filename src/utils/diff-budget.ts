@@ -0,0 +1,206 @@
+import { AIProviderType } from '../types/index.js';
+import { estimateTokens, getContextWindow } from './commit-chunks.js';
+import { parseUnifiedDiff } from './diff-parser.js';
+
+/**
+ * Upper bound for the diff part of a commit prompt; more rarely improves the message
+ */
+const MAX_DIFF_TOKENS = 12000;
+
+/**
+ * Share of the context window the diff may take; the rest is instructions and the answer
+ */
+const DIFF_CONTEXT_SHARE = 0.5;
+
+/**
+ * Files whose diffs are noise for a commit message, with the reason reported to the model
+ */
+const NOISE_PATTERNS: ReadonlyArray<[RegExp, string]> = [
+  [
+    /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|Cargo\.lock|Gemfile\.lock|poetry\.lock|composer\.lock|Pipfile\.lock|go\.sum|flake\.lock)$/,
+    'lockfile',
+  ],
+  [/(^|\/)(dist|build|out|coverage|vendor|node_modules|__generated__)\//, 'generated'],
+  [/\.(min\.js|min\.css|map|snap)$|\.generated\.|\.pb\.go$|_pb2\.py$/, 'generated'],
+];
+
+/**
+ * Smallest leftover budget worth spending on a truncated hunk
+ */
+const MIN_TRUNCATED_HUNK_TOKENS = 100;
+
+/**
+ * Paths that usually explain a change less than source code does
+ */
+const LOW_PRIORITY_PATTERNS: readonly RegExp[] = [
+  /(^|\/)(test|tests|__tests__|spec)\//,
+  /\.(test|spec)\.[^/]+$/,
+  /\.(md|txt|rst)$/i,
+  /(^|\/)\.[^/]+$/,
+];
+
+interface DiffHunk {
+  readonly lines: readonly string[];
+  readonly score: number;
+}
+
+interface DiffFile {
+  readonly path: string;
+  readonly header: readonly string[];
+  readonly hunks: readonly DiffHunk[];
+  readonly insertions: number;
+  readonly deletions: number;
+  readonly skipReason?: string | undefined;
+}
+
+/**
+ * Get how many tokens of diff fit in a commit prompt for a provider's model
+ * @param provider Provider type
+ * @param model Model name, if configured
+ * @returns Token budget for the diff
+ */
+export function getDiffTokenBudget(provider: AIProviderType, model?: string): number {
+  const window = getContextWindow(provider, model);
+  return Math.min(MAX_DIFF_TOKENS, Math.floor(window * DIFF_CONTEXT_SHARE));
+}
+
+/**
+ * Fit a staged diff into a token budget
+ * Lockfiles, generated files and binaries are always dropped. When the rest does not fit,
+ * every remaining file gets its most important hunk first, and leftover budget goes to the
+ * next most important hunks.
+ * Files that do not make it are listed by name and stats so the model still knows about them.
+ * @param diff Output of `git diff --cached`
+ * @param budget Token budget for the returned text
+ * @returns Diff text to put in the prompt
+ */
+export function budgetDiff(diff: string, budget: number): string {
+  const files = parseDiff(diff);
+  const candidates = files.filter(file => !file.skipReason);
+  if (candidates.length === files.length && estimateTokens(diff) <= budget) {
+    return diff;
+  }
+
+  // Rendered lines of every included hunk, per file
+  const included = new Map<DiffFile, Map<DiffHunk, readonly string[]>>();
+  let used = 0;
+
+  // A hunk that does not fit is cut down to at most `truncateTo` tokens, or left out when 0
+  const tryInclude = (file: DiffFile, hunk: DiffHunk | undefined, truncateTo: number): void => {
+    const headerCost = included.has(file) ? 0 : estimateTokens(file.header.join('\n'));
+    let lines = hunk?.lines ?? [];
+    let cost = headerCost + estimateTokens(lines.join('\n'));
+
+    if (used + cost > budget) {
+      const available = Math.min(truncateTo, budget - used - headerCost);
+      if (!hunk || available < MIN_TRUNCATED_HUNK_TOKENS) {
+        return;
+      }
+      lines = truncateLines(hunk.lines, available);
+      cost = headerCost + estimateTokens(lines.join('\n'));
+    }
+
+    used += cost;
+    const hunks = included.get(file) ?? new Map<DiffHunk, readonly string[]>();
+    if (hunk) {
+      hunks.set(hunk, lines);
+    }
+    included.set(file, hunks);
+  };
+
+  // Breadth first: the top hunk of every file, most important files first
+  const byFileScore = [...candidates].sort(
+    (a, b) => getTopScore(b) - getTopScore(a) || a.path.localeCompare(b.path)
+  );
+  byFileScore.forEach((file, index) => {
+    const top = [...file.hunks].sort((a, b) => b.score - a.score)[0];
+    // An oversized hunk only gets its fair share so the files after it still fit
+    const fairShare = Math.floor((budget - used) / (byFileScore.length - index));
+    tryInclude(file, top, fairShare);
+  });
+
+  // Then the remaining hunks across all files by importance
+  const remaining = candidates
+    .flatMap(file => file.hunks.map(hunk => ({ file, hunk })))
+    .filter(({ file, hunk }) => included.has(file) && !included.get(file)?.has(hunk))
+    .sort((a, b) => b.hunk.score - a.hunk.score);
+  for (const { file, hunk } of remaining) {
+    tryInclude(file, hunk, 0);
+  }
+
+  const sections = files
+    .filter(file => included.has(file))
+    .map(file => {
+      const hunks = included.get(file) ?? new Map<DiffHunk, readonly string[]>();
+      const omitted = file.hunks.length - hunks.size;
+      return [
+        ...file.header,
+        ...file.hunks.flatMap(hunk => hunks.get(hunk) ?? []),
+        ...(omitted > 0 ? [`... (${omitted} more hunk${omitted === 1 ? '' : 's'} omitted)`] : []),
+      ].join('\n');
+    });
+
+  const skipped = files.filter(file => !included.has(file)).map(describeSkippedFile);
+
+  return [
+    ...sections,
+    ...(skipped.length > 0 ? [`Files not shown above:\n${skipped.join('\n')}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Parse a diff and score its hunks
+ */
+function parseDiff(diff: string): DiffFile[] {
+  return parseUnifiedDiff(diff).map(file => {
+    const lowPriority = LOW_PRIORITY_PATTERNS.some(pattern => pattern.test(file.path));
+    const noise = NOISE_PATTERNS.find(([pattern]) => pattern.test(file.path));
+
+    return {
+      ...file,
+      hunks: file.hunks.map(lines => createHunk(lines, lowPriority)),
+      skipReason: file.isBinary ? 'binary' : noise?.[1],
+    };
+  });
+}
+
+/**
+ * Score a hunk: more changed lines matter more, with diminishing returns so one huge
+ * hunk does not crowd out the rest; whitespace-only and low priority hunks rank lower
+ */
+function createHunk(lines: readonly string[], lowPriority: boolean): DiffHunk {
+  const changed = lines.filter(line => /^[+-]/.test(line));
+  const meaningful = changed.filter(line => line.slice(1).trim().length > 0);
+  const score = Math.log2(1 + meaningful.length) * (lowPriority ? 0.5 : 1);
+
+  return { lines, score };
+}
+
+/**
+ * Keep the start of a hunk that fits the token budget
+ */
+function truncateLines(lines: readonly string[], budget: number): string[] {
+  const kept: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > budget - 10) {
+      break;
+    }
+    kept.push(line);
+    used += cost;
+  }
+  return [...kept, '... (hunk truncated)'];
+}
+
+function describeSkippedFile(file: DiffFile): string {
+  if (file.skipReason === 'binary') {
+    return `- ${file.path} (binary)`;
+  }
+  const reason = file.skipReason ?? 'omitted for length';
+  return `- ${file.path} (${reason}, +${file.insertions} -${file.deletions})`;
+}
+
+function getTopScore(file: DiffFile): number {
+  return Math.max(0, ...file.hunks.map(hunk => hunk.score));
+}
@@ -0,0 +1,69 @@
+/**
+ * One file of a unified diff, split into its header and hunks
+ */
+export interface ParsedDiffFile {
+  readonly path: string;
+  readonly header: readonly string[];
+  readonly hunks: readonly (readonly string[])[];
+  readonly isBinary: boolean;
+  readonly insertions: number;
+  readonly deletions: number;
+}
+
+/**
+ * Split a unified diff (as printed by `git diff`) into files and hunks
+ * @param diff Diff text
+ * @returns Files in diff order; binary patches and mode-only changes have no hunks
+ */
+export function parseUnifiedDiff(diff: string): ParsedDiffFile[] {
+  const chunks = diff.split(/^(?=diff --git )/m).filter(chunk => chunk.startsWith('diff --git '));
+
+  return chunks.map(chunk => {
+    const lines = chunk.replace(/\n$/, '').split('\n');
+    const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+    const header = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+
+    const hunks: string[][] = [];
+    if (firstHunk !== -1) {
+      let current: string[] = [];
+      for (const line of lines.slice(firstHunk)) {
+        if (line.startsWith('@@') && current.length > 0) {
+          hunks.push(current);
+          current = [];
+        }
+        current.push(line);
+      }
+      hunks.push(current);
+    }
+
+    return {
+      path: getPath(header),
+      header,
+      hunks,
+      isBinary: header.some(
+        line => line.startsWith('Binary files ') || line === 'GIT binary patch'
+      ),
+      insertions: countLines(hunks, '+'),
+      deletions: countLines(hunks, '-'),
+    };
+  });
+}
+
+function countLines(hunks: readonly (readonly string[])[], marker: '+' | '-'): number {
+  return hunks.reduce(
+    (total, hunk) => total + hunk.filter(line => line.startsWith(marker)).length,
+    0
+  );
+}
+
+function getPath(header: readonly string[]): string {
+  const target = header.find(line => line.startsWith('+++ b/'));
+  if (target) {
+    return target.slice('+++ b/'.length);
+  }
+  const source = header.find(line => line.startsWith('--- a/'));
+  if (source) {
+    return source.slice('--- a/'.length);
+  }
+  return header[0]?.match(/^diff --git a\/(.+) b\//)?.[1] ?? 'unknown';
+}
@@ -0,0 +1,323 @@
+import { AIResponse, GitCommit, ReportLength } from '../types/index.js';
+import { parseConventionalCommit } from './conventional-commit.js';
+import { getCommitAuthors } from './commit-authors.js';
+
+/**
+ * Section titles of conventional commit types; anything else is listed as "Changes"
+ */
+const TYPE_TITLES: Record<string, string> = {
+  feat: 'Features',
+  fix: 'Fixes',
+  perf: 'Performance',
+  refactor: 'Refactoring',
+  docs: 'Documentation',
+  test: 'Tests',
+  build: 'Build',
+  ci: 'CI',
+  chore: 'Maintenance',
+  style: 'Code style',
+  revert: 'Reverts',
+};
+
+/**
+ * Types guessed from the first word of subjects that do not follow the convention
+ */
+const VERB_TYPES: Record<string, string> = {
+  add: 'feat',
+  implement: 'feat',
+  introduce: 'feat',
+  support: 'feat',
+  fix: 'fix',
+  resolve: 'fix',
+  correct: 'fix',
+  refactor: 'refactor',
+  move: 'refactor',
+  rename: 'refactor',
+  extract: 'refactor',
+  simplify: 'refactor',
+  document: 'docs',
+  test: 'test',
+  bump: 'chore',
+  upgrade: 'chore',
+  revert: 'revert',
+  speed: 'perf',
+  optimize: 'perf',
+};
+
+/**
+ * Ticket keys and bracketed tags in front of a subject, e.g. "[PROJ-12] " or "PROJ-12: "
+ */
+const SUBJECT_PREFIX_PATTERN = /^(?:\[[^\]]*\]|[A-Z][A-Z0-9]+-\d+:?)\s*/;
+
+/**
+ * Types reported as technical improvements rather than accomplishments
+ */
+const TECHNICAL_TYPES = new Set(['perf', 'refactor', 'test', 'build', 'ci', 'chore', 'style']);
+
+/**
+ * Items listed per section for each report length
+ */
+const SECTION_LIMITS: Record<ReportLength, number> = { light: 3, short: 5, detailed: 10 };
+
+/**
+ * Changed lines above which a single commit is flagged as hard to review
+ */
+const LARGE_COMMIT_LINES = 1000;
+
+/**
+ * What a commit did, read from its conventional header or guessed from its subject
+ */
+interface CommitKind {
+  type: string;
+  scope?: string | undefined;
+  subject: string;
+  breaking: boolean;
+  breakingNote?: string | undefined;
+}
+
+/**
+ * Commits sharing a conventional type and a scope or directory
+ */
+interface WorkGroup {
+  type: string;
+  area: string;
+  commits: { commit: GitCommit; subject: string; churn: number }[];
+  churn: number;
+}
+
+/**
+ * Build a report from commit metadata alone, without asking an AI provider
+ * Commits are grouped by conventional type and scope, falling back to the directory they
+ * touch; groups are ranked by churn and described by their largest commits
+ * @param commits Commits to summarize, newest first
+ * @param length How many items each section lists
+ * @returns A report in the same shape the AI providers return
+ */
+export function buildHeuristicReport(
+  commits: readonly GitCommit[],
+  length: ReportLength = 'detailed'
+): AIResponse {
+  // Merge commits repeat the churn of the commits they bring in
+  const work = commits.some(commit => !commit.isMerge)
+    ? commits.filter(commit => !commit.isMerge)
+    : commits;
+  const limit = SECTION_LIMITS[length];
+  const groups = groupWork(work);
+
+  const accomplishments = groups
+    .filter(group => !TECHNICAL_TYPES.has(group.type))
+    .slice(0, limit)
+    .map(describeGroup);
+  const technicalImprovements = groups
+    .filter(group => TECHNICAL_TYPES.has(group.type))
+    .slice(0, limit)
+    .map(describeGroup);
+  const risks = findRisks(work).slice(0, limit);
+
+  return {
+    summary: summarize(commits, work, groups, length),
+    accomplishments:
+      accomplishments.length > 0 ? accomplishments : technicalImprovements.slice(0, limit),
+    ...(length !== 'light' && accomplishments.length > 0 && technicalImprovements.length > 0
+      ? { technicalImprovements }
+      : {}),
+    ...(length !== 'light' && risks.length > 0 ? { risks } : {}),
+  };
+}
+
+/**
+ * Group commits by type and area, largest churn first
+ */
+function groupWork(commits: readonly GitCommit[]): WorkGroup[] {
+  const groups = new Map<string, WorkGroup>();
+
+  for (const commit of commits) {
+    const { type, scope, subject } = classify(commit);
+    const area = scope ?? getArea(commit);
+    const churn = getChurn(commit);
+
+    const key = `${type}\0${area}`;
+    const group = groups.get(key) ?? { type, area, commits: [], churn: 0 };
+    group.commits.push({ commit, subject, churn });
+    group.churn += churn;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].sort(
+    (a, b) => b.churn - a.churn || b.commits.length - a.commits.length
+  );
+}
+
+/**
+ * Describe a group by its largest commits, e.g.
+ * "Features in src/core: Add report cache; Stream reports (+2 more; 4 commits, +420 -35)"
+ */
+function describeGroup(group: WorkGroup): string {
+  const title = TYPE_TITLES[group.type] ?? 'Changes';
+  const subjects = [...group.commits]
+    .sort((a, b) => b.churn - a.churn)
+    .map(entry => capitalize(entry.subject))
+    .filter((subject, index, all) => subject && all.indexOf(subject) === index);
+  const shown = subjects.slice(0, 2);
+  const more = subjects.length - shown.length;
+
+  const { insertions, deletions } = sumLines(group.commits.map(entry => entry.commit));
+  const count = `${group.commits.length} commit${group.commits.length === 1 ? '' : 's'}`;
+  const details = [more > 0 ? `+${more} more` : '', `${count}, +${insertions} -${deletions}`]
+    .filter(Boolean)
+    .join('; ');
+
+  return `${title} in ${group.area}: ${shown.join('; ')} (${details})`;
+}
+
+/**
+ * One-paragraph overview: volume, authors, the kinds of work and the busiest areas
+ */
+function summarize(
+  commits: readonly GitCommit[],
+  work: readonly GitCommit[],
+  groups: readonly WorkGroup[],
+  length: ReportLength
+): string {
+  const authors = new Set(commits.flatMap(commit => getCommitAuthors(commit))).size;
+  const files = new Set(work.flatMap(commit => commit.files)).size;
+  const { insertions, deletions } = sumLines(work);
+  const sentences = [
+    `${commits.length} commit${commits.length === 1 ? '' : 's'} by ${authors} author${authors === 1 ? '' : 's'} changed ${files} file${files === 1 ? '' : 's'} (+${insertions} -${deletions} lines).`,
+  ];
+
+  const byType = new Map<string, number>();
+  for (const group of groups) {
+    byType.set(group.type, (byType.get(group.type) ?? 0) + group.commits.length);
+  }
+  const kinds = [...byType]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([type, count]) => `${(TYPE_TITLES[type] ?? 'other changes').toLowerCase()} (${count})`);
+  if (kinds.length > 0) {
+    sentences.push(`Most work went into ${joinList(kinds)}.`);
+  }
+
+  if (length !== 'light') {
+    const areas = new Map<string, number>();
+    for (const commit of work) {
+      for (const [area, churn] of getAreaChurn(commit)) {
+        areas.set(area, (areas.get(area) ?? 0) + churn);
+      }
+    }
+    const totalChurn = [...areas.values()].reduce((total, churn) => total + churn, 0);
+    const busiest = [...areas]
+      .filter(([, churn]) => churn > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([area, churn]) => `${area} (${Math.round((churn / totalChurn) * 100)}%)`);
+    if (busiest.length > 0) {
+      sentences.push(`The busiest areas by changed lines were ${joinList(busiest)}.`);
+    }
+  }
+
+  sentences.push('This summary was built from commit metadata without an AI provider.');
+  return sentences.join(' ');
+}
+
+/**
+ * Flag breaking changes, reverts and commits too large to review comfortably
+ */
+function findRisks(commits: readonly GitCommit[]): string[] {
+  const risks: string[] = [];
+
+  for (const commit of commits) {
+    const kind = classify(commit);
+    const hash = commit.hash.substring(0, 7);
+    if (kind.breaking) {
+      risks.push(`Breaking change in ${hash}: ${kind.breakingNote ?? kind.subject}`);
+    } else if (kind.type === 'revert') {
+      risks.push(`Reverted work in ${hash}: ${kind.subject}`);
+    }
+  }
+
+  const large = commits
+    .filter(commit => getChurn(commit) > LARGE_COMMIT_LINES)
+    .sort((a, b) => getChurn(b) - getChurn(a));
+  for (const commit of large) {
+    const { subject } = classify(commit);
+    risks.push(
+      `Large commit ${commit.hash.substring(0, 7)} changed ${getChurn(commit)} lines: ${subject}`
+    );
+  }
+
+  return risks;
+}
+
+/**
+ * Read a commit's type from its conventional header, or guess it from the subject's first word
+ */
+function classify(commit: GitCommit): CommitKind {
+  const parsed = parseConventionalCommit(commit);
+  if (parsed) {
+    return {
+      type: TYPE_TITLES[parsed.type] ? parsed.type : 'other',
+      scope: parsed.scope,
+      subject: parsed.description,
+      breaking: parsed.breaking,
+      breakingNote: parsed.breakingNote,
+    };
+  }
+
+  const subject = (commit.message.split('\n')[0] ?? '').trim().replace(SUBJECT_PREFIX_PATTERN, '');
+  const verb = subject.match(/^[a-z]+/i)?.[0]?.toLowerCase() ?? '';
+  const type = VERB_TYPES[verb] ?? VERB_TYPES[verb.replace(/(?:e?s|ed|ing)$/, '')] ?? 'other';
+  return { type, subject, breaking: false };
+}
+
+/**
+ * Get the directory with the most changed lines in a commit, two levels deep (e.g. "src/core/")
+ */
+function getArea(commit: GitCommit): string {
+  const [top] = [...getAreaChurn(commit)].sort((a, b) => b[1] - a[1]);
+  return top ? top[0] : '(no files)';
+}
+
+/**
+ * Changed lines per directory; files without line stats count as one line each
+ */
+function getAreaChurn(commit: GitCommit): Map<string, number> {
+  const stats = commit.fileStats?.length
+    ? commit.fileStats.map(stat => ({ path: stat.path, churn: stat.insertions + stat.deletions }))
+    : commit.files.map(file => ({ path: file, churn: 1 }));
+
+  const areas = new Map<string, number>();
+  for (const { path, churn } of stats) {
+    const parts = path.split('/').slice(0, -1).slice(0, 2);
+    const directory = parts.length > 0 ? `${parts.join('/')}/` : '(root)';
+    areas.set(directory, (areas.get(directory) ?? 0) + churn);
+  }
+  return areas;
+}
+
+function getChurn(commit: GitCommit): number {
+  return (commit.insertions ?? 0) + (commit.deletions ?? 0);
+}
+
+function sumLines(commits: readonly GitCommit[]): { insertions: number; deletions: number } {
+  return commits.reduce(
+    (total, commit) => ({
+      insertions: total.insertions + (commit.insertions ?? 0),
+      deletions: total.deletions + (commit.deletions ?? 0),
+    }),
+    { insertions: 0, deletions: 0 }
+  );
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Join items as "a, b and c"
+ */
+function joinList(items: readonly string[]): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+    : (items[0] ?? '');
+}
@@ -0,0 +1,26 @@
+/**
+ * Characters with a meaning in HTML text and attribute values
+ */
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text taken from the repository or the command line before it goes into a report
+ * page, so commit messages, author names and pathspecs are shown rather than parsed as HTML
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char] ?? char);
+}
+
+/**
+ * Serialize a value as a JavaScript literal for an inline script; "<" is written as an
+ * escape so a string containing "</script>" cannot end the script element
+ */
+export function toScriptLiteral(value: unknown): string {
+  return JSON.stringify(value, null, 2).replace(/</g, '\\u003c');
+}
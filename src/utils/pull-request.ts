@@ -0,0 +1,168 @@
+import { PullRequestDescription } from '../types/index.js';
+
+/**
+ * Places GitHub looks for a pull request template, relative to the repository root
+ */
+export const PULL_REQUEST_TEMPLATE_PATHS: readonly string[] = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+];
+
+type DescriptionPart = 'summary' | 'changes' | 'testing' | 'risks' | 'tickets';
+
+/**
+ * Template headings each part is written under, checked in order
+ */
+const SECTION_PATTERNS: ReadonlyArray<[DescriptionPart, RegExp]> = [
+  ['tickets', /ticket|issue|related|link|jira|closes|fixes|references?/i],
+  ['testing', /test|verif|\bqa\b|how to/i],
+  ['risks', /risk|impact|breaking|concern|rollback|caveat/i],
+  ['changes', /change|implementation|details/i],
+  ['summary', /summary|description|what|why|overview|purpose|motivation|context/i],
+];
+
+const DEFAULT_HEADINGS: Record<DescriptionPart, string> = {
+  summary: 'Summary',
+  changes: 'Changes',
+  testing: 'Testing',
+  risks: 'Risks',
+  tickets: 'Tickets',
+};
+
+/**
+ * Parse the description a provider returned, tolerating code fences or prose around the JSON
+ * Expected shape: {"title": "...", "summary": "...", "changes": [], "testing": [], "risks": []}
+ * @param text Raw model output
+ * @returns The description, or null when the title or summary is missing
+ */
+export function parsePullRequestJson(text: string): PullRequestDescription | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  let value: Record<string, unknown>;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const toText = (field: unknown) => (typeof field === 'string' ? field.trim() : '');
+  const toList = (field: unknown) =>
+    (Array.isArray(field) ? field : [field]).map(toText).filter(Boolean);
+
+  const description = {
+    title: toText(value?.['title']).split('\n')[0] ?? '',
+    summary: toText(value?.['summary']),
+    changes: toList(value?.['changes']),
+    testing: toList(value?.['testing']),
+    risks: toList(value?.['risks']),
+  };
+
+  return description.title && description.summary ? description : null;
+}
+
+/**
+ * Render a pull request body, filling the sections of a repository template when there is one
+ * Template sections are matched to description parts by heading; comments in a filled
+ * section are dropped while its checklists are kept, and unmatched sections stay as they are
+ * @param tickets Ticket keys the branch refers to
+ * @param template Contents of the repository's pull request template
+ */
+export function renderPullRequestDescription(
+  description: PullRequestDescription,
+  tickets: readonly string[],
+  template?: string | null
+): string {
+  const parts: Record<DescriptionPart, string> = {
+    summary: description.summary,
+    changes: toBullets(description.changes),
+    testing: toBullets(description.testing),
+    risks: toBullets(description.risks.length > 0 ? description.risks : ['None identified']),
+    tickets: toBullets(tickets),
+  };
+  const wanted = (Object.keys(parts) as DescriptionPart[]).filter(
+    part => part !== 'tickets' || tickets.length > 0
+  );
+
+  if (!template?.trim()) {
+    return wanted.map(part => `## ${DEFAULT_HEADINGS[part]}\n\n${parts[part]}`).join('\n\n') + '\n';
+  }
+
+  const used = new Set<DescriptionPart>();
+  const sections = splitSections(template).map(section => {
+    const part = section.heading ? matchPart(section.heading) : undefined;
+    if (!part || used.has(part) || !wanted.includes(part)) {
+      return section.text.trimEnd();
+    }
+    used.add(part);
+
+    const checklist = section.body
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .split('\n')
+      .filter(line => /^\s*[-*] \[[ xX]\]/.test(line));
+    return [section.heading, '', parts[part], ...(checklist.length > 0 ? ['', ...checklist] : [])]
+      .join('\n')
+      .trimEnd();
+  });
+
+  const missing = wanted
+    .filter(part => !used.has(part))
+    .map(part => `## ${DEFAULT_HEADINGS[part]}\n\n${parts[part]}`);
+
+  return [...sections, ...missing].filter(Boolean).join('\n\n') + '\n';
+}
+
+interface TemplateSection {
+  readonly heading?: string | undefined;
+  readonly body: string;
+  readonly text: string;
+}
+
+/**
+ * Split a markdown template at its headings; text before the first heading is its own section
+ */
+function splitSections(template: string): TemplateSection[] {
+  const sections: TemplateSection[] = [];
+  let heading: string | undefined;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const body = lines.join('\n');
+    if (heading || body.trim()) {
+      sections.push({ heading, body, text: heading ? `${heading}\n${body}` : body });
+    }
+  };
+
+  for (const line of template.replace(/\r\n/g, '\n').split('\n')) {
+    if (/^#{1,6}\s+\S/.test(line)) {
+      flush();
+      heading = line;
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+function matchPart(heading: string): DescriptionPart | undefined {
+  const title = heading.replace(/^#+\s*/, '');
+  // "Type of change" sections are checklists for the author to tick
+  if (/^type of/i.test(title)) {
+    return undefined;
+  }
+  return SECTION_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0];
+}
+
+function toBullets(items: readonly string[]): string {
+  return items.map(item => `- ${item.replace(/^[-*•]\s+/, '')}`).join('\n');
+}
@@ -0,0 +1,123 @@
+import { CommitChunk, GitCommit, PartialReport, ReportLength } from '../types/index.js';
+
+/**
+ * Response format shared by every report prompt
+ */
+const REPORT_RESPONSE_FORMAT = `Respond with a single JSON object and nothing else, using this shape:
+{
+  "summary": "A brief overview of the work done",
+  "accomplishments": ["Accomplishment 1", "Accomplishment 2", "Accomplishment 3"],
+  "technicalImprovements": ["Technical detail 1", "Technical detail 2"],
+  "recommendations": ["Suggested follow-up work"],
+  "risks": ["Risk or open concern worth flagging"]
+}
+Use an empty array for any list with nothing to report.`;
+
+/**
+ * Length-specific instructions for report generation
+ */
+const LENGTH_INSTRUCTIONS: Record<ReportLength, string> = {
+  light: `Generate a LIGHT report with:
+- Very brief summary (1-2 sentences)
+- Top 3-5 key accomplishments only
+- Minimal technical details
+- Focus on high-level impact and business value
+- Keep it concise and executive-friendly`,
+
+  short: `Generate a SHORT report with:
+- Concise summary (2-3 sentences)
+- 5-8 key accomplishments
+- Some technical highlights
+- Balanced detail level for quick review
+- Good for daily/weekly updates`,
+
+  detailed: `Generate a DETAILED report with:
+- Comprehensive summary (3-5 sentences)
+- 8-15 key accomplishments
+- Extensive technical highlights and improvements
+- Detailed analysis of patterns and trends
+- Recommendations for future work
+- Perfect for comprehensive reviews and documentation`,
+};
+
+/**
+ * Build the prompt for a report covering all commits at once
+ */
+export function buildReportPrompt(
+  commits: readonly GitCommit[],
+  length: ReportLength = 'detailed'
+): string {
+  return `Please analyze the following git commits and generate an accomplishment report.
+
+Git Commits:
+${formatCommitSummaries(commits)}
+
+${LENGTH_INSTRUCTIONS[length]}
+
+${REPORT_RESPONSE_FORMAT}
+
+Focus on the impact and value of the changes rather than just listing commits. Group related changes together and highlight the most significant contributions.`;
+}
+
+/**
+ * Build the prompt summarizing one chunk of a larger commit set
+ */
+export function buildChunkReportPrompt(chunk: CommitChunk): string {
+  return `The following git commits are one part (${chunk.label}) of a larger history that is summarized in parts and merged afterwards.
+
+Git Commits:
+${formatCommitSummaries(chunk.commits)}
+
+Summarize this part only. Keep every accomplishment specific enough to be merged with the other parts later.
+
+${REPORT_RESPONSE_FORMAT}`;
+}
+
+/**
+ * Build the prompt merging partial reports into one report
+ */
+export function buildMergeReportPrompt(
+  partials: readonly PartialReport[],
+  length: ReportLength
+): string {
+  const partialReports = partials.map(formatPartialReport).join('\n\n');
+
+  return `Please merge the following partial accomplishment reports, each covering one part of the git history, into a single accomplishment report.
+
+Partial Reports:
+${partialReports}
+
+${LENGTH_INSTRUCTIONS[length]}
+
+${REPORT_RESPONSE_FORMAT}
+
+Combine duplicate or related accomplishments across parts and highlight the most significant contributions of the whole period.`;
+}
+
+/**
+ * Format a partial report for the merge prompt
+ */
+export function formatPartialReport(partial: PartialReport): string {
+  const { response } = partial;
+  const items = [
+    ...response.accomplishments,
+    ...(response.technicalImprovements ?? []).map(item => `Technical: ${item}`),
+    ...(response.risks ?? []).map(item => `Risk: ${item}`),
+  ];
+  return `### ${partial.label}\n${response.summary}\n${items.map(item => `- ${item}`).join('\n')}`;
+}
+
+/**
+ * Format commits as one prompt line each: date, message and the first files touched
+ */
+export function formatCommitSummaries(commits: readonly GitCommit[]): string {
+  return commits
+    .map(commit => {
+      const date = commit.date.split('T')[0];
+      const files = commit.files.slice(0, 3).join(', ');
+      const moreFiles = commit.files.length > 3 ? '...' : '';
+      const merge = commit.isMerge ? ' (merge)' : '';
+      return `- ${date} | ${commit.message}${merge} | Files: ${files}${moreFiles}`;
+    })
+    .join('\n');
+}
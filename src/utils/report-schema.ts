@@ -0,0 +1,197 @@
+import { AIResponse, ReportPreview } from '../types/index.js';
+
+/**
+ * Optional list sections of a structured report
+ */
+const OPTIONAL_LIST_FIELDS = ['technicalImprovements', 'recommendations', 'risks'] as const;
+
+const STRING_LIST = { type: 'array', items: { type: 'string' } } as const;
+
+/**
+ * Characters JSON writes as a backslash and a letter
+ */
+const JSON_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * JSON schema of the report object providers are asked to return
+ */
+export const REPORT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'A brief overview of the work done' },
+    accomplishments: { ...STRING_LIST, description: 'Key accomplishments, most significant first' },
+    technicalImprovements: { ...STRING_LIST, description: 'Notable technical changes' },
+    recommendations: { ...STRING_LIST, description: 'Suggested follow-up work' },
+    risks: { ...STRING_LIST, description: 'Risks or open concerns worth flagging' },
+  },
+  required: ['summary', 'accomplishments'],
+} as const;
+
+/**
+ * Validate a value against the report schema
+ * @param value Parsed JSON or tool input returned by a provider
+ * @returns The report with empty entries dropped, or null when the value is not a usable report
+ */
+export function validateReport(value: unknown): AIResponse | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const summary = typeof record.summary === 'string' ? record.summary.trim() : '';
+  const accomplishments = toStringList(record.accomplishments);
+  if (!summary || !accomplishments) {
+    return null;
+  }
+
+  const report: {
+    summary: string;
+    accomplishments: readonly string[];
+    technicalImprovements?: readonly string[];
+    recommendations?: readonly string[];
+    risks?: readonly string[];
+  } = { summary, accomplishments };
+
+  for (const field of OPTIONAL_LIST_FIELDS) {
+    const items = toStringList(record[field]);
+    if (items && items.length > 0) {
+      report[field] = items;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Parse a report from JSON text, tolerating code fences or prose around the object
+ * @param text Raw model output
+ * @returns The validated report, or null when no valid report object is found
+ */
+export function parseReportJson(text: string): AIResponse | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  try {
+    return validateReport(JSON.parse(text.slice(start, end + 1)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a report returned as JSON, falling back to the free-text layout of older prompts
+ * ("Summary:" followed by a "Key Accomplishments:" list) when no valid JSON report is found
+ * @param text Raw model output
+ */
+export function parseReportText(text: string): AIResponse {
+  return parseReportJson(text) ?? parseMarkdownReport(text);
+}
+
+/**
+ * Read a report from free text: summary lines until an accomplishments or highlights
+ * heading, then the "-" list items under it
+ */
+function parseMarkdownReport(text: string): AIResponse {
+  const accomplishments: string[] = [];
+  let inAccomplishments = false;
+  let summary = '';
+
+  for (const line of text.split('\n')) {
+    const trimmedLine = line.trim();
+    const lower = trimmedLine.toLowerCase();
+
+    if (lower.includes('summary:')) {
+      inAccomplishments = false;
+    } else if (lower.includes('accomplishments:') || lower.includes('highlights:')) {
+      inAccomplishments = true;
+    } else if (inAccomplishments && trimmedLine.startsWith('-')) {
+      accomplishments.push(trimmedLine.substring(1).trim());
+    } else if (!inAccomplishments && trimmedLine && !trimmedLine.startsWith('**')) {
+      summary += trimmedLine + ' ';
+    }
+  }
+
+  return {
+    summary: summary.trim() || 'Work completed during the specified period.',
+    accomplishments:
+      accomplishments.length > 0 ? accomplishments : ['Various development tasks completed'],
+  };
+}
+
+/**
+ * Read the summary and accomplishments of a report that is still streaming in as JSON
+ * The text may stop anywhere, even inside a string; unfinished strings are returned as far
+ * as they go
+ * @param text JSON received so far
+ */
+export function parsePartialReport(text: string): ReportPreview {
+  const summaryStart = /"summary"\s*:\s*"/.exec(text);
+  const summary = summaryStart
+    ? readPartialString(text, summaryStart.index + summaryStart[0].length).value
+    : '';
+
+  const accomplishments: string[] = [];
+  const listStart = /"accomplishments"\s*:\s*\[/.exec(text);
+  let index = listStart ? listStart.index + listStart[0].length : text.length;
+  for (;;) {
+    while (index < text.length && /[\s,]/.test(text.charAt(index))) {
+      index++;
+    }
+    if (text.charAt(index) !== '"') {
+      break;
+    }
+    const item = readPartialString(text, index + 1);
+    accomplishments.push(item.value);
+    if (item.end === -1) {
+      break;
+    }
+    index = item.end;
+  }
+
+  return { summary: summary.trim(), accomplishments: accomplishments.map(item => item.trim()) };
+}
+
+/**
+ * Read a JSON string starting after its opening quote
+ * @returns The decoded value, and the index after the closing quote or -1 when it is unfinished
+ */
+function readPartialString(text: string, start: number): { value: string; end: number } {
+  let value = '';
+  for (let index = start; index < text.length; index++) {
+    const char = text.charAt(index);
+    if (char === '"') {
+      return { value, end: index + 1 };
+    }
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escaped = text.charAt(index + 1);
+    if (escaped === 'u') {
+      const code = text.slice(index + 2, index + 6);
+      if (code.length < 4) {
+        break;
+      }
+      value += String.fromCharCode(parseInt(code, 16));
+      index += 5;
+    } else if (escaped) {
+      value += JSON_ESCAPES[escaped] ?? escaped;
+      index++;
+    }
+  }
+  return { value, end: -1 };
+}
+
+function toStringList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
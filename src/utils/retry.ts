@@ -0,0 +1,74 @@
+import { RetrySettings } from '../types/index.js';
+
+/**
+ * Retry settings used for anything the config leaves out
+ */
+export const DEFAULT_RETRY: Required<RetrySettings> = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Messages of errors worth retrying when no HTTP status is attached: rate limits, overloaded
+ * or unavailable servers, timeouts and dropped connections
+ */
+const TRANSIENT_MESSAGE_PATTERN =
+  /\b(408|429|5\d\d)\b|rate.?limit|too many requests|overloaded|resource.*exhausted|unavailable|bad gateway|gateway time-?out|internal server error|timed? ?out|ETIMEDOUT|ECONNRESET|EAI_AGAIN|socket hang up/i;
+
+/**
+ * Check whether an error is likely to go away when the request is repeated
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  return TRANSIENT_MESSAGE_PATTERN.test(message);
+}
+
+/**
+ * Delay before a retry: exponential in the attempt, capped, with jitter so parallel requests
+ * do not retry in lockstep
+ * @param attempt Zero-based retry number
+ * @param random Source of randomness in [0, 1)
+ */
+export function getRetryDelay(
+  attempt: number,
+  settings: RetrySettings = {},
+  random: () => number = Math.random
+): number {
+  const baseDelayMs = settings.baseDelayMs ?? DEFAULT_RETRY.baseDelayMs;
+  const maxDelayMs = settings.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs;
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Run an operation, repeating it after a delay while it fails with a transient error
+ * @param onRetry Called before each wait, e.g. to tell the user
+ * @returns The first successful result
+ * @throws The last error, once it is not transient or the retries are used up
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  settings: RetrySettings = {},
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  const retries = settings.retries ?? DEFAULT_RETRY.retries;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(attempt, settings);
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
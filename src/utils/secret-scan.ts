@@ -0,0 +1,241 @@
+import { parseUnifiedDiff } from './diff-parser.js';
+import { SecretFinding, SecretRule, SecretScanSettings } from '../types/index.js';
+
+/**
+ * Secret patterns checked in every scan unless disabled by id
+ */
+export const BUILT_IN_SECRET_RULES: readonly SecretRule[] = [
+  // Matches the BEGIN line; the scan extends the finding through the END line
+  {
+    id: 'private-key',
+    description: 'Private key',
+    pattern: '-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----',
+  },
+  {
+    id: 'aws-access-key',
+    description: 'AWS access key',
+    pattern: '\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b',
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: '\\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\\b',
+  },
+  { id: 'slack-token', description: 'Slack token', pattern: '\\bxox[abprs]-[A-Za-z0-9-]{10,}' },
+  { id: 'stripe-key', description: 'Stripe key', pattern: '\\b[rs]k_live_[A-Za-z0-9]{16,}\\b' },
+  { id: 'google-api-key', description: 'Google API key', pattern: '\\bAIza[0-9A-Za-z_-]{35}\\b' },
+  {
+    id: 'ai-api-key',
+    description: 'OpenAI or Anthropic API key',
+    pattern: '\\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}',
+  },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    pattern: '\\beyJ[A-Za-z0-9_-]{10,}\\.eyJ[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}',
+  },
+  {
+    id: 'credential-assignment',
+    description: 'Hard-coded credential',
+    pattern:
+      '(?:api[_-]?key|apiKey|API[_-]?KEY|[Ss]ecret|SECRET|[Tt]oken|TOKEN|[Pp]assw(?:or)?d|PASSW(?:OR)?D)' +
+      '["\']?\\s*[:=]\\s*["\']([^\\s"\'$<>{}]{8,})["\']',
+  },
+];
+
+/**
+ * .env files, except the example files meant to be committed
+ */
+const ENV_FILE_PATTERN = /(^|\/)\.env(\.(?!example$|sample$|template$)[^/]+)?$/;
+
+/**
+ * Lockfiles are full of integrity hashes, which look random by design
+ */
+const LOCKFILE_PATTERN =
+  /(^|\/)(package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|composer\.lock|Gemfile\.lock|go\.sum)$/;
+
+/**
+ * Last line of a PEM private key block
+ */
+const PRIVATE_KEY_END_PATTERN = /-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/;
+
+const ENTROPY_TOKEN_PATTERN = /[A-Za-z0-9+/_=-]{24,}/g;
+
+/**
+ * Bits per character above which a long token is treated as a likely key
+ * Hex digests stay below it (at most 4), random base64 is well above it
+ */
+const ENTROPY_THRESHOLD = 4.3;
+
+/**
+ * Scan the added lines of a diff for possible secrets
+ * @param diff Unified diff, as printed by `git diff`
+ * @param settings Extra rules, disabled built-in rules and allowlists
+ * @returns One finding per secret and file, in diff order
+ */
+export function scanDiffForSecrets(
+  diff: string,
+  settings: SecretScanSettings = {}
+): SecretFinding[] {
+  const rules = [
+    ...BUILT_IN_SECRET_RULES.filter(rule => !settings.disabledRules?.includes(rule.id)),
+    ...(settings.rules ?? []),
+  ].map(rule => ({ ...rule, regex: new RegExp(rule.pattern, 'g') }));
+  const allowlist = (settings.allowlist ?? []).map(pattern => new RegExp(pattern));
+  const allowPaths = (settings.allowPaths ?? []).map(pattern => new RegExp(pattern));
+
+  const findings: SecretFinding[] = [];
+  const seen = new Set<string>();
+  const add = (finding: SecretFinding) => {
+    const key = `${finding.path}\0${finding.secret}`;
+    if (seen.has(key) || allowlist.some(pattern => pattern.test(finding.secret))) {
+      return;
+    }
+    seen.add(key);
+    findings.push(finding);
+  };
+
+  for (const file of parseUnifiedDiff(diff)) {
+    if (allowPaths.some(pattern => pattern.test(file.path))) {
+      continue;
+    }
+    const isEnvFile = ENV_FILE_PATTERN.test(file.path);
+    const checkEntropy = settings.entropy !== false && !LOCKFILE_PATTERN.test(file.path);
+
+    for (const hunk of file.hunks) {
+      let lineNumber = Number(hunk[0]?.match(/\+(\d+)/)?.[1] ?? 1);
+      // Index of the last line of a private key block found above; its body is not rescanned
+      let keyBlockEnd = 0;
+
+      for (const [index, line] of hunk.entries()) {
+        if (index === 0) {
+          continue;
+        }
+        if (line.startsWith(' ')) {
+          lineNumber++;
+        }
+        if (!line.startsWith('+')) {
+          continue;
+        }
+
+        const text = line.slice(1);
+        const location = { path: file.path, line: lineNumber };
+        const matched: string[] = [];
+
+        for (const rule of rules) {
+          for (const match of text.matchAll(rule.regex)) {
+            let secret = match[1] ?? match[0];
+            if (rule.id === 'private-key') {
+              const block = readPrivateKeyBlock(hunk, index, match.index ?? 0);
+              secret = block.secret;
+              keyBlockEnd = Math.max(keyBlockEnd, block.end);
+            }
+            matched.push(secret);
+            add({ rule: rule.id, description: rule.description, secret, ...location });
+          }
+        }
+
+        const envValue = isEnvFile
+          ? text.match(/^\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*["']?([^"'\s#]+)/)?.[1]
+          : undefined;
+        if (envValue) {
+          add({ rule: 'env-file', description: '.env value', secret: envValue, ...location });
+        }
+
+        if (checkEntropy && index > keyBlockEnd) {
+          for (const token of text.match(ENTROPY_TOKEN_PATTERN) ?? []) {
+            const covered = matched.some(
+              secret => secret.includes(token) || token.includes(secret)
+            );
+            if (!covered && looksRandom(token)) {
+              add({
+                rule: 'high-entropy',
+                description: 'High-entropy string',
+                secret: token,
+                ...location,
+              });
+            }
+          }
+        }
+
+        lineNumber++;
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Replace every found secret in a text with a placeholder naming the rule
+ * A secret spanning several lines, such as a private key, is also found inside a diff,
+ * where each of its lines starts with "+"
+ */
+export function redactSecrets(text: string, findings: readonly SecretFinding[]): string {
+  // Longest first, so a secret containing another one is replaced whole
+  const sorted = [...findings].sort((a, b) => b.secret.length - a.secret.length);
+  return sorted.reduce((redacted, finding) => {
+    const pattern = finding.secret
+      .split('\n')
+      .map(line => line.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('\n[+ -]?');
+    return redacted.replace(new RegExp(pattern, 'g'), () => `[REDACTED ${finding.rule}]`);
+  }, text);
+}
+
+/**
+ * Show enough of a secret to recognise it without printing it
+ */
+export function maskSecret(secret: string): string {
+  return secret.length <= 8
+    ? '*'.repeat(secret.length)
+    : `${secret.slice(0, 4)}…${secret.slice(-2)}`;
+}
+
+/**
+ * Read a private key from its BEGIN line through the END line, following added lines
+ * @param hunk Hunk lines, the header first
+ * @param start Index of the line holding the BEGIN line
+ * @param column Where the BEGIN line starts in that line, without the "+" marker
+ * @returns The key as written in the file and the index of its last line
+ */
+function readPrivateKeyBlock(
+  hunk: readonly string[],
+  start: number,
+  column: number
+): { secret: string; end: number } {
+  const lines: string[] = [];
+  let end = start;
+  for (let index = start; index < hunk.length; index++) {
+    const line = hunk[index] ?? '';
+    if (!line.startsWith('+')) {
+      break;
+    }
+    const text = index === start ? line.slice(1 + column) : line.slice(1);
+    const endMarker = text.match(PRIVATE_KEY_END_PATTERN);
+    end = index;
+    if (endMarker) {
+      lines.push(text.slice(0, (endMarker.index ?? 0) + endMarker[0].length));
+      break;
+    }
+    lines.push(text);
+  }
+  return { secret: lines.join('\n'), end };
+}
+
+function looksRandom(token: string): boolean {
+  if (!/\d/.test(token) || !/[a-zA-Z]/.test(token) || /^(sha\d+|md5)-/i.test(token)) {
+    return false;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of token) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  const entropy = [...counts.values()].reduce((total, count) => {
+    const probability = count / token.length;
+    return total - probability * Math.log2(probability);
+  }, 0);
+
+  return entropy >= ENTROPY_THRESHOLD;
+}
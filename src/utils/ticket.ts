@@ -0,0 +1,99 @@
+import { parseCommitHeader } from './conventional-commit.js';
+import { TicketPlacement } from '../types/index.js';
+
+/**
+ * Default ticket key pattern, matching Jira-style keys such as PROJ-1234
+ */
+export const DEFAULT_TICKET_PATTERN = '[A-Z][A-Z0-9]+-\\d+';
+
+/**
+ * Find the ticket key in a branch name such as feature/PROJ-1234-add-export
+ * @param pattern Regular expression source; its first capture group is the key when it has one
+ * @returns The key, or null when the branch name has none
+ */
+export function extractTicketKey(
+  branchName: string,
+  pattern: string = DEFAULT_TICKET_PATTERN
+): string | null {
+  const match = branchName.match(new RegExp(pattern));
+  return match ? (match[1] ?? match[0]) : null;
+}
+
+/**
+ * Find every ticket key in a text such as a commit message, without duplicates
+ * @param pattern Regular expression source; its first capture group is the key when it has one
+ */
+export function extractTicketKeys(
+  text: string,
+  pattern: string = DEFAULT_TICKET_PATTERN
+): string[] {
+  const keys = [...text.matchAll(new RegExp(pattern, 'g'))].map(match => match[1] ?? match[0]);
+  return [...new Set(keys)];
+}
+
+/**
+ * Check that a ticket key matches the whole pattern
+ */
+export function isTicketKey(key: string, pattern: string = DEFAULT_TICKET_PATTERN): boolean {
+  return new RegExp(`^(?:${pattern})$`).test(key);
+}
+
+/**
+ * Add a ticket key to a commit message or title unless it already mentions it
+ * A prefix goes after a conventional "type(scope): " or bullet marker so the header stays
+ * parseable; a trailer joins an existing trailer block or starts one
+ */
+export function addTicketToMessage(
+  message: string,
+  key: string,
+  placement: TicketPlacement
+): string {
+  if (message.includes(key)) {
+    return message;
+  }
+
+  if (placement === 'trailer') {
+    const trimmed = message.trimEnd();
+    const paragraphs = trimmed.split(/\n\s*\n/);
+    const last = paragraphs[paragraphs.length - 1] ?? '';
+    const hasTrailers =
+      paragraphs.length > 1 && last.split('\n').every(line => /^[\w-]+: \S/.test(line));
+    return `${trimmed}${hasTrailers ? '\n' : '\n\n'}Refs: ${key}`;
+  }
+
+  const [header = '', ...body] = message.split('\n');
+  const conventional = parseCommitHeader(header);
+  const bullet = header.match(/^([-*•]\s+)/)?.[1];
+
+  let prefixed: string;
+  if (conventional) {
+    const subjectStart = header.length - conventional.subject.length;
+    prefixed = `${header.slice(0, subjectStart)}${key} ${conventional.subject}`;
+  } else if (bullet) {
+    prefixed = `${bullet}${key}: ${header.slice(bullet.length)}`;
+  } else {
+    prefixed = `${key}: ${header}`;
+  }
+  return [prefixed, ...body].join('\n');
+}
+
+/**
+ * Put a ticket key at the start of a branch description: feature/add-export becomes
+ * feature/PROJ-1234-add-export; a lower-cased copy of the key is replaced
+ */
+export function addTicketToBranchName(branchName: string, key: string): string {
+  if (branchName.includes(key)) {
+    return branchName;
+  }
+
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const cleaned = branchName
+    .replace(new RegExp(`${escaped}-?`, 'i'), '')
+    .replace(/\/-+/, '/')
+    .replace(/-+$/, '');
+  const slash = cleaned.lastIndexOf('/');
+  const type = cleaned.slice(0, slash + 1);
+  const description = cleaned.slice(slash + 1);
+
+  return `${type}${key}${description ? `-${description}` : ''}`;
+}
@@ -0,0 +1,111 @@
+import { ModelPrice, TokenUsage, UsageRecord } from '../types/index.js';
+
+/**
+ * List prices of the built-in providers' models, in US dollars per million tokens
+ * Versioned model names match the longest listed prefix, e.g. gpt-4o-2024-08-06 uses gpt-4o
+ */
+export const DEFAULT_MODEL_PRICES: Readonly<Record<string, ModelPrice>> = {
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.0-pro': { input: 0.5, output: 1.5 },
+};
+
+/**
+ * Providers that do not bill per token: local models and the free DevSum Cloud proxy
+ */
+const FREE_PROVIDERS = new Set(['ollama', 'devsum-cloud']);
+
+/**
+ * Find the price of a model, preferring the configured pricing over the built-in table
+ * @returns The price, or undefined when the model has none
+ */
+export function getModelPrice(
+  provider: string,
+  model: string,
+  pricing: Readonly<Record<string, ModelPrice>> = {}
+): ModelPrice | undefined {
+  const configured = findPrice(model, pricing);
+  if (configured) {
+    return configured;
+  }
+  if (FREE_PROVIDERS.has(provider)) {
+    return { input: 0, output: 0 };
+  }
+  return findPrice(model, DEFAULT_MODEL_PRICES);
+}
+
+/**
+ * Cost of the tokens at a price, in US dollars
+ */
+export function calculateCost(usage: TokenUsage, price: ModelPrice): number {
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Add up usage records by a key such as the command or the model, largest cost first
+ * A group's cost is left out when any of its records has no price
+ */
+export function groupUsage<T extends UsageRecord>(
+  records: readonly T[],
+  getKey: (record: T) => string
+): { key: string; usage: UsageRecord }[] {
+  const groups = new Map<string, UsageRecord>();
+  for (const record of records) {
+    const key = getKey(record);
+    const total = groups.get(key);
+    groups.set(key, total ? addUsage(total, record) : { ...record });
+  }
+
+  return [...groups.entries()]
+    .map(([key, usage]) => ({ key, usage }))
+    .sort((a, b) => (b.usage.cost ?? 0) - (a.usage.cost ?? 0));
+}
+
+/**
+ * Add up the tokens and cost of two records; the provider and model of the first are kept
+ */
+export function addUsage(total: UsageRecord, record: UsageRecord): UsageRecord {
+  return {
+    provider: total.provider,
+    model: total.model,
+    requests: total.requests + record.requests,
+    inputTokens: total.inputTokens + record.inputTokens,
+    outputTokens: total.outputTokens + record.outputTokens,
+    cost:
+      total.cost === undefined || record.cost === undefined ? undefined : total.cost + record.cost,
+    estimated: total.estimated || record.estimated,
+  };
+}
+
+/**
+ * Format a cost in US dollars, with more decimals for amounts under a cent
+ */
+export function formatCost(cost: number): string {
+  return `$${cost > 0 && cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function findPrice(
+  model: string,
+  prices: Readonly<Record<string, ModelPrice>>
+): ModelPrice | undefined {
+  const exact = prices[model];
+  if (exact) {
+    return exact;
+  }
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
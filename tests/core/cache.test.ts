@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CacheManager } from '../../src/core/cache.js';
+import { CacheKey } from '../../src/types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createKey(prompt: string): CacheKey {
+  return { provider: 'openai', model: 'gpt-4o', operation: 'commit', prompt };
+}
+
+describe('CacheManager', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'devsum-cache-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  /**
+   * Move the modification time of a cached response back, as if it were written days ago
+   */
+  function age(key: CacheKey, days: number): void {
+    const file = path.join(directory, `${CacheManager.hashKey(key)}.json`);
+    const time = new Date(Date.now() - days * DAY_MS);
+    fs.utimesSync(file, time, time);
+  }
+
+  it('returns the cached value instead of generating it again', async () => {
+    const cache = new CacheManager({}, directory);
+    const generate = jest.fn().mockResolvedValue('feat: add export');
+
+    expect(await cache.getOrCreate(createKey('diff'), generate)).toBe('feat: add export');
+    expect(await cache.getOrCreate(createKey('diff'), generate)).toBe('feat: add export');
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys responses by everything that changes the answer', () => {
+    expect(CacheManager.hashKey(createKey('a'))).not.toBe(CacheManager.hashKey(createKey('b')));
+    expect(CacheManager.hashKey({ ...createKey('a'), options: { length: 'short' } })).not.toBe(
+      CacheManager.hashKey(createKey('a'))
+    );
+  });
+
+  it('generates again once a response is older than the TTL', async () => {
+    const cache = new CacheManager({ ttlDays: 7 }, directory);
+    await cache.getOrCreate(createKey('diff'), async () => 'old');
+    age(createKey('diff'), 8);
+
+    expect(await cache.getOrCreate(createKey('diff'), async () => 'new')).toBe('new');
+  });
+
+  it('evicts the oldest responses when the cache outgrows its size limit', async () => {
+    // Room for about three responses of this size
+    const cache = new CacheManager({ maxSizeMb: 1500 / (1024 * 1024) }, directory);
+    const value = 'x'.repeat(400);
+    for (const [index, prompt] of ['first', 'second', 'third'].entries()) {
+      await cache.getOrCreate(createKey(prompt), async () => value);
+      age(createKey(prompt), 3 - index);
+    }
+
+    await cache.getOrCreate(createKey('fourth'), async () => value);
+
+    const stats = await cache.getStats();
+    expect(stats.entries).toBe(3);
+    expect(stats.sizeBytes).toBeLessThanOrEqual(1500);
+    const generate = jest.fn().mockResolvedValue(value);
+    await cache.getOrCreate(createKey('first'), generate);
+    expect(generate).toHaveBeenCalled();
+  });
+
+  it('does not store anything when disabled', async () => {
+    const cache = new CacheManager({ enabled: false }, directory);
+    await cache.getOrCreate(createKey('diff'), async () => 'value');
+
+    expect((await cache.getStats()).entries).toBe(0);
+  });
+});
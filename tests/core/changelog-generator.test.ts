@@ -0,0 +1,109 @@
+import { ChangelogGenerator } from '../../src/core/changelog-generator.js';
+import { GitCommit } from '../../src/types/index.js';
+
+const generator = new ChangelogGenerator();
+
+function createCommit(hashChar: string, message: string, body?: string): GitCommit {
+  return {
+    hash: hashChar.repeat(40),
+    date: '2024-03-06',
+    message,
+    body,
+    author: 'Jane',
+    files: [],
+  };
+}
+
+describe('ChangelogGenerator.groupCommits', () => {
+  it('groups conventional commits oldest first and skips the rest', () => {
+    const { groups, skipped } = generator.groupCommits([
+      createCommit('e', 'chore: bump deps'),
+      createCommit('d', 'Update README'),
+      createCommit('c', 'feat(api)!: drop v1 endpoints'),
+      createCommit('b', 'fix: handle empty input'),
+      createCommit('a', 'feat(cli): add --json', 'BREAKING CHANGE: output is JSON by default'),
+    ]);
+
+    expect(skipped).toBe(2);
+    expect(groups).toEqual([
+      {
+        type: 'breaking',
+        entries: [
+          { scope: 'api', description: 'drop v1 endpoints', hash: 'c'.repeat(40) },
+          { scope: 'cli', description: 'output is JSON by default', hash: 'a'.repeat(40) },
+        ],
+      },
+      {
+        type: 'feat',
+        entries: [
+          { scope: 'api', description: 'drop v1 endpoints', hash: 'c'.repeat(40) },
+          { scope: 'cli', description: 'add --json', hash: 'a'.repeat(40) },
+        ],
+      },
+      {
+        type: 'fix',
+        entries: [{ scope: undefined, description: 'handle empty input', hash: 'b'.repeat(40) }],
+      },
+    ]);
+  });
+});
+
+describe('ChangelogGenerator sections', () => {
+  const release = {
+    version: '1.3.0',
+    date: '2024-03-06',
+    groups: [
+      { type: 'feat' as const, entries: [{ description: 'add --json', hash: 'a'.repeat(40) }] },
+    ],
+    previousTag: 'v1.2.0',
+    currentRef: 'HEAD',
+    repositoryUrl: 'https://github.com/acme/tool',
+  };
+
+  it('renders standard-version sections with compare and commit links', () => {
+    expect(generator.renderSection(release, 'standard-version')).toBe(
+      [
+        '## [1.3.0](https://github.com/acme/tool/compare/v1.2.0...v1.3.0) (2024-03-06)',
+        '',
+        '### Features',
+        '',
+        `* add --json ([aaaaaaa](https://github.com/acme/tool/commit/${'a'.repeat(40)}))`,
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('inserts a section below the Unreleased section and keeps older ones', () => {
+    const existing = [
+      '# Changelog',
+      '',
+      '## [Unreleased]',
+      '',
+      '### Added',
+      '',
+      '- pending work',
+      '',
+      '## [1.2.0] - 2024-01-01',
+      '',
+      '- old entry',
+    ].join('\n');
+    const style = generator.detectStyle(existing);
+    const updated = generator.insertSection(
+      existing,
+      generator.renderSection(release, style),
+      release.version,
+      style
+    );
+
+    expect(style).toBe('keep-a-changelog');
+    expect(updated.indexOf('## [Unreleased]')).toBeLessThan(updated.indexOf('## [1.3.0]'));
+    expect(updated.indexOf('## [1.3.0] - 2024-03-06')).toBeLessThan(updated.indexOf('## [1.2.0]'));
+    expect(updated.endsWith('## [1.2.0] - 2024-01-01\n\n- old entry')).toBe(true);
+  });
+
+  it('refuses to add a version twice', () => {
+    expect(() =>
+      generator.insertSection('## 1.3.0 (2024-03-01)\n', 'section', 'v1.3.0', 'standard-version')
+    ).toThrow('already has a section for v1.3.0');
+  });
+});
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { CommitSplitter } from '../../src/core/commit-splitter.js';
+import { GitService } from '../../src/core/git.js';
+import { createTestRepo, TestRepo } from '../git-repo.js';
+
+const lines = (count: number, label = 'line'): string =>
+  Array.from({ length: count }, (_, index) => `${label} ${index + 1}\n`).join('');
+
+describe('CommitSplitter', () => {
+  let repo: TestRepo;
+  let splitter: CommitSplitter;
+
+  beforeEach(() => {
+    repo = createTestRepo();
+    repo.write('app.ts', lines(30));
+    repo.commit('chore: initial');
+
+    // Two hunks far apart in app.ts, plus a new file
+    const changed = lines(30)
+      .replace('line 2\n', 'changed 2\n')
+      .replace('line 28\n', 'changed 28\n');
+    repo.write('app.ts', changed);
+    repo.write('notes.md', 'notes\n');
+    repo.git(['add', '--all']);
+    splitter = new CommitSplitter(new GitService(repo.dir));
+  });
+
+  afterEach(() => repo.remove());
+
+  const subjects = (): string[] => repo.git(['log', '--format=%s']).trim().split('\n');
+
+  it('breaks staged files into hunks and keeps new files whole', async () => {
+    const changes = await splitter.getStagedChanges();
+
+    expect(changes.map(change => [change.id, change.insertions, change.deletions])).toEqual([
+      ['app.ts#1', 1, 1],
+      ['app.ts#2', 1, 1],
+      ['notes.md', 1, 0],
+    ]);
+  });
+
+  it('lets a file id stand for all its hunks and reports what the plan leaves out', async () => {
+    const changes = await splitter.getStagedChanges();
+    const plan = splitter.normalizePlan(
+      [
+        { message: 'fix: first', changes: ['app.ts', 'unknown.ts'] },
+        { message: 'fix: again', changes: ['app.ts#2'] },
+      ],
+      changes
+    );
+
+    expect(plan).toEqual({
+      groups: [{ message: 'fix: first', changes: ['app.ts#1', 'app.ts#2'] }],
+      unassigned: ['notes.md'],
+    });
+  });
+
+  it('commits each group in order and leaves unassigned changes staged', async () => {
+    const changes = await splitter.getStagedChanges();
+    const count = await splitter.execute(
+      {
+        groups: [
+          { message: 'fix: bottom', changes: ['app.ts#2'] },
+          { message: 'fix: top', changes: ['app.ts#1'] },
+        ],
+        unassigned: ['notes.md'],
+      },
+      changes
+    );
+
+    expect(count).toBe(2);
+    expect(subjects()).toEqual(['fix: top', 'fix: bottom', 'chore: initial']);
+    expect(repo.git(['show', '--format=', '--unified=0', 'HEAD~1'])).toContain('+changed 28');
+    expect(repo.git(['diff', '--cached', '--name-only']).trim()).toBe('notes.md');
+  });
+
+  it('restores HEAD and the index when a later group fails', async () => {
+    const changes = await splitter.getStagedChanges();
+    const staged = repo.git(['diff', '--cached']);
+    // Deleting a file that is not there makes the second group fail after the first commit
+    const missing = {
+      id: 'missing.txt',
+      path: 'missing.txt',
+      patch:
+        'diff --git a/missing.txt b/missing.txt\ndeleted file mode 100644\n--- a/missing.txt\n+++ /dev/null\n@@ -1 +0,0 @@\n-gone',
+      insertions: 0,
+      deletions: 1,
+    };
+
+    await expect(
+      splitter.execute(
+        {
+          groups: [
+            { message: 'fix: top', changes: ['app.ts#1'] },
+            { message: 'chore: remove missing file', changes: ['missing.txt'] },
+          ],
+          unassigned: ['app.ts#2', 'notes.md'],
+        },
+        [...changes, missing]
+      )
+    ).rejects.toThrow();
+
+    expect(subjects()).toEqual(['chore: initial']);
+    expect(repo.git(['diff', '--cached'])).toBe(staged);
+  });
+});
@@ -0,0 +1,17 @@
+import { CommitValidator } from '../../src/core/commit-validator.js';
+
+describe('CommitValidator.validateCandidateCount', () => {
+  const validator = new CommitValidator();
+
+  it('accepts a missing value and whole numbers up to the maximum', () => {
+    expect(validator.validateCandidateCount(undefined)).toBeNull();
+    expect(validator.validateCandidateCount('1')).toBeNull();
+    expect(validator.validateCandidateCount(String(CommitValidator.MAX_CANDIDATES))).toBeNull();
+  });
+
+  it.each(['0', '6', '2.5', 'three'])('rejects %s', candidates => {
+    expect(validator.validateCandidateCount(candidates)).toContain(
+      `Invalid --candidates value: "${candidates}"`
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { GitService } from '../../src/core/git.js';
+import { createTestRepo, TestRepo } from '../git-repo.js';
+
+describe('GitService file statistics', () => {
+  let repo: TestRepo;
+  let git: GitService;
+
+  beforeAll(() => {
+    repo = createTestRepo();
+    repo.write('src/app.ts', 'one\ntwo\nthree\n');
+    repo.write('docs/old.md', 'a long enough document to be detected as a rename\n');
+    repo.write('obsolete.txt', 'gone soon\n');
+    repo.commit('initial');
+
+    repo.write('src/app.ts', 'one\n2\nthree\nfour\n');
+    repo.git(['mv', 'docs/old.md', 'docs/new.md']);
+    repo.git(['rm', '--quiet', 'obsolete.txt']);
+    repo.write('logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]));
+    repo.commit('rework');
+    git = new GitService(repo.dir);
+  });
+
+  afterAll(() => repo.remove());
+
+  it('reads the status and line counts of every file from one log pass', async () => {
+    const [latest, initial] = await git.getCommits();
+
+    expect(initial?.fileStats).toHaveLength(3);
+    expect(initial?.fileStats?.every(stat => stat.status === 'added')).toBe(true);
+    expect(latest?.fileStats).toEqual(
+      expect.arrayContaining([
+        { path: 'src/app.ts', insertions: 2, deletions: 1, status: 'modified' },
+        {
+          path: 'docs/new.md',
+          previousPath: 'docs/old.md',
+          insertions: 0,
+          deletions: 0,
+          status: 'renamed',
+        },
+        { path: 'obsolete.txt', insertions: 0, deletions: 1, status: 'deleted' },
+        { path: 'logo.png', insertions: 0, deletions: 0, status: 'added', binary: true },
+      ])
+    );
+    expect(latest).toMatchObject({ insertions: 2, deletions: 2 });
+    expect(latest?.files).toHaveLength(4);
+  });
+});
@@ -0,0 +1,66 @@
+import { GitService } from '../../src/core/git.js';
+import { createTestRepo, TestRepo } from '../git-repo.js';
+
+const COMMIT_COUNT = 450;
+
+/**
+ * Build a linear history in one git fast-import run instead of one process per commit
+ */
+function importHistory(repo: TestRepo, count: number): void {
+  const commands = Array.from({ length: count }, (_, index) => {
+    const message = `commit ${index + 1}`;
+    const file = `line ${index + 1}\n`;
+    return [
+      'commit refs/heads/main',
+      `committer Jane Doe <jane@example.com> ${1700000000 + index * 60} +0000`,
+      `data ${message.length}`,
+      message,
+      `M 644 inline file-${index % 10}.txt`,
+      `data ${file.length}`,
+      file,
+    ].join('\n');
+  });
+  repo.git(['fast-import', '--quiet'], `${commands.join('\n')}\n`);
+  repo.git(['reset', '--quiet', '--hard', 'main']);
+}
+
+describe('GitService commit history', () => {
+  let repo: TestRepo;
+  let git: GitService;
+
+  beforeAll(() => {
+    repo = createTestRepo();
+    importHistory(repo, COMMIT_COUNT);
+    git = new GitService(repo.dir);
+  });
+
+  afterAll(() => repo.remove());
+
+  it('reads the whole history without a fixed commit cap', async () => {
+    const history = await git.getCommitHistory();
+
+    expect(history.commits).toHaveLength(COMMIT_COUNT);
+    expect(history.truncated).toBe(false);
+    expect(history.commits[0]?.message).toBe(`commit ${COMMIT_COUNT}`);
+  });
+
+  it('stops at --max-commits and reports the truncation', async () => {
+    const history = await git.getCommitHistory(undefined, undefined, undefined, {
+      maxCommits: 300,
+    });
+
+    expect(history.commits).toHaveLength(300);
+    expect(history.truncated).toBe(true);
+    expect(history.commits[299]?.message).toBe(`commit ${COMMIT_COUNT - 299}`);
+  });
+
+  it('streams the history in pages', async () => {
+    const pages: number[] = [];
+    for await (const page of git.streamCommits()) {
+      pages.push(page.length);
+    }
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.reduce((total, size) => total + size, 0)).toBe(COMMIT_COUNT);
+  });
+});
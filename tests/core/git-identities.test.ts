@@ -0,0 +1,53 @@
+import { GitService } from '../../src/core/git.js';
+import { getCommitAuthors } from '../../src/utils/commit-authors.js';
+import { createTestRepo, TestRepo } from '../git-repo.js';
+
+describe('GitService author identities', () => {
+  let repo: TestRepo;
+  let git: GitService;
+
+  beforeAll(() => {
+    repo = createTestRepo();
+    repo.write(
+      '.mailmap',
+      [
+        'Ann Lee <ann@example.com> <ann@old-laptop.local>',
+        'Sam Roe <sam@example.com> <sroe@contractor.test>',
+      ].join('\n')
+    );
+    repo.commit('chore: add mailmap');
+    repo.write('a.txt', 'a\n');
+    repo.commit('feat: from the old laptop', 'ann <ann@old-laptop.local>');
+    repo.write('b.txt', 'b\n');
+    repo.commit(
+      [
+        'feat: pair on the parser',
+        '',
+        'Co-authored-by: sroe <sroe@contractor.test>',
+        'Co-authored-by: Jane Doe <jane@example.com>',
+      ].join('\n')
+    );
+    git = new GitService(repo.dir);
+  });
+
+  afterAll(() => repo.remove());
+
+  it('maps authors and co-authors through .mailmap', async () => {
+    const [paired, laptop] = await git.getCommits();
+
+    expect(laptop?.author).toBe('Ann Lee <ann@example.com>');
+    // The author is not repeated as a co-author
+    expect(paired && getCommitAuthors(paired)).toEqual([
+      'Jane Doe <jane@example.com>',
+      'Sam Roe <sam@example.com>',
+    ]);
+  });
+
+  it('matches the author filter against co-authors and old emails', async () => {
+    const bySam = await git.getCommits(undefined, undefined, 'Sam Roe');
+    const byOldEmail = await git.getCommits(undefined, undefined, 'ann@old-laptop.local');
+
+    expect(bySam.map(commit => commit.message)).toEqual(['feat: pair on the parser']);
+    expect(byOldEmail.map(commit => commit.message)).toEqual(['feat: from the old laptop']);
+  });
+});
@@ -0,0 +1,66 @@
+import { GitService } from '../../src/core/git.js';
+import { createTestRepo, TestRepo } from '../git-repo.js';
+
+describe('GitService log parsing', () => {
+  let repo: TestRepo;
+  let git: GitService;
+
+  beforeAll(() => {
+    repo = createTestRepo();
+    repo.write('a.txt', 'a\n');
+    repo.commit('feat: parse a | b | c pipes');
+
+    repo.git(['checkout', '--quiet', '-b', 'topic']);
+    repo.write('b.txt', 'b\n');
+    repo.commit(
+      [
+        'fix: keep multi-line bodies',
+        '',
+        'First paragraph | with a pipe.',
+        '',
+        'Second paragraph.',
+        '',
+        'Signed-off-by: Jane Doe <jane@example.com>',
+        'Reviewed-by: Sam Roe',
+        '  <sam@example.com>',
+      ].join('\n'),
+      'Ann Lee <ann@example.com>'
+    );
+
+    repo.git(['checkout', '--quiet', 'main']);
+    repo.write('c.txt', 'c\n');
+    repo.commit('chore: diverge');
+    repo.git(['merge', '--quiet', '--no-ff', '--no-edit', 'topic']);
+    git = new GitService(repo.dir);
+  });
+
+  afterAll(() => repo.remove());
+
+  it('keeps subjects with pipes intact', async () => {
+    const commits = await git.getCommits();
+
+    expect(commits.map(commit => commit.message)).toContain('feat: parse a | b | c pipes');
+  });
+
+  it('reads multi-line bodies, trailers, authors and committers', async () => {
+    const commits = await git.getCommits();
+    const fix = commits.find(commit => commit.message === 'fix: keep multi-line bodies');
+
+    expect(fix?.body).toMatch(/^First paragraph \| with a pipe\.\n\nSecond paragraph\./);
+    expect(fix?.trailers).toEqual([
+      { key: 'Signed-off-by', value: 'Jane Doe <jane@example.com>' },
+      { key: 'Reviewed-by', value: 'Sam Roe <sam@example.com>' },
+    ]);
+    expect(fix?.author).toBe('Ann Lee <ann@example.com>');
+    expect(fix?.committer).toBe('Jane Doe <jane@example.com>');
+    expect(fix?.files).toEqual(['b.txt']);
+  });
+
+  it('marks merge commits and lists their parents', async () => {
+    const [merge, ...rest] = await git.getCommits();
+
+    expect(merge?.isMerge).toBe(true);
+    expect(merge?.parents).toHaveLength(2);
+    expect(rest.every(commit => commit.isMerge === false)).toBe(true);
+  });
+});
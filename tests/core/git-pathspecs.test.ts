@@ -0,0 +1,49 @@
+import { GitService } from '../../src/core/git.js';
+import { createTestRepo, TestRepo } from '../git-repo.js';
+
+describe('GitService pathspec filters', () => {
+  let repo: TestRepo;
+  let git: GitService;
+
+  beforeAll(() => {
+    repo = createTestRepo();
+    repo.write('src/core/app.ts', 'app\n');
+    repo.write('src/core/README.md', 'notes\n');
+    repo.commit('feat: app and notes');
+    repo.write('docs/guide.md', 'guide\n');
+    repo.commit('docs: guide');
+    repo.write('src/cli/main.ts', 'main\n');
+    repo.commit('feat: cli');
+    git = new GitService(repo.dir);
+  });
+
+  afterAll(() => repo.remove());
+
+  it('keeps only commits and files under the included paths', async () => {
+    const commits = await git.getCommits(undefined, undefined, undefined, {
+      paths: { include: ['src/**/*.ts'] },
+    });
+
+    expect(commits.map(commit => [commit.message, commit.files])).toEqual([
+      ['feat: cli', ['src/cli/main.ts']],
+      ['feat: app and notes', ['src/core/app.ts']],
+    ]);
+  });
+
+  it('drops excluded files and commits that touch nothing else', async () => {
+    const commits = await git.getCommits(undefined, undefined, undefined, {
+      paths: { exclude: ['**/*.md'] },
+    });
+
+    expect(commits.map(commit => commit.message)).toEqual(['feat: cli', 'feat: app and notes']);
+    expect(commits[1]?.files).toEqual(['src/core/app.ts']);
+  });
+
+  it('passes pathspecs with their own magic through unchanged', async () => {
+    const commits = await git.getCommits(undefined, undefined, undefined, {
+      paths: { include: [':(top)docs'] },
+    });
+
+    expect(commits.map(commit => commit.message)).toEqual(['docs: guide']);
+  });
+});
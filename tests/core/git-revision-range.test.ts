@@ -0,0 +1,52 @@
+import { GitService } from '../../src/core/git.js';
+import { createTestRepo, TestRepo } from '../git-repo.js';
+
+describe('GitService revision ranges', () => {
+  let repo: TestRepo;
+  let git: GitService;
+
+  beforeAll(() => {
+    repo = createTestRepo();
+    repo.commit('chore: initial');
+    repo.git(['tag', 'v1.0.0']);
+    repo.commit('feat: first feature');
+    repo.commit('fix: first fix');
+    repo.git(['tag', 'v1.1.0']);
+    repo.commit('feat: unreleased');
+    repo.git(['checkout', '--quiet', '-b', 'topic']);
+    repo.commit('feat: topic work');
+    repo.git(['checkout', '--quiet', 'main']);
+    git = new GitService(repo.dir);
+  });
+
+  afterAll(() => repo.remove());
+
+  async function messagesIn(range: string | undefined): Promise<string[]> {
+    const commits = await git.getCommits(undefined, undefined, undefined, { range });
+    return commits.map(commit => commit.message);
+  }
+
+  it('reports the commits between two tags', async () => {
+    const range = await git.resolveRevisionRange({ fromTag: 'v1.0.0', to: 'v1.1.0' });
+
+    expect(range).toBe('v1.0.0..v1.1.0');
+    expect(await messagesIn(range)).toEqual(['fix: first fix', 'feat: first feature']);
+  });
+
+  it('reports from a tag to HEAD by default', async () => {
+    expect(await messagesIn(await git.resolveRevisionRange({ fromTag: 'v1.1.0' }))).toEqual([
+      'feat: unreleased',
+    ]);
+  });
+
+  it('compares a branch with the default branch', async () => {
+    const range = await git.resolveRevisionRange({ branch: 'topic' });
+
+    expect(range).toBe('main..topic');
+    expect(await messagesIn(range)).toEqual(['feat: topic work']);
+  });
+
+  it('explains unknown revisions', async () => {
+    await expect(messagesIn('v9.9.9..HEAD')).rejects.toThrow(/Unknown revision/);
+  });
+});
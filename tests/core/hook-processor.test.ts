@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { HookProcessor } from '../../src/core/hook-processor.js';
+import { createTestRepo, TestRepo } from '../git-repo.js';
+
+const generateStagedCommitMessage = jest.fn();
+
+// The hook only prefills what the commit workflow generates; no provider is called here
+jest.mock('../../src/core/commit-processor.js', () => ({
+  CommitProcessor: jest.fn(() => ({ generateStagedCommitMessage })),
+}));
+jest.mock('../../src/core/token-usage.js', () => ({
+  tokenUsage: { finishRun: jest.fn() },
+}));
+
+describe('HookProcessor', () => {
+  const cwd = process.cwd();
+  let repo: TestRepo;
+  let hooksDir: string;
+  let messageFile: string;
+
+  beforeEach(() => {
+    repo = createTestRepo();
+    process.chdir(repo.dir);
+    hooksDir = path.join(repo.dir, '.git', 'hooks');
+    messageFile = path.join(repo.dir, '.git', 'COMMIT_EDITMSG');
+    fs.writeFileSync(messageFile, '\n# Please enter the commit message\n');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    repo.remove();
+  });
+
+  it('chains an existing hook on install and restores it on uninstall', async () => {
+    const existing = '#!/bin/sh\necho existing\n';
+    fs.writeFileSync(path.join(hooksDir, 'prepare-commit-msg'), existing, { mode: 0o755 });
+    const processor = new HookProcessor();
+
+    await processor.install();
+
+    const installed = fs.readFileSync(path.join(hooksDir, 'prepare-commit-msg'), 'utf-8');
+    expect(installed).toContain('devsum hook run "$@"');
+    expect(installed).toContain('prepare-commit-msg.devsum-chained');
+    expect(fs.readFileSync(path.join(hooksDir, 'prepare-commit-msg.devsum-chained'), 'utf-8')).toBe(
+      existing
+    );
+    expect(repo.git(['config', 'devsum.hookEnabled']).trim()).toBe('true');
+
+    await processor.uninstall();
+
+    expect(fs.readFileSync(path.join(hooksDir, 'prepare-commit-msg'), 'utf-8')).toBe(existing);
+    expect(fs.existsSync(path.join(hooksDir, 'prepare-commit-msg.devsum-chained'))).toBe(false);
+  });
+
+  it('prefills the message above git’s comments', async () => {
+    const processor = new HookProcessor();
+    await processor.install();
+    generateStagedCommitMessage.mockResolvedValue('feat: add export\n');
+
+    await processor.run(messageFile, undefined, {});
+
+    expect(fs.readFileSync(messageFile, 'utf-8')).toBe(
+      'feat: add export\n\n# Please enter the commit message\n'
+    );
+    expect(generateStagedCommitMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ length: 'medium' })
+    );
+  });
+
+  it('leaves messages from -m, merges and disabled repositories alone', async () => {
+    const processor = new HookProcessor();
+    await processor.install();
+
+    await processor.run(messageFile, 'message', {});
+    await processor.setEnabled(false);
+    await processor.run(messageFile, undefined, {});
+
+    expect(generateStagedCommitMessage).not.toHaveBeenCalled();
+    expect(fs.readFileSync(messageFile, 'utf-8')).toBe('\n# Please enter the commit message\n');
+  });
+
+  it('gives up without touching the message when the AI is too slow', async () => {
+    const processor = new HookProcessor();
+    await processor.install();
+    generateStagedCommitMessage.mockReturnValue(new Promise(() => undefined));
+
+    await processor.run(messageFile, undefined, { timeout: '0.05' });
+
+    expect(fs.readFileSync(messageFile, 'utf-8')).toBe('\n# Please enter the commit message\n');
+    expect(process.stderr.write).toHaveBeenCalledWith(expect.stringContaining('timed out'));
+  });
+});
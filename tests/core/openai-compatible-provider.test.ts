@@ -0,0 +1,89 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIProvider } from '../../src/core/providers/openai-provider.js';
+import { AIProvider } from '../../src/types/index.js';
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+describe('OpenAIProvider for OpenAI-compatible endpoints', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ url: request.url ?? '', headers: request.headers, body: JSON.parse(body) });
+        response.setHeader('content-type', 'application/json');
+        response.end(
+          JSON.stringify({
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 0,
+            model: 'local-model',
+            choices: [{ index: 0, message: { role: 'assistant', content: '{"ok":true}' } }],
+            usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+          })
+        );
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  function createProvider(settings: Partial<AIProvider>): OpenAIProvider {
+    return new OpenAIProvider(
+      { name: 'local', provider: 'openai-compatible', apiKey: 'secret', baseUrl, ...settings },
+      true
+    );
+  }
+
+  it('sends the key as a bearer token with the extra headers, without response_format', async () => {
+    const usage = jest.fn();
+    const text = await createProvider({
+      model: 'local-model',
+      headers: { 'X-Team': 'platform' },
+    }).completeJSON('Summarize', { onUsage: usage });
+
+    expect(text).toBe('{"ok":true}');
+    expect(received[0]?.url).toBe('/v1/chat/completions');
+    expect(received[0]?.headers).toMatchObject({
+      authorization: 'Bearer secret',
+      'x-team': 'platform',
+    });
+    expect(received[0]?.body).toMatchObject({ model: 'local-model' });
+    expect(received[0]?.body).not.toHaveProperty('response_format');
+    expect(usage).toHaveBeenCalledWith({ inputTokens: 12, outputTokens: 3 });
+  });
+
+  it('sends an api-key header instead of Authorization for Azure-style endpoints', async () => {
+    await createProvider({ authScheme: 'api-key' }).completeText('Hello');
+
+    expect(received[0]?.headers['api-key']).toBe('secret');
+    expect(received[0]?.headers).not.toHaveProperty('authorization');
+    expect(received[0]?.body).toMatchObject({ model: 'gpt-4o-mini' });
+  });
+
+  it('sends no credentials when the endpoint needs none', async () => {
+    await createProvider({ authScheme: 'none' }).completeText('Hello');
+
+    expect(received[0]?.headers).not.toHaveProperty('authorization');
+    expect(received[0]?.headers).not.toHaveProperty('api-key');
+  });
+
+  it('requires a base URL', () => {
+    expect(() => createProvider({ baseUrl: undefined })).toThrow('need a baseUrl');
+  });
+});
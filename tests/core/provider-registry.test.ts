@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProviderRegistry, providerRegistry } from '../../src/core/provider-registry.js';
+import { AIProviderPlugin } from '../../src/types/index.js';
+
+function createPlugin(id: string): AIProviderPlugin {
+  return { id, defaultModel: `${id}-small`, create: jest.fn() };
+}
+
+describe('ProviderRegistry', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'devsum-providers-'));
+  });
+
+  afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  /**
+   * Write a provider package module and return its absolute path
+   */
+  function writePackage(name: string, source: string): string {
+    const file = path.join(directory, `${name}.js`);
+    fs.writeFileSync(file, source);
+    return file;
+  }
+
+  it('registers the built-in providers', () => {
+    expect(providerRegistry.getIds()).toEqual([
+      'gemini',
+      'claude',
+      'openai',
+      'openai-compatible',
+      'ollama',
+    ]);
+  });
+
+  it('creates clients through the provider with the configured id', () => {
+    const plugin = createPlugin('mistral');
+    const registry = new ProviderRegistry([plugin]);
+    const provider = { name: 'work', provider: 'mistral', apiKey: 'secret' };
+
+    registry.create(provider);
+
+    expect(plugin.create).toHaveBeenCalledWith(provider);
+    expect(() => registry.resolve('unknown')).toThrow('Unsupported AI provider: unknown');
+    expect(() => registry.register(createPlugin('mistral'))).toThrow('already registered');
+  });
+
+  it('loads every provider a package exports, once', async () => {
+    const file = writePackage(
+      'providers',
+      `module.exports = ['mistral', 'groq'].map(id => ({
+        id,
+        defaultModel: id + '-small',
+        create: () => ({}),
+      }));`
+    );
+    const registry = new ProviderRegistry();
+
+    await registry.loadPackages([file]);
+    await registry.loadPackages([file]);
+
+    expect(registry.getIds()).toEqual(['mistral', 'groq']);
+  });
+
+  it('rejects packages that cannot be loaded or export no provider', async () => {
+    const invalid = writePackage('invalid', `module.exports = { id: 'mistral' };`);
+    const registry = new ProviderRegistry();
+
+    await expect(registry.loadPackages([invalid])).rejects.toThrow(
+      `Provider package "${invalid}" must export a provider`
+    );
+    await expect(registry.loadPackages([path.join(directory, 'missing.js')])).rejects.toThrow(
+      'Could not load provider package'
+    );
+    expect(registry.getIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * A throwaway git repository for tests that run real git commands
+ */
+export interface TestRepo {
+  readonly dir: string;
+  git(args: readonly string[], input?: string): string;
+  write(file: string, content: string | Buffer): void;
+  commit(message: string, author?: string): string;
+  remove(): void;
+}
+
+/**
+ * Create an empty repository in a temporary directory, isolated from the user's git config
+ */
+export function createTestRepo(): TestRepo {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'devsum-test-'));
+  const env = {
+    ...process.env,
+    GIT_CONFIG_GLOBAL: '/dev/null',
+    GIT_CONFIG_NOSYSTEM: '1',
+    GIT_AUTHOR_NAME: 'Jane Doe',
+    GIT_AUTHOR_EMAIL: 'jane@example.com',
+    GIT_COMMITTER_NAME: 'Jane Doe',
+    GIT_COMMITTER_EMAIL: 'jane@example.com',
+  };
+
+  const git = (args: readonly string[], input?: string): string =>
+    execFileSync('git', args, { cwd: dir, env, input, encoding: 'utf-8' });
+
+  git(['init', '--quiet', '--initial-branch=main']);
+  git(['config', 'user.name', 'Jane Doe']);
+  git(['config', 'user.email', 'jane@example.com']);
+  git(['config', 'commit.gpgsign', 'false']);
+
+  return {
+    dir,
+    git,
+    write(file, content) {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), content);
+    },
+    commit(message, author) {
+      git(['add', '--all']);
+      git([
+        'commit',
+        '--quiet',
+        '--allow-empty',
+        '--message',
+        message,
+        ...(author ? ['--author', author] : []),
+      ]);
+      return git(['rev-parse', 'HEAD']).trim();
+    },
+    remove() {
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
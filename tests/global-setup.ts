@@ -0,0 +1,12 @@
+/**
+ * Jest global setup, run once in the process that starts the test workers
+ */
+export default function globalSetup(): void {
+  // Tests that run git must not pick up settings the calling shell passes through the
+  // environment, such as a core.hooksPath; test files only see a copy of process.env
+  for (const name of Object.keys(process.env)) {
+    if (/^GIT_CONFIG_(COUNT|KEY_\d+|VALUE_\d+|PARAMETERS)$/.test(name)) {
+      delete process.env[name];
+    }
+  }
+}
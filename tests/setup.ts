@@ -41,14 +41,13 @@ global.testUtils = {
 
 // Type definitions for global test utilities
 declare global {
-  namespace NodeJS {
-    interface Global {
-      testUtils: {
-        mockFileSystem: () => void;
-        mockGitService: () => void;
-        mockAIService: () => void;
-        mockConfig: () => void;
-      };
-    }
-  }
+  // eslint-disable-next-line no-var
+  var testUtils: {
+    mockFileSystem: () => void;
+    mockGitService: () => void;
+    mockAIService: () => void;
+    mockConfig: () => void;
+  };
 }
+
+export {};
@@ -0,0 +1,93 @@
+import {
+  chunkCommits,
+  estimateTokens,
+  getChunkTokenBudget,
+  getContextWindow,
+  packByTokens,
+} from '../../src/utils/commit-chunks.js';
+import { GitCommit } from '../../src/types/index.js';
+
+let commitCount = 0;
+
+function createCommit(fields: Partial<GitCommit> = {}): GitCommit {
+  commitCount++;
+  return {
+    hash: commitCount.toString(16).padStart(40, '0'),
+    date: '2024-03-06T10:00:00+00:00',
+    message: `chore: commit ${commitCount}`,
+    author: 'Jane Doe',
+    files: ['src/index.ts'],
+    ...fields,
+  };
+}
+
+const formatCommit = (commit: { message: string }): string => commit.message;
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('getContextWindow and getChunkTokenBudget', () => {
+  it('uses the first matching model prefix or the provider fallback', () => {
+    expect(getContextWindow('openai', 'gpt-4o-mini')).toBe(128000);
+    expect(getContextWindow('openai', 'gpt-4-0613')).toBe(8192);
+    expect(getContextWindow('openai')).toBe(128000);
+    expect(getContextWindow('some-plugin')).toBe(32768);
+  });
+
+  it('leaves room for the prompt and the answer', () => {
+    expect(getChunkTokenBudget('ollama')).toBe(4096 - 1024 - 600);
+    expect(getChunkTokenBudget('claude')).toBe(24000);
+  });
+});
+
+describe('packByTokens', () => {
+  it('starts a new batch when the next item does not fit', () => {
+    expect(packByTokens([3, 4, 2, 6, 1], item => item, 7)).toEqual([[3, 4], [2], [6, 1]]);
+  });
+
+  it('gives an oversized item a batch of its own', () => {
+    expect(packByTokens([1, 10, 1], item => item, 5)).toEqual([[1], [10], [1]]);
+  });
+});
+
+describe('chunkCommits', () => {
+  // Every commit costs ten tokens: nine for the message and one for the line break
+  const message = 'x'.repeat(36);
+
+  it('keeps everything in one chunk when it fits', () => {
+    const commits = [createCommit(), createCommit()];
+
+    expect(chunkCommits(commits, 'week', 1000, formatCommit)).toEqual([
+      { label: 'all commits', commits },
+    ]);
+  });
+
+  it('groups by week, oldest week first', () => {
+    const thisWeek = createCommit({ date: '2024-03-13T09:00:00+00:00', message });
+    const lastWeek = createCommit({ date: '2024-03-06T09:00:00+00:00', message });
+
+    expect(chunkCommits([thisWeek, lastWeek], 'week', 12, formatCommit)).toEqual([
+      { label: 'week of 2024-03-04', commits: [lastWeek] },
+      { label: 'week of 2024-03-11', commits: [thisWeek] },
+    ]);
+  });
+
+  it('groups by author or directory, largest group first, and splits oversized groups', () => {
+    const ada = [1, 2, 3].map(() => createCommit({ author: 'Ada', message, files: ['docs/a.md'] }));
+    const bob = createCommit({ author: 'Bob', message, files: ['src/a.ts', 'src/b.ts'] });
+    const commits = [bob, ...ada];
+
+    expect(chunkCommits(commits, 'author', 20, formatCommit).map(chunk => chunk.label)).toEqual([
+      'Ada (part 1)',
+      'Ada (part 2), Bob',
+    ]);
+    expect(chunkCommits(commits, 'directory', 30, formatCommit)).toEqual([
+      { label: 'docs/', commits: ada },
+      { label: 'src/', commits: [bob] },
+    ]);
+  });
+});
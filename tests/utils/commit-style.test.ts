@@ -0,0 +1,60 @@
+import { deriveCommitStyle, describeCommitStyle } from '../../src/utils/commit-style.js';
+
+const GITMOJI_SUBJECTS = [
+  '✨ PROJ-12 Added CSV export',
+  '🐛 PROJ-13 Fixed crash on empty input',
+  '✨ PROJ-14 Added dark mode',
+  '📝 PROJ-15 Updated setup guide',
+  '🐛 PROJ-16 Fixed token refresh',
+];
+
+const CONVENTIONAL_SUBJECTS = [
+  'feat(api): add pagination',
+  'fix(cli): handle missing config',
+  'feat(api): stream large responses',
+  'chore: bump dependencies',
+  'docs(readme): document flags',
+];
+
+describe('deriveCommitStyle', () => {
+  it('needs a few subjects before it learns anything', () => {
+    expect(deriveCommitStyle(CONVENTIONAL_SUBJECTS.slice(0, 4))).toBeNull();
+  });
+
+  it('learns conventional headers, scopes, casing and tense', () => {
+    expect(deriveCommitStyle(CONVENTIONAL_SUBJECTS)).toMatchObject({
+      sampleSize: 5,
+      conventionalRatio: 1,
+      types: ['feat', 'fix', 'chore', 'docs'],
+      scopes: ['api', 'cli', 'readme'],
+      emojiRatio: 0,
+      casing: 'lower',
+      tense: 'imperative',
+    });
+  });
+
+  it('learns emojis, ticket prefixes and the past tense', () => {
+    expect(deriveCommitStyle(GITMOJI_SUBJECTS)).toMatchObject({
+      conventionalRatio: 0,
+      emojiRatio: 1,
+      emojis: ['✨', '🐛', '📝'],
+      ticketRatio: 1,
+      ticketPrefix: 'PROJ-12 ',
+      casing: 'capitalized',
+      tense: 'past',
+    });
+  });
+});
+
+describe('describeCommitStyle', () => {
+  it('turns a profile into prompt instructions with examples', () => {
+    const profile = deriveCommitStyle(GITMOJI_SUBJECTS);
+    const description = profile ? describeCommitStyle(profile) : '';
+
+    expect(description).toContain('Subjects do not use conventional commit prefixes');
+    expect(description).toContain('Subjects start with an emoji, such as ✨ 🐛 📝');
+    expect(description).toContain('Subjects start with a ticket key, like "PROJ-12"');
+    expect(description).toContain('the past tense');
+    expect(description).toContain('✨ PROJ-12 Added CSV export');
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  CONVENTIONAL_PRESET,
+  buildCommitRulesInstructions,
+  describeCommitRules,
+  lintCommitMessage,
+} from '../../src/utils/commitlint.js';
+
+describe('lintCommitMessage', () => {
+  it('accepts a message following the conventional preset', () => {
+    const message = 'feat(cli): add a --json flag\n\n- Print the report as JSON';
+
+    expect(lintCommitMessage(message, CONVENTIONAL_PRESET)).toEqual([]);
+  });
+
+  it('reports unknown types, capitalized subjects and trailing full stops', () => {
+    const violations = lintCommitMessage('feature: Add a flag.', CONVENTIONAL_PRESET);
+
+    expect(violations.map(violation => violation.rule).sort()).toEqual([
+      'subject-case',
+      'subject-full-stop',
+      'type-enum',
+    ]);
+  });
+
+  it('requires a type and a subject', () => {
+    const violations = lintCommitMessage('add a flag', CONVENTIONAL_PRESET);
+
+    expect(violations.map(violation => violation.rule)).toEqual(
+      expect.arrayContaining(['type-empty', 'subject-empty'])
+    );
+  });
+
+  it('measures the header and body line lengths', () => {
+    const message = `fix: ${'a'.repeat(100)}\n\n${'b'.repeat(101)}`;
+    const violations = lintCommitMessage(message, CONVENTIONAL_PRESET);
+
+    expect(violations).toContainEqual({
+      rule: 'header-max-length',
+      level: 2,
+      message: 'header must not be longer than 100 characters, current length is 105',
+    });
+    expect(violations.map(violation => violation.rule)).toContain('body-max-line-length');
+  });
+
+  it('checks every scope of a multi-scope header', () => {
+    const rules = { 'scope-enum': [2, 'always', ['cli', 'core']] } as const;
+
+    expect(lintCommitMessage('fix(cli,core): handle errors', rules)).toEqual([]);
+    expect(lintCommitMessage('fix(cli,docs): handle errors', rules)).toEqual([
+      { rule: 'scope-enum', level: 2, message: 'scope must be one of [cli, core]' },
+    ]);
+  });
+
+  it('applies "never" rules as the opposite condition', () => {
+    const rules = { 'scope-empty': [2, 'never'] } as const;
+
+    expect(lintCommitMessage('fix: handle errors', rules)).toEqual([
+      { rule: 'scope-empty', level: 2, message: 'scope may not be empty' },
+    ]);
+    expect(lintCommitMessage('fix(cli): handle errors', rules)).toEqual([]);
+  });
+
+  it('skips disabled and unsupported rules and lists errors before warnings', () => {
+    const rules = {
+      'subject-full-stop': [1, 'never', '.'],
+      'type-enum': [2, 'always', ['fix']],
+      'header-max-length': [0, 'always', 10],
+      'footer-leading-blank': [2, 'always'],
+    } as const;
+
+    expect(lintCommitMessage('feat: add a flag.', rules).map(violation => violation.level)).toEqual(
+      [2, 1]
+    );
+  });
+});
+
+describe('describeCommitRules', () => {
+  it('turns enabled rules into prompt instructions', () => {
+    expect(
+      describeCommitRules({
+        'type-enum': [2, 'always', ['feat', 'fix']],
+        'scope-empty': [2, 'never'],
+        'header-max-length': [1, 'always', 72],
+        'subject-full-stop': [0, 'never', '.'],
+      })
+    ).toEqual([
+      'The type must be one of: feat, fix',
+      'A scope is required',
+      'The header (first line) must be at most 72 characters',
+    ]);
+  });
+});
+
+describe('buildCommitRulesInstructions', () => {
+  it('includes the previous message and its violations when retrying', () => {
+    const instructions = buildCommitRulesInstructions(CONVENTIONAL_PRESET, {
+      message: 'Feature: Add a flag.',
+      violations: [{ rule: 'type-enum', level: 2, message: 'type must be one of [feat, fix]' }],
+    });
+
+    expect(instructions).toContain('- type must be one of [feat, fix]');
+    expect(instructions).toContain('Previous message:\nFeature: Add a flag.');
+  });
+});
@@ -0,0 +1,44 @@
+import { parseDateFilter, toGitDate } from '../../src/utils/date-filter.js';
+
+function localDay(date: Date): string {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('-');
+}
+
+describe('parseDateFilter', () => {
+  it('reads relative dates and keywords as local midnight', () => {
+    const week = new Date();
+    week.setHours(0, 0, 0, 0);
+    week.setDate(week.getDate() - 7);
+
+    expect(parseDateFilter('7d')).toEqual(week);
+    expect(parseDateFilter('1w')).toEqual(week);
+    expect(parseDateFilter('Today')?.getHours()).toBe(0);
+  });
+
+  it('reads plain days and timestamps', () => {
+    expect(parseDateFilter('2024-03-05')).toEqual(new Date(2024, 2, 5));
+    expect(parseDateFilter('2024-03-05T10:00:00Z')).toEqual(new Date('2024-03-05T10:00:00Z'));
+  });
+
+  it('rejects values it cannot read', () => {
+    expect(parseDateFilter('last sprint')).toBeNull();
+    expect(parseDateFilter('2024-13-45')).toBeNull();
+  });
+});
+
+describe('toGitDate', () => {
+  it('passes days to git with the time of day', () => {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    expect(toGitDate('2024-03-05', '00:00:00')).toBe('2024-03-05 00:00:00');
+    expect(toGitDate('yesterday', '23:59:59')).toBe(`${localDay(yesterday)} 23:59:59`);
+  });
+
+  it('passes moments through unchanged', () => {
+    expect(toGitDate('now', '23:59:59')).toBe('now');
+    expect(toGitDate('2024-03-05T10:00:00Z', '00:00:00')).toBe('2024-03-05T10:00:00Z');
+  });
+});
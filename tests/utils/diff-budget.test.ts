@@ -0,0 +1,86 @@
+import { budgetDiff, getDiffTokenBudget } from '../../src/utils/diff-budget.js';
+
+/**
+ * Build a diff of one file with a hunk per entry of `hunks`, each adding that many lines
+ */
+function fileDiff(path: string, hunks: number[], text = 'const value = compute(input);'): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    ...hunks.flatMap((lines, index) => [
+      `@@ -${index * 100 + 1},0 +${index * 100 + 1},${lines} @@`,
+      ...Array.from({ length: lines }, (_, line) => `+${text} // ${index}.${line}`),
+    ]),
+  ].join('\n');
+}
+
+const BINARY_DIFF = [
+  'diff --git a/assets/logo.png b/assets/logo.png',
+  'index 1111111..2222222 100644',
+  'Binary files a/assets/logo.png and b/assets/logo.png differ',
+].join('\n');
+
+describe('budgetDiff', () => {
+  it('returns a diff that fits unchanged', () => {
+    const diff = fileDiff('src/app.ts', [3]);
+
+    expect(budgetDiff(diff, 10000)).toBe(diff);
+  });
+
+  it('always drops lockfiles, generated files and binaries', () => {
+    const source = fileDiff('src/app.ts', [2]);
+    const diff = [
+      source,
+      fileDiff('package-lock.json', [4], '"integrity": "sha512-abc"'),
+      fileDiff('dist/index.min.js', [1]),
+      BINARY_DIFF,
+    ].join('\n');
+
+    const budgeted = budgetDiff(diff, 10000);
+
+    expect(budgeted).toContain(source);
+    expect(budgeted).not.toContain('sha512-abc');
+    expect(budgeted).toContain(
+      [
+        'Files not shown above:',
+        '- package-lock.json (lockfile, +4 -0)',
+        '- dist/index.min.js (generated, +1 -0)',
+        '- assets/logo.png (binary)',
+      ].join('\n')
+    );
+  });
+
+  it('gives every file its top hunk before second hunks', () => {
+    const diff = [fileDiff('src/a.ts', [40, 40]), fileDiff('src/b.ts', [40])].join('\n');
+
+    const budgeted = budgetDiff(diff, 1100);
+
+    expect(budgeted).toContain('diff --git a/src/a.ts b/src/a.ts');
+    expect(budgeted).toContain('diff --git a/src/b.ts b/src/b.ts');
+    expect(budgeted).toContain('... (1 more hunk omitted)');
+  });
+
+  it('ranks source files above tests and docs', () => {
+    const diff = [fileDiff('README.md', [60]), fileDiff('src/app.ts', [60])].join('\n');
+
+    const budgeted = budgetDiff(diff, 700);
+
+    expect(budgeted).toContain('diff --git a/src/app.ts b/src/app.ts');
+    expect(budgeted).toContain('- README.md (omitted for length, +60 -0)');
+  });
+
+  it('truncates a hunk too large for the whole budget', () => {
+    const budgeted = budgetDiff(fileDiff('src/app.ts', [500]), 500);
+
+    expect(budgeted).toContain('... (hunk truncated)');
+    expect(budgeted.length / 4).toBeLessThanOrEqual(500);
+  });
+});
+
+describe('getDiffTokenBudget', () => {
+  it('takes half of a small context window and caps large ones', () => {
+    expect(getDiffTokenBudget('ollama')).toBe(2048);
+    expect(getDiffTokenBudget('claude')).toBe(12000);
+  });
+});
@@ -0,0 +1,104 @@
+import { buildHeuristicReport } from '../../src/utils/heuristic-report.js';
+import { GitCommit } from '../../src/types/index.js';
+
+let commitCount = 0;
+
+function createCommit(fields: Partial<GitCommit> & Pick<GitCommit, 'message'>): GitCommit {
+  commitCount++;
+  return {
+    hash: commitCount.toString(16).padStart(40, '0'),
+    date: '2024-03-06T10:00:00+00:00',
+    author: 'Jane Doe',
+    files: ['src/index.ts'],
+    ...fields,
+  };
+}
+
+describe('buildHeuristicReport', () => {
+  it('groups conventional commits by type and scope, largest churn first', () => {
+    const commits = [
+      createCommit({ message: 'feat(export): add CSV export', insertions: 300, deletions: 20 }),
+      createCommit({
+        message: 'feat(export): stream large exports',
+        insertions: 100,
+        deletions: 0,
+      }),
+      createCommit({ message: 'fix(auth): refresh expired tokens', insertions: 20, deletions: 5 }),
+      createCommit({ message: 'refactor(core): extract parser', insertions: 50, deletions: 50 }),
+    ];
+
+    const report = buildHeuristicReport(commits);
+
+    expect(report.accomplishments).toEqual([
+      'Features in export: Add CSV export; Stream large exports (2 commits, +400 -20)',
+      'Fixes in auth: Refresh expired tokens (1 commit, +20 -5)',
+    ]);
+    expect(report.technicalImprovements).toEqual([
+      'Refactoring in core: Extract parser (1 commit, +50 -50)',
+    ]);
+    expect(report.summary).toMatch(/^4 commits by 1 author changed 1 file \(\+470 -75 lines\)\./);
+  });
+
+  it('guesses types of free-form subjects and falls back to the busiest directory', () => {
+    const report = buildHeuristicReport([
+      createCommit({
+        message: '[PROJ-12] Fixed crash on empty input',
+        files: ['src/cli/run.ts'],
+        insertions: 10,
+        deletions: 2,
+        fileStats: [{ path: 'src/cli/run.ts', status: 'modified', insertions: 8, deletions: 3 }],
+      }),
+    ]);
+
+    expect(report.accomplishments).toEqual([
+      'Fixes in src/cli/: Fixed crash on empty input (1 commit, +10 -2)',
+    ]);
+  });
+
+  it('credits co-authors and leaves merge commits out of the work', () => {
+    const report = buildHeuristicReport([
+      createCommit({ message: "Merge branch 'main'", isMerge: true, insertions: 900 }),
+      createCommit({
+        message: 'feat: add login',
+        coAuthors: ['Sam Roe'],
+        insertions: 10,
+        deletions: 2,
+      }),
+    ]);
+
+    expect(report.summary).toMatch(/^2 commits by 2 authors .*\(\+10 -2 lines\)/);
+    expect(report.accomplishments).toHaveLength(1);
+  });
+
+  it('flags breaking changes, reverts and very large commits', () => {
+    const report = buildHeuristicReport([
+      createCommit({ hash: 'a'.repeat(40), message: 'feat!: drop Node 16' }),
+      createCommit({ hash: 'b'.repeat(40), message: 'Revert "add login"' }),
+      createCommit({
+        hash: 'c'.repeat(40),
+        message: 'chore: vendor assets',
+        insertions: 5000,
+        deletions: 2,
+      }),
+    ]);
+
+    expect(report.risks).toEqual([
+      'Breaking change in aaaaaaa: drop Node 16',
+      'Reverted work in bbbbbbb: Revert "add login"',
+      'Large commit ccccccc changed 5002 lines: vendor assets',
+    ]);
+  });
+
+  it('keeps light reports to a few accomplishments without extra sections', () => {
+    const commits = [1, 2, 3, 4].map(index =>
+      createCommit({ message: `feat(area${index}): add feature ${index}` })
+    );
+    commits.push(createCommit({ message: 'feat!: remove legacy API' }));
+
+    const report = buildHeuristicReport(commits, 'light');
+
+    expect(report.accomplishments).toHaveLength(3);
+    expect(report.risks).toBeUndefined();
+    expect(report.technicalImprovements).toBeUndefined();
+  });
+});
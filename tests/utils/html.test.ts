@@ -0,0 +1,18 @@
+import { escapeHtml, toScriptLiteral } from '../../src/utils/html.js';
+
+describe('escapeHtml', () => {
+  it('escapes markup in pathspecs and commit messages', () => {
+    expect(escapeHtml(':(exclude)<img src=x onerror=alert(1)>')).toBe(
+      ':(exclude)&lt;img src=x onerror=alert(1)&gt;'
+    );
+    expect(escapeHtml(`Fix "a" & 'b'`)).toBe('Fix &quot;a&quot; &amp; &#39;b&#39;');
+  });
+});
+
+describe('toScriptLiteral', () => {
+  it('keeps a closing script tag from ending the inline script', () => {
+    const literal = toScriptLiteral({ message: '</script><script>alert(1)</script>' });
+    expect(literal).not.toContain('</script>');
+    expect(JSON.parse(literal)).toEqual({ message: '</script><script>alert(1)</script>' });
+  });
+});
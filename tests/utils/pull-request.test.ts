@@ -0,0 +1,99 @@
+import {
+  parsePullRequestJson,
+  renderPullRequestDescription,
+} from '../../src/utils/pull-request.js';
+
+const description = {
+  title: 'feat: add CSV export',
+  summary: 'Adds a CSV export to reports.',
+  changes: ['Add exporter', 'Wire up --csv'],
+  testing: ['Unit tests for the exporter'],
+  risks: [],
+};
+
+describe('parsePullRequestJson', () => {
+  it('reads a description wrapped in prose and keeps only the first title line', () => {
+    const text = `Sure:\n${JSON.stringify({ ...description, title: 'feat: add CSV\nexport', risks: 'Big files' })}`;
+
+    expect(parsePullRequestJson(text)).toEqual({
+      ...description,
+      title: 'feat: add CSV',
+      risks: ['Big files'],
+    });
+  });
+
+  it('returns null without a title or summary', () => {
+    expect(parsePullRequestJson('{"title": "feat: add CSV export"}')).toBeNull();
+    expect(parsePullRequestJson('No JSON here')).toBeNull();
+  });
+});
+
+describe('renderPullRequestDescription', () => {
+  it('writes default sections and lists tickets only when there are some', () => {
+    expect(renderPullRequestDescription(description, [])).toBe(
+      [
+        '## Summary',
+        '',
+        'Adds a CSV export to reports.',
+        '',
+        '## Changes',
+        '',
+        '- Add exporter',
+        '- Wire up --csv',
+        '',
+        '## Testing',
+        '',
+        '- Unit tests for the exporter',
+        '',
+        '## Risks',
+        '',
+        '- None identified',
+        '',
+      ].join('\n')
+    );
+    expect(renderPullRequestDescription(description, ['PROJ-12'])).toContain(
+      '## Tickets\n\n- PROJ-12\n'
+    );
+  });
+
+  it('fills matching template sections and keeps the rest of the template', () => {
+    const template = [
+      '## Description',
+      '<!-- Describe the change -->',
+      '',
+      '## Type of change',
+      '- [ ] Bug fix',
+      '',
+      '## How was it tested?',
+      '<!-- Steps -->',
+      '- [ ] Added tests',
+    ].join('\n');
+
+    expect(renderPullRequestDescription(description, [], template)).toBe(
+      [
+        '## Description',
+        '',
+        'Adds a CSV export to reports.',
+        '',
+        '## Type of change',
+        '- [ ] Bug fix',
+        '',
+        '## How was it tested?',
+        '',
+        '- Unit tests for the exporter',
+        '',
+        '- [ ] Added tests',
+        '',
+        '## Changes',
+        '',
+        '- Add exporter',
+        '- Wire up --csv',
+        '',
+        '## Risks',
+        '',
+        '- None identified',
+        '',
+      ].join('\n')
+    );
+  });
+});
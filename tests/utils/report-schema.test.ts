@@ -0,0 +1,61 @@
+import {
+  parsePartialReport,
+  parseReportJson,
+  validateReport,
+} from '../../src/utils/report-schema.js';
+
+describe('validateReport', () => {
+  it('keeps the known sections and drops empty entries', () => {
+    expect(
+      validateReport({
+        summary: ' Shipped exports. ',
+        accomplishments: ['Add CSV export', '  ', 42],
+        risks: [],
+        recommendations: ['Add tests'],
+        extra: 'ignored',
+      })
+    ).toEqual({
+      summary: 'Shipped exports.',
+      accomplishments: ['Add CSV export'],
+      recommendations: ['Add tests'],
+    });
+  });
+
+  it('rejects values without a summary or accomplishments', () => {
+    expect(validateReport(null)).toBeNull();
+    expect(validateReport({ summary: 'Done' })).toBeNull();
+    expect(validateReport({ summary: '', accomplishments: [] })).toBeNull();
+  });
+});
+
+describe('parseReportJson', () => {
+  it('reads a report wrapped in a code fence and prose', () => {
+    const text = 'Here you go:\n```json\n{"summary": "Done", "accomplishments": ["A"]}\n```';
+
+    expect(parseReportJson(text)).toEqual({ summary: 'Done', accomplishments: ['A'] });
+  });
+
+  it('returns null for text without a valid report', () => {
+    expect(parseReportJson('No JSON here')).toBeNull();
+    expect(parseReportJson('{"summary": "Done", "accomplishments": [')).toBeNull();
+  });
+});
+
+describe('parsePartialReport', () => {
+  it('reads finished and unfinished strings of a streaming report', () => {
+    const text =
+      '{"summary": "Shipped \\"exports\\"\\nand fixes", "accomplishments": ["Add CSV", "Fix enc';
+
+    expect(parsePartialReport(text)).toEqual({
+      summary: 'Shipped "exports"\nand fixes',
+      accomplishments: ['Add CSV', 'Fix enc'],
+    });
+  });
+
+  it('stops before an escape sequence cut off mid-way', () => {
+    expect(parsePartialReport('{"summary": "caf\\u00e9 and \\u00')).toEqual({
+      summary: 'café and',
+      accomplishments: [],
+    });
+  });
+});
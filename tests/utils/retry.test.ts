@@ -0,0 +1,63 @@
+import { getRetryDelay, isTransientError, withRetry } from '../../src/utils/retry.js';
+
+/**
+ * An error carrying an HTTP status, as SDK clients throw them
+ */
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed with status ${status}`), { status });
+}
+
+describe('isTransientError', () => {
+  it('retries rate limits, timeouts and server errors by status', () => {
+    expect(isTransientError(httpError(429))).toBe(true);
+    expect(isTransientError(httpError(408))).toBe(true);
+    expect(isTransientError(httpError(503))).toBe(true);
+    expect(isTransientError(httpError(401))).toBe(false);
+  });
+
+  it('falls back to the message when there is no status', () => {
+    expect(isTransientError(new Error('socket hang up'))).toBe(true);
+    expect(isTransientError(new Error('Model is overloaded'))).toBe(true);
+    expect(isTransientError(new Error('Invalid API key'))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles per attempt, is capped and keeps at least half the delay', () => {
+    const settings = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(getRetryDelay(0, settings, () => 0)).toBe(50);
+    expect(getRetryDelay(2, settings, () => 0.999)).toBe(400);
+    expect(getRetryDelay(10, settings, () => 0.999)).toBe(1000);
+  });
+});
+
+describe('withRetry', () => {
+  const settings = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+  it('repeats transient failures until the operation succeeds', async () => {
+    const operation = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValueOnce('ok');
+    const onRetry = jest.fn();
+
+    await expect(withRetry(operation, settings, onRetry)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, expect.any(Number));
+  });
+
+  it('throws other errors at once', async () => {
+    const operation = jest.fn<Promise<string>, []>().mockRejectedValue(httpError(400));
+
+    await expect(withRetry(operation, settings)).rejects.toThrow('status 400');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws the last error once the retries are used up', async () => {
+    const operation = jest.fn<Promise<string>, []>().mockRejectedValue(httpError(503));
+
+    await expect(withRetry(operation, settings)).rejects.toThrow('status 503');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+});
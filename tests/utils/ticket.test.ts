@@ -0,0 +1,73 @@
+import {
+  addTicketToBranchName,
+  addTicketToMessage,
+  extractTicketKey,
+  extractTicketKeys,
+  isTicketKey,
+} from '../../src/utils/ticket.js';
+
+describe('extractTicketKey', () => {
+  it('finds a Jira-style key in a branch name', () => {
+    expect(extractTicketKey('feature/PROJ-1234-add-export')).toBe('PROJ-1234');
+    expect(extractTicketKey('feature/add-export')).toBeNull();
+  });
+
+  it('returns the first capture group of a custom pattern', () => {
+    expect(extractTicketKey('fix/gh-42-crash', 'gh-(\\d+)')).toBe('42');
+  });
+});
+
+describe('extractTicketKeys', () => {
+  it('lists every key once, in order', () => {
+    expect(extractTicketKeys('PROJ-1 fixes PROJ-2, see PROJ-1')).toEqual(['PROJ-1', 'PROJ-2']);
+  });
+});
+
+describe('isTicketKey', () => {
+  it('matches the whole key only', () => {
+    expect(isTicketKey('PROJ-12')).toBe(true);
+    expect(isTicketKey('PROJ-12-extra')).toBe(false);
+    expect(isTicketKey('proj-12')).toBe(false);
+  });
+});
+
+describe('addTicketToMessage', () => {
+  it('puts the key after a conventional type and scope', () => {
+    expect(addTicketToMessage('feat(cli): add export\n\n- details', 'PROJ-1', 'prefix')).toBe(
+      'feat(cli): PROJ-1 add export\n\n- details'
+    );
+  });
+
+  it('prefixes plain and bulleted subjects', () => {
+    expect(addTicketToMessage('Add export', 'PROJ-1', 'prefix')).toBe('PROJ-1: Add export');
+    expect(addTicketToMessage('- Add export', 'PROJ-1', 'prefix')).toBe('- PROJ-1: Add export');
+  });
+
+  it('leaves messages that already mention the key alone', () => {
+    expect(addTicketToMessage('PROJ-1: Add export', 'PROJ-1', 'trailer')).toBe(
+      'PROJ-1: Add export'
+    );
+  });
+
+  it('adds a trailer after the body or to an existing trailer block', () => {
+    expect(addTicketToMessage('feat: add export\n\n- details\n', 'PROJ-1', 'trailer')).toBe(
+      'feat: add export\n\n- details\n\nRefs: PROJ-1'
+    );
+    expect(
+      addTicketToMessage('feat: add export\n\nSigned-off-by: Jane <j@x.dev>', 'PROJ-1', 'trailer')
+    ).toBe('feat: add export\n\nSigned-off-by: Jane <j@x.dev>\nRefs: PROJ-1');
+  });
+});
+
+describe('addTicketToBranchName', () => {
+  it('puts the key at the start of the description', () => {
+    expect(addTicketToBranchName('feature/add-export', 'PROJ-1')).toBe('feature/PROJ-1-add-export');
+    expect(addTicketToBranchName('add-export', 'PROJ-1')).toBe('PROJ-1-add-export');
+  });
+
+  it('replaces a lower-cased copy of the key', () => {
+    expect(addTicketToBranchName('feature/add-export-proj-1', 'PROJ-1')).toBe(
+      'feature/PROJ-1-add-export'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  addUsage,
+  calculateCost,
+  formatCost,
+  getModelPrice,
+  groupUsage,
+} from '../../src/utils/token-pricing.js';
+import { UsageRecord } from '../../src/types/index.js';
+
+function usage(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    provider: 'openai',
+    model: 'gpt-4o',
+    requests: 1,
+    inputTokens: 1000,
+    outputTokens: 100,
+    cost: 0.01,
+    estimated: false,
+    ...overrides,
+  };
+}
+
+describe('getModelPrice', () => {
+  it('matches versioned model names by the longest prefix', () => {
+    expect(getModelPrice('openai', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(getModelPrice('openai', 'gpt-4o-mini-2024-07-18')).toEqual({
+      input: 0.15,
+      output: 0.6,
+    });
+  });
+
+  it('prefers configured prices, treats local models as free and knows no others', () => {
+    expect(getModelPrice('openai', 'gpt-4o', { 'gpt-4o': { input: 1, output: 2 } })).toEqual({
+      input: 1,
+      output: 2,
+    });
+    expect(getModelPrice('ollama', 'llama3')).toEqual({ input: 0, output: 0 });
+    expect(getModelPrice('openai-compatible', 'mistral-large')).toBeUndefined();
+  });
+});
+
+describe('calculateCost', () => {
+  it('prices tokens per million', () => {
+    expect(
+      calculateCost({ inputTokens: 2_000_000, outputTokens: 500_000 }, { input: 3, output: 15 })
+    ).toBe(13.5);
+  });
+});
+
+describe('addUsage and groupUsage', () => {
+  it('adds tokens and loses the cost when a record has no price', () => {
+    const total = addUsage(usage({}), usage({ cost: undefined, estimated: true }));
+
+    expect(total).toMatchObject({
+      requests: 2,
+      inputTokens: 2000,
+      cost: undefined,
+      estimated: true,
+    });
+  });
+
+  it('groups records by key, most expensive first', () => {
+    const records = [
+      usage({ model: 'gpt-4o-mini', cost: 0.001 }),
+      usage({ cost: 0.02 }),
+      usage({ cost: 0.03 }),
+    ];
+
+    expect(groupUsage(records, record => record.model)).toEqual([
+      { key: 'gpt-4o', usage: expect.objectContaining({ requests: 2, cost: 0.05 }) },
+      { key: 'gpt-4o-mini', usage: expect.objectContaining({ requests: 1, cost: 0.001 }) },
+    ]);
+  });
+});
+
+describe('formatCost', () => {
+  it('shows more decimals for amounts under a cent', () => {
+    expect(formatCost(1.234)).toBe('$1.23');
+    expect(formatCost(0.0042)).toBe('$0.0042');
+    expect(formatCost(0)).toBe('$0.00');
+  });
+});